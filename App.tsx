@@ -1,36 +1,161 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { GameCanvas } from './components/GameCanvas';
 import { VirtualJoystick } from './components/VirtualJoystick';
 import { RetroJukebox, RetroJukeboxRef } from './components/RetroJukebox';
-import { getGameCommentary } from './services/geminiService';
-import { LEVELS, MOCK_SCORES, TEASING_PHRASES, SILVER_AVATAR, TRANSLATIONS } from './constants';
-import { GameStatus, GameStats, Point, Language, ScoreEntry } from './types';
-import { Trophy, Play, Skull, RefreshCw, Zap, Heart, MessageSquare, Pause, PlayCircle, Star, ImageOff, Save, ChevronRight, Eye, X, Coins, Gamepad2, Trash2, Terminal, FastForward } from 'lucide-react';
-
-// VERSION CONTROL CONSTANT
-// Changing this forces a data reset for the user. 
-// Useful when changing core mechanics like level indices.
-const DATA_VERSION = 'v2.0_tutorial_update';
+import { ReplayControls } from './components/ReplayControls';
+import { LevelEditor } from './components/LevelEditor';
+import { SettingsScreen } from './components/SettingsScreen';
+import { ProfileScreen } from './components/ProfileScreen';
+import { Leaderboard } from './components/Leaderboard';
+import { StatsScreen } from './components/StatsScreen';
+import { AchievementsScreen } from './components/AchievementsScreen';
+import { AchievementToast } from './components/AchievementToast';
+import { SilverBubble } from './components/SilverBubble';
+import { createCommentaryProvider } from './services/geminiService';
+import { parseReplay, downloadReplay } from './services/replay';
+import { loadGhost, saveGhostIfBest } from './services/ghostService';
+import {
+  loadLevelPackFromFile, loadLevelPackFromPath, loadInstalledPacks, saveInstalledPacks
+} from './services/levelPacks';
+import {
+  loadSaveData, writeSaveData, clearSaveData, SAVE_SCHEMA_VERSION, parseProfile, mergeSaveData, downloadProfile,
+  createProfile, recordContinues
+} from './services/saveData';
+import { createRunEntry, findRecords, boardOf, describeRecord, insertEntry, qualifiesFor } from './services/leaderboard';
+import { createLocalLeaderboard, createRemoteLeaderboard, LocalBoardTables } from './services/leaderboardProvider';
+import { createSubmissionQueue, SubmissionQueue } from './services/submissionQueue';
+import { createRunProof } from './services/runProof';
+import { simulateRun, verifyEntryAgainstRun, SimulatedRun } from './services/scoreVerifier';
+import { applyAchievementEvent, Achievement, AchievementEvent } from './services/achievements';
+import {
+  createSilverReactions, MOOD_MS, BUBBLE_MS, BIG_CAPTURE_AREA, IDLE_REACTION_MS, ALMOST_THERE_MARGIN
+} from './services/silverReactions';
+import { t, getLocale, formatNumber, LANGUAGES, TemplateValues } from './services/i18n';
+import { findAction, MOVE_ACTIONS, describeMovement, keyLabel } from './services/controls';
+import { createGamepadInput, GamepadHandlers, GamepadInput } from './services/gamepad';
+import { createInputManager } from './services/inputManager';
+import { moveFocus, activateFocus, goBack } from './services/focusNavigation';
+import {
+  recordLevelStart, recordCapture, recordDamage, recordGameOver, recordLevelClear, recordContinue
+} from './services/playerStats';
+import { CORE_PACK, CORE_PACK_ID, CUSTOM_PACK_ID, CONTINUE_PENALTY, SILVER_AVATAR } from './constants';
+import { GameStatus, GameStats, Point, Language, ScoreEntry, ItemType, EffectsQuality, Replay, LevelPack, LevelConfig, PlayerStats, PlayerProfile, SaveData, LevelBoards, RunDetails, BoardRecord, SyncState, Enemy, LevelTelemetry, SilverMood, SilverTrigger } from './types';
+import { Trophy, Play, Skull, RefreshCw, Zap, Heart, MessageSquare, Pause, PlayCircle, Star, ImageOff, Save, ChevronRight, Eye, X, Coins, Gamepad2, Trash2, Terminal, FastForward, Download, Film, Upload, Package, FolderOpen, PenTool, Settings, User, Award, BarChart3 } from 'lucide-react';
+
+const EMPTY_TELEMETRY: LevelTelemetry = { largestCapture: 0, comboPeak: 0, nearMisses: 0, livesLost: 0 };
+
+// Screens that Escape (or B on a gamepad) closes
+const BACK_TO_MENU = [GameStatus.LEADERBOARD, GameStatus.PROFILES, GameStatus.ACHIEVEMENTS, GameStatus.STATS];
 
 export default function App() {
+  // Profiles, scores and settings are loaded once from the save document (services/saveData)
+  const [initialSave] = useState(loadSaveData);
+
+  // Local player profiles: each one keeps its own unlocks, bests, language and stats
+  const [profiles, setProfiles] = useState<PlayerProfile[]>(initialSave.profiles);
+  const [activeProfileId, setActiveProfileId] = useState(initialSave.activeProfileId);
+  const profile = profiles.find(p => p.id === activeProfileId) ?? profiles[0];
+
+  const updateProfile = (update: (prev: PlayerProfile) => PlayerProfile) => {
+      setProfiles(prev => prev.map(p => p.id === profile.id ? update(p) : p));
+  };
+
   const [status, setStatus] = useState<GameStatus>(GameStatus.MENU);
+  const [editorPlayTest, setEditorPlayTest] = useState(false); // A level editor play-test is running
   const [currentLevelIndex, setCurrentLevelIndex] = useState(0);
   const [stats, setStats] = useState<GameStats>({ areaRevealed: 0, timeElapsed: 0, score: 0 });
+  const [levelStartScore, setLevelStartScore] = useState(0); // Score carried into the current level
   const [lives, setLives] = useState(3); 
   const [commentary, setCommentary] = useState<string>('');
-  const [direction, setDirection] = useState<Point>({ x: 0, y: 0 });
+  const [commentaryProvider] = useState(createCommentaryProvider); // Gemini when configured, built-in lines otherwise
+  const [direction, setDirection] = useState<Point>({ x: 0, y: 0 }); // Where the player is being steered
+  // Keyboard, gamepad and touch all press and release through here (see services/inputManager)
+  const [inputManager] = useState(() => createInputManager(setDirection, initialSave.settings.keepMoving));
   const [isMobile, setIsMobile] = useState(false);
-  const [language, setLanguage] = useState<Language>('ES');
+  const language = profile.language;
+  const setLanguage = (lang: Language) => updateProfile(p => ({ ...p, language: lang }));
+  const [quality, setQuality] = useState<EffectsQuality>(initialSave.settings.quality);
   
-  // Progression Logic
-  const [unlockedLevels, setUnlockedLevels] = useState<number[]>([]);
+  // Level packs: the built-in levels plus any loaded from JSON
+  const [installedPacks, setInstalledPacks] = useState<LevelPack[]>(loadInstalledPacks);
+  const [activePack, setActivePack] = useState<LevelPack>(CORE_PACK);
+  const packInputRef = useRef<HTMLInputElement>(null);
+  const levels = activePack.levels;
+  const currentLevel = levels[currentLevelIndex];
+
+  // Progression Logic (unlocked level ids, per pack)
+  const unlocks = profile.unlocks;
+  const setUnlocks = (update: (prev: Record<string, number[]>) => Record<string, number[]>) =>
+      updateProfile(p => ({ ...p, unlocks: update(p.unlocks) }));
   const [continuesUsed, setContinuesUsed] = useState(0);
   const [continueTimer, setContinueTimer] = useState(10);
   
-  // High Score Logic
-  const [highScores, setHighScores] = useState<ScoreEntry[]>([]);
+  // High Score Logic (per pack): the device boards, plus each profile's personal bests
+  const [scoreTables, setScoreTables] = useState<Record<string, ScoreEntry[]>>(initialSave.scores);
+  const [levelBoardTables, setLevelBoardTables] = useState<Record<string, Record<string, LevelBoards>>>(initialSave.levelBoards);
+  const highScores = scoreTables[activePack.id] ?? [];
   const [playerName, setPlayerName] = useState('AAA');
+  const [pendingRecords, setPendingRecords] = useState<BoardRecord[]>([]); // Boards the finished run made it onto
+
+  // Leaderboard providers: the device boards above, plus an optional remote server
+  const boardTablesRef = useRef<LocalBoardTables>({ scores: scoreTables, levelBoards: levelBoardTables });
+  boardTablesRef.current = { scores: scoreTables, levelBoards: levelBoardTables };
+  const localLeaderboard = useMemo(() => createLocalLeaderboard(
+      () => boardTablesRef.current,
+      change => {
+          // Apply to the ref right away so several submits in a row build on each other
+          const next = change(boardTablesRef.current);
+          boardTablesRef.current = next;
+          setScoreTables(next.scores);
+          setLevelBoardTables(next.levelBoards);
+      }
+  ), [scoreTables, levelBoardTables]);
+  const [remoteLeaderboard] = useState(createRemoteLeaderboard);
+  const submissionQueueRef = useRef<SubmissionQueue | null>(null);
+  const [syncState, setSyncState] = useState<SyncState>({ status: 'LOCAL', pending: 0 });
+  const [scoreRejected, setScoreRejected] = useState(false); // The last run's proof did not verify, so it stayed off the online boards
+
+  // Details of the current run, for the leaderboards
+  const [runDetails, setRunDetails] = useState<RunDetails>({ levels: [], livesLost: 0, maxCombo: 0 });
+  const [runReplays, setRunReplays] = useState<Replay[]>([]); // Every level attempt, for the run proof
+  // The current level attempt, for achievements and commentary. A ref, updated as events arrive:
+  // the win can come in the same frame as the last hit, before any state would render
+  const levelTelemetryRef = useRef(EMPTY_TELEMETRY);
+  const updateLevelTelemetry = (update: (prev: LevelTelemetry) => LevelTelemetry) => {
+      levelTelemetryRef.current = update(levelTelemetryRef.current);
+  };
+
+  // Achievements of the active profile; the ref lets several events in one frame build on each other
+  const achievementsRef = useRef(profile.achievements);
+  achievementsRef.current = profile.achievements;
+  const [achievementToasts, setAchievementToasts] = useState<Achievement[]>([]);
   
+  // Replays: the last finished run, and the one being watched
+  const [lastReplay, setLastReplay] = useState<Replay | null>(null);
+  const [activeReplay, setActiveReplay] = useState<Replay | null>(null);
+  const [replayPaused, setReplayPaused] = useState(false);
+  const [replaySpeed, setReplaySpeed] = useState(1);
+  const [replayTick, setReplayTick] = useState(0);
+  const [replaySeek, setReplaySeek] = useState<{ tick: number } | null>(null);
+  const replayInputRef = useRef<HTMLInputElement>(null);
+
+  // Ghost racing against the best clear of the current level
+  const [ghostEnabled, setGhostEnabled] = useState(initialSave.settings.ghostEnabled);
+  const [ghostReplay, setGhostReplay] = useState<Replay | null>(null);
+  const [ghostDelta, setGhostDelta] = useState<number | null>(null);
+
+  // Controls, audio and accessibility options of the settings screen
+  const [keyBindings, setKeyBindings] = useState(initialSave.settings.keyBindings);
+  const [volume, setVolume] = useState(initialSave.settings.volume);
+  const [reducedEffects, setReducedEffects] = useState(initialSave.settings.reducedEffects);
+  const [touchLayout, setTouchLayout] = useState(initialSave.settings.touchLayout);
+  const [keepMoving, setKeepMoving] = useState(initialSave.settings.keepMoving);
+
+  // Lifetime counters of the active profile
+  const playerStats = profile.stats;
+  const setPlayerStats = (update: (prev: PlayerStats) => PlayerStats) =>
+      updateProfile(p => ({ ...p, stats: update(p.stats) }));
+
   // View Image Logic for Gallery
   const [viewGalleryImage, setViewGalleryImage] = useState<string | null>(null);
 
@@ -40,57 +165,74 @@ export default function App() {
   // Safety Ref to prevent race conditions on quit
   const isGameActiveRef = useRef(false);
 
-  // Silver's Mood State
-  const [silverMood, setSilverMood] = useState<'NEUTRAL' | 'EXCITED' | 'SAD' | 'DEFEATED'>('NEUTRAL');
+  // Silver's Mood State: in-game events pick her face and speech bubble line (services/silverReactions)
+  const [silverMood, setSilverMood] = useState<SilverMood>('NEUTRAL');
   const moodTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [silverLine, setSilverLine] = useState<string | null>(null);
+  const bubbleTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [silverReactions] = useState(createSilverReactions);
+  const areaMilestonesRef = useRef({ halfway: false, almostThere: false }); // Said once per level attempt
 
   // Banner state
-  const [bannerText, setBannerText] = useState(TRANSLATIONS['ES'].instructions);
+  const [bannerText, setBannerText] = useState(t(language, 'instructions'));
 
   // Fallback Images (Anime Style)
   const FALLBACK_AVATAR = "https://images.unsplash.com/photo-1544005313-94ddf0286df2?w=400&q=80"; // Anime/Cosplay style girl
   const FALLBACK_SCENERY = "https://images.unsplash.com/photo-1636955860106-9eb89e576026?q=80&w=1080"; // Cyberpunk City
 
-  // --- INITIALIZATION ---
+  // --- PERSISTENCE ---
+  const currentSave = (): SaveData => ({
+      schemaVersion: SAVE_SCHEMA_VERSION,
+      activeProfileId: profile.id,
+      profiles,
+      scores: scoreTables,
+      levelBoards: levelBoardTables,
+      settings: { quality, ghostEnabled, keyBindings, volume, reducedEffects, touchLayout, keepMoving }
+  });
+
+  const applySave = (data: SaveData) => {
+      setProfiles(data.profiles);
+      setActiveProfileId(data.activeProfileId);
+      setScoreTables(data.scores);
+      setLevelBoardTables(data.levelBoards);
+      setQuality(data.settings.quality);
+      setGhostEnabled(data.settings.ghostEnabled);
+      setKeyBindings(data.settings.keyBindings);
+      setVolume(data.settings.volume);
+      setReducedEffects(data.settings.reducedEffects);
+      setTouchLayout(data.settings.touchLayout);
+      setKeepMoving(data.settings.keepMoving);
+  };
+
+  // Any change to saved state rewrites the whole document
   useEffect(() => {
-      const storedVersion = localStorage.getItem('SIILVEER_DATA_VERSION');
+      writeSaveData(currentSave());
+  }, [profiles, profile.id, scoreTables, levelBoardTables, quality, ghostEnabled, keyBindings, volume, reducedEffects, touchLayout, keepMoving]);
 
-      // RESET LOGIC if version mismatch (forces Level 0 start)
-      if (storedVersion !== DATA_VERSION) {
-          console.log("New version detected or first run. Resetting progress to ensure correct flow.");
-          
-          // Clear old data
-          localStorage.removeItem('SIILVEER_PANIIC_UNLOCKS');
-          // We can optionally keep scores, but let's reset to be clean
-          // localStorage.removeItem('SIILVEER_PANIIC_SCORES'); 
+  // Your own levels are always playable
+  const getUnlocks = (pack: LevelPack) => pack.id === CUSTOM_PACK_ID
+      ? pack.levels.map(l => l.id)
+      : unlocks[pack.id] ?? [pack.levels[0].id];
 
-          // Set defaults
-          setUnlockedLevels([0]); // Only Level 0 is unlocked
-          
-          // Load or Mock Scores (preserving scores if we want, but versioning usually implies reset)
-          setHighScores(MOCK_SCORES);
-          
-          // Save new version
-          localStorage.setItem('SIILVEER_DATA_VERSION', DATA_VERSION);
-          localStorage.setItem('SIILVEER_PANIIC_UNLOCKS', JSON.stringify([0]));
-      } else {
-          // NORMAL LOAD
-          const storedScores = localStorage.getItem('SIILVEER_PANIIC_SCORES');
-          if (storedScores) {
-              setHighScores(JSON.parse(storedScores));
-          } else {
-              setHighScores(MOCK_SCORES);
-          }
+  const customPack = installedPacks.find(p => p.id === CUSTOM_PACK_ID);
 
-          const storedUnlocks = localStorage.getItem('SIILVEER_PANIIC_UNLOCKS');
-          if (storedUnlocks) {
-              const parsed = JSON.parse(storedUnlocks);
-              setUnlockedLevels(parsed);
-          } else {
-              setUnlockedLevels([0]);
-          }
-      }
-  }, []);
+  // Remote submissions go through the offline queue
+  useEffect(() => {
+      if (!remoteLeaderboard) return;
+      const queue = createSubmissionQueue(remoteLeaderboard, setSyncState);
+      submissionQueueRef.current = queue;
+      setSyncState(queue.getState());
+      queue.flush();
+      return () => {
+          queue.dispose();
+          submissionQueueRef.current = null;
+      };
+  }, [remoteLeaderboard]);
+
+  // Jingle for each achievement toast as it comes up
+  useEffect(() => {
+      if (achievementToasts.length > 0) jukeboxRef.current?.playAchievementSound();
+  }, [achievementToasts[0]?.id]);
 
   // Continue Timer Countdown
   useEffect(() => {
@@ -113,7 +255,7 @@ export default function App() {
   // Update banner text when language changes
   useEffect(() => {
       if (status === GameStatus.PLAYING) {
-         setBannerText(TRANSLATIONS[language].instructions);
+         setBannerText(t(language, 'instructions'));
       }
   }, [language, status]);
 
@@ -137,6 +279,7 @@ export default function App() {
     };
 
     const handleBlur = () => {
+      inputManager.releaseAll(); // Their key-ups will never arrive
       if (status === GameStatus.PLAYING) {
         setStatus(GameStatus.PAUSED);
       }
@@ -161,6 +304,10 @@ export default function App() {
     };
   }, [status]);
 
+  useEffect(() => {
+    inputManager.setKeepMoving(keepMoving);
+  }, [inputManager, keepMoving]);
+
   // Input Handling
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -168,47 +315,35 @@ export default function App() {
       
       // Allow typing in High Score Input
       if (status === GameStatus.NEW_HIGHSCORE) return;
+      // ...and in the editor's and profile screen's form fields
+      if ((status === GameStatus.EDITOR || status === GameStatus.PROFILES) && e.target instanceof Element && e.target.closest('input, select')) return;
+      // The settings screen captures keys for rebinding
+      if (status === GameStatus.SETTINGS) return;
+
+      const action = findAction(keyBindings, key);
 
       // Prevent scrolling on itch.io page
-      if (['arrowup', 'arrowdown', 'arrowleft', 'arrowright', ' ', 'space', 'w', 'a', 's', 'd'].includes(key)) {
+      if (action || key === ' ') {
           e.preventDefault();
       }
 
-      // Pause shortcut
-      if (key === 'p' || key === 'escape') {
+      // Pause shortcut (Escape always works, whatever the bindings)
+      if (action === 'PAUSE' || key === 'escape') {
           if (viewGalleryImage) {
              setViewGalleryImage(null);
+          } else if (key === 'escape' && BACK_TO_MENU.includes(status)) {
+             setStatus(GameStatus.MENU);
           } else {
              togglePause();
           }
           return;
       }
 
-      switch(key) {
-        case 'arrowup': 
-        case 'w':
-          setDirection({ x: 0, y: -1 }); 
-          break;
-        case 'arrowdown': 
-        case 's':
-          setDirection({ x: 0, y: 1 }); 
-          break;
-        case 'arrowleft': 
-        case 'a':
-          setDirection({ x: -1, y: 0 }); 
-          break;
-        case 'arrowright': 
-        case 'd':
-          setDirection({ x: 1, y: 0 }); 
-          break;
-      }
+      if (action) inputManager.press(key, MOVE_ACTIONS[action]);
     };
 
     const handleKeyUp = (e: KeyboardEvent) => {
-       const key = e.key.toLowerCase();
-       if (['arrowup', 'arrowdown', 'arrowleft', 'arrowright', 'w', 'a', 's', 'd'].includes(key)) {
-           setDirection({ x: 0, y: 0 });
-       }
+       inputManager.release(e.key.toLowerCase());
     };
 
     window.addEventListener('keydown', handleKeyDown);
@@ -221,7 +356,37 @@ export default function App() {
       window.removeEventListener('keydown', handleKeyDown);
       window.removeEventListener('keyup', handleKeyUp);
     };
-  }, [status, currentLevelIndex, togglePause, viewGalleryImage]); 
+  }, [status, currentLevelIndex, togglePause, viewGalleryImage, keyBindings]); 
+
+  // Gamepad: steers like the movement keys while playing (or play-testing in the editor),
+  // and moves between buttons everywhere else
+  const padSteering = status === GameStatus.PLAYING || (status === GameStatus.EDITOR && editorPlayTest);
+  const gamepadHandlers: GamepadHandlers = {
+      onDirection: (dir) => {
+          if (padSteering && (dir.x !== 0 || dir.y !== 0)) inputManager.press('pad', dir);
+          else inputManager.release('pad');
+      },
+      onNavigate: (dir) => {
+          if (!padSteering) moveFocus(dir);
+      },
+      onButton: (button) => {
+          if (button === 'B') goBack();
+          else if (button === 'START' && (status === GameStatus.PLAYING || status === GameStatus.PAUSED)) togglePause();
+          else if (!padSteering) activateFocus();
+      }
+  };
+  const gamepadHandlersRef = useRef(gamepadHandlers);
+  gamepadHandlersRef.current = gamepadHandlers;
+  const gamepadRef = useRef<GamepadInput | null>(null);
+
+  useEffect(() => {
+      const pad = createGamepadInput(() => gamepadHandlersRef.current);
+      gamepadRef.current = pad;
+      return () => {
+          pad.dispose();
+          gamepadRef.current = null;
+      };
+  }, []);
 
   // Banner rotation logic
   useEffect(() => {
@@ -231,7 +396,8 @@ export default function App() {
     
     const timeoutId = setTimeout(() => {
         const rotate = () => {
-             const randomPhrase = TEASING_PHRASES[Math.floor(Math.random() * TEASING_PHRASES.length)];
+             const phrases = getLocale(language).teasing;
+             const randomPhrase = phrases[Math.floor(Math.random() * phrases.length)];
              setBannerText(randomPhrase);
         };
         rotate();
@@ -242,38 +408,99 @@ export default function App() {
         clearTimeout(timeoutId);
         if (intervalId) clearInterval(intervalId);
     };
-  }, [status]);
+  }, [status, language]);
+
+  const showSilverReaction = (trigger: SilverTrigger, values?: TemplateValues) => {
+      const reaction = silverReactions.react(trigger, language, values);
+      if (!reaction) return; // Something more important is on screen
 
-  const triggerSilverMood = (mood: 'EXCITED' | 'SAD') => {
       if (moodTimeoutRef.current) clearTimeout(moodTimeoutRef.current);
-      setSilverMood(mood);
+      setSilverMood(reaction.mood);
       moodTimeoutRef.current = setTimeout(() => {
           setSilverMood('NEUTRAL');
-      }, 1500);
+      }, MOOD_MS);
+
+      if (reaction.line) {
+          if (bubbleTimeoutRef.current) clearTimeout(bubbleTimeoutRef.current);
+          setSilverLine(reaction.line);
+          bubbleTimeoutRef.current = setTimeout(() => setSilverLine(null), BUBBLE_MS);
+      }
   };
 
-  const startGame = (levelIndex: number, resetScore: boolean = true) => {
+  // Standing still for a while makes Silver nag (the reaction's cooldown spaces the lines)
+  useEffect(() => {
+    if (status !== GameStatus.PLAYING || direction.x !== 0 || direction.y !== 0) return;
+    const intervalId = setInterval(() => showSilverReaction('IDLE'), IDLE_REACTION_MS);
+    return () => clearInterval(intervalId);
+  }, [status, direction, language]);
+
+  // Area milestones: halfway, and closing in on the level's target
+  useEffect(() => {
+    if (status !== GameStatus.PLAYING) return;
+    const area = stats.areaRevealed;
+    const milestones = areaMilestonesRef.current;
+    if (!milestones.almostThere && area >= currentLevel.minRevealPercent - ALMOST_THERE_MARGIN) {
+        milestones.almostThere = milestones.halfway = true;
+        showSilverReaction('ALMOST_THERE', { area: Math.floor(area) });
+    } else if (!milestones.halfway && area >= 50) {
+        milestones.halfway = true;
+        showSilverReaction('HALFWAY', { area: Math.floor(area) });
+    }
+  }, [stats.areaRevealed, status]);
+
+  const startGame = (
+    levelIndex: number, resetScore: boolean = true, carriedScore: number = stats.score, pack: LevelPack = activePack
+  ) => {
     isGameActiveRef.current = true; // Activar el juego
+    setActivePack(pack);
     setCurrentLevelIndex(levelIndex);
     if (resetScore) {
         setStats({ areaRevealed: 0, timeElapsed: 0, score: 0 });
+        setLevelStartScore(0);
         setContinuesUsed(0);
+        setRunDetails({ levels: [], livesLost: 0, maxCombo: 0 });
+        setRunReplays([]);
     } else {
         // Reset only level specific stats, keep score
-        setStats(prev => ({ areaRevealed: 0, timeElapsed: 0, score: prev.score }));
+        setStats({ areaRevealed: 0, timeElapsed: 0, score: carriedScore });
+        setLevelStartScore(carriedScore);
     }
     setLives(3); 
-    setDirection({ x: 0, y: 0 });
+    updateLevelTelemetry(() => EMPTY_TELEMETRY);
+    setPlayerStats(prev => recordLevelStart(prev, pack.id, pack.levels[levelIndex].id));
+    setGhostReplay(ghostEnabled ? loadGhost(pack.levels[levelIndex]) : null);
+    setGhostDelta(null);
+    inputManager.releaseAll();
     setStatus(GameStatus.PLAYING);
     setCommentary('');
     setSilverMood('NEUTRAL');
-    setBannerText(TRANSLATIONS[language].instructions);
+    setSilverLine(null);
+    silverReactions.reset();
+    areaMilestonesRef.current = { halfway: false, almostThere: false };
+    setBannerText(t(language, 'instructions'));
   };
 
   // Called when player loses all lives
+  const recordLevelResult = (finalStats: GameStats, cleared: boolean) => {
+    setRunDetails(prev => ({
+        ...prev,
+        levels: [...prev.levels, { levelId: currentLevel.id, time: finalStats.timeElapsed, area: finalStats.areaRevealed, cleared }]
+    }));
+  };
+
+  const reportAchievement = (event: AchievementEvent) => {
+    const { records, unlocked } = applyAchievementEvent(achievementsRef.current, event);
+    if (records === achievementsRef.current) return;
+    achievementsRef.current = records;
+    updateProfile(p => ({ ...p, achievements: records }));
+    if (unlocked.length > 0) setAchievementToasts(prev => [...prev, ...unlocked]);
+  };
+
   const handlePlayerDeath = (finalStats: GameStats) => {
     if (!isGameActiveRef.current) return;
     setStats(finalStats);
+    recordLevelResult(finalStats, false);
+    setPlayerStats(prev => recordGameOver(prev, activePack.id, currentLevel.id, finalStats.timeElapsed));
     setSilverMood('DEFEATED');
     setContinueTimer(10);
     setStatus(GameStatus.CONTINUE_SCREEN);
@@ -282,75 +509,127 @@ export default function App() {
   const handleContinue = () => {
       isGameActiveRef.current = true;
       // Penalty: Lose 30% of score
-      const penalty = Math.floor(stats.score * 0.3);
-      setStats(prev => ({ ...prev, score: Math.max(0, prev.score - penalty) }));
+      const penalty = Math.floor(stats.score * CONTINUE_PENALTY);
       setContinuesUsed(prev => prev + 1);
+      setPlayerStats(recordContinue);
       
       // Restart current level
-      startGame(currentLevelIndex, false);
+      startGame(currentLevelIndex, false, Math.max(0, stats.score - penalty));
   };
 
   const handleGiveUp = async () => {
-    // True Game Over
-    // Check for High Score logic here
-    const lowestScore = highScores.length < 10 ? 0 : highScores[highScores.length - 1].score;
-    
-    // Only allow high score if score > 0 and better than lowest
-    if (stats.score > 0 && stats.score > lowestScore) {
+    // True Game Over: the run goes into the profile's history and personal bests
+    const run = { ...runDetails, score: stats.score, continuesUsed };
+    const runEntry = createRunEntry(profile.name, run, currentLevel.id);
+    updateProfile(p => {
+        const bests = p.bests[activePack.id] ?? [];
+        return {
+            ...p,
+            continueHistory: recordContinues(p.continueHistory, continuesUsed),
+            bests: qualifiesFor(bests, runEntry)
+                ? { ...p.bests, [activePack.id]: insertEntry(bests, runEntry) }
+                : p.bests
+        };
+    });
+
+    // Check for High Score logic here: score, best time and best area boards
+    const records = findRecords(run, currentLevel.id, highScores, levelBoardTables[activePack.id] ?? {});
+    if (records.length > 0) {
+        setPendingRecords(records);
         setStatus(GameStatus.NEW_HIGHSCORE);
-        setPlayerName('AAA'); 
+        setPlayerName(runEntry.playerName);
     } else {
         setStatus(GameStatus.GAME_OVER);
         setCommentary("...");
-        const text = await getGameCommentary('GAME_OVER', stats, LEVELS[currentLevelIndex].name, language);
+        const text = await commentaryProvider.getCommentary({
+            status: 'GAME_OVER',
+            stats,
+            levelName: currentLevel.name,
+            language,
+            telemetry: levelTelemetryRef.current,
+            continuesUsed
+        });
         setCommentary(text);
     }
   };
 
   const submitHighScore = () => {
-      const newEntry: ScoreEntry = {
-          playerName: playerName.toUpperCase().substring(0, 3),
-          score: stats.score,
-          level: LEVELS[currentLevelIndex].id,
-          date: new Date().toISOString().split('T')[0]
-      };
-
-      const updatedScores = [...highScores, newEntry]
-          .sort((a, b) => b.score - a.score)
-          .slice(0, 10);
-      
-      setHighScores(updatedScores);
-      localStorage.setItem('SIILVEER_PANIIC_SCORES', JSON.stringify(updatedScores));
+      const name = playerName.toUpperCase().substring(0, 3);
+      // Remote entries carry the run's inputs so the server can re-simulate them
+      const proof = createRunProof(runReplays[0]?.packId, runReplays);
+      let simulated: SimulatedRun | null = null;
+      let rejected = false;
+      // Editor levels only exist on this device
+      if (submissionQueueRef.current && activePack.id !== CUSTOM_PACK_ID) {
+          try {
+              simulated = simulateRun(proof, levels);
+          } catch {
+              rejected = true;
+          }
+      }
+      pendingRecords.forEach(record => {
+          const board = boardOf(activePack.id, record);
+          const entry = { ...record.entry, playerName: name };
+          localLeaderboard.submit(board, entry);
+          if (!submissionQueueRef.current || !simulated) return;
+          const proven = { ...entry, proof };
+          const verification = verifyEntryAgainstRun(proven, board, simulated);
+          if (verification.ok) {
+              submissionQueueRef.current.enqueue(board, proven);
+          } else {
+              rejected = true;
+          }
+      });
+      setPendingRecords([]);
+      setScoreRejected(rejected);
       
       setStatus(GameStatus.LEADERBOARD);
   };
 
-  const handleLevelComplete = async (finalStats: GameStats) => {
+  const handleLevelComplete = async (finalStats: GameStats, skipped = false) => {
     // SECURITY CHECK: If game is not active (e.g., user quit), IGNORE win condition
     if (!isGameActiveRef.current) return;
 
     setStatus(GameStatus.LEVEL_COMPLETE);
     setStats(finalStats);
+    if (!skipped) recordLevelResult(finalStats, true); // A skipped tutorial sets no time or area
+    reportAchievement({
+        type: 'LEVEL_COMPLETE',
+        packId: activePack.id,
+        levelId: currentLevel.id,
+        time: finalStats.timeElapsed,
+        area: finalStats.areaRevealed,
+        livesLost: levelTelemetryRef.current.livesLost,
+        skipped
+    });
+    const bestTime = playerStats.levels[activePack.id]?.[currentLevel.id]?.bestTime; // Before this clear counts
+    setPlayerStats(prev => recordLevelClear(prev, activePack.id, currentLevel.id, finalStats.timeElapsed, skipped));
     setSilverMood('EXCITED');
     setCommentary("...");
     
     // Unlock NEXT Level Logic
-    // currentLevelIndex correlates to LEVELS array index.
+    // currentLevelIndex correlates to the active pack's levels array index.
     // If we just finished Level 0 (Index 0), next is Level 1 (Index 1).
     const nextLevelIdx = currentLevelIndex + 1;
     
-    if (nextLevelIdx < LEVELS.length) {
-        const nextLevelId = LEVELS[nextLevelIdx].id;
+    if (nextLevelIdx < levels.length) {
+        const nextLevelId = levels[nextLevelIdx].id;
+        const unlockedLevels = getUnlocks(activePack);
         
         // Ensure we add the NEXT level ID to unlocks if not present
         if (!unlockedLevels.includes(nextLevelId)) {
             const newUnlocks = [...unlockedLevels, nextLevelId];
-            setUnlockedLevels(newUnlocks);
-            localStorage.setItem('SIILVEER_PANIIC_UNLOCKS', JSON.stringify(newUnlocks));
+            setUnlocks(prev => ({ ...prev, [activePack.id]: newUnlocks }));
         }
     }
 
-    const text = await getGameCommentary('WIN', finalStats, LEVELS[currentLevelIndex].name, language);
+    const text = await commentaryProvider.getCommentary({
+        status: 'WIN',
+        stats: finalStats,
+        levelName: currentLevel.name,
+        language,
+        ...(skipped ? {} : { telemetry: levelTelemetryRef.current, continuesUsed, bestTime })
+    });
     setCommentary(text);
   };
   
@@ -359,7 +638,7 @@ export default function App() {
       // Forzamos active para permitir el skip
       isGameActiveRef.current = true;
       const mockStats = { ...stats, areaRevealed: 100, timeElapsed: 0 };
-      handleLevelComplete(mockStats);
+      handleLevelComplete(mockStats, true);
   };
 
   // Función segura para salir al menú sin guardar progreso erróneo
@@ -372,31 +651,164 @@ export default function App() {
       setStatus(GameStatus.MENU);
   };
 
+  const startReplay = (replay: Replay) => {
+      const pack = [CORE_PACK, ...installedPacks].find(p => p.id === (replay.packId ?? CORE_PACK_ID));
+      if (!pack) {
+          window.alert(t(language, 'replay_missing_pack', { pack: replay.packId }));
+          return;
+      }
+      const levelIndex = pack.levels.findIndex(l => l.id === replay.levelId);
+      if (levelIndex < 0) {
+          window.alert(t(language, 'replay_missing_level', { level: replay.levelId }));
+          return;
+      }
+      isGameActiveRef.current = false; // Replays never touch progress
+      setActivePack(pack);
+      setCurrentLevelIndex(levelIndex);
+      setActiveReplay(replay);
+      setReplayPaused(false);
+      setReplaySpeed(1);
+      setReplayTick(0);
+      setReplaySeek(null);
+      setStats({ areaRevealed: 0, timeElapsed: 0, score: replay.initialScore });
+      setStatus(GameStatus.REPLAY);
+  };
+
+  const handleReplayFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = ''; // Allow loading the same file twice
+      if (!file) return;
+      try {
+          startReplay(parseReplay(await file.text()));
+      } catch (err) {
+          window.alert(t(language, 'replay_error', { message: (err as Error).message }));
+      }
+  };
+
+  const exitReplay = () => {
+      setActiveReplay(null);
+      setStats({ areaRevealed: 0, timeElapsed: 0, score: 0 });
+      setStatus(GameStatus.MENU);
+  };
+
+  const installPack = (pack: LevelPack) => {
+      const packs = [...installedPacks.filter(p => p.id !== pack.id), pack];
+      try {
+          saveInstalledPacks(packs);
+      } catch {
+          // Storage full (e.g. big data: images): the pack still works until reload
+          window.alert(t(language, 'pack_too_big', { name: pack.name }));
+      }
+      setInstalledPacks(packs);
+  };
+
+  const handlePackFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = ''; // Allow loading the same file twice
+      if (!file) return;
+      try {
+          installPack(await loadLevelPackFromFile(file));
+      } catch (err) {
+          window.alert(t(language, 'pack_error', { message: (err as Error).message }));
+      }
+  };
+
+  const handlePackPath = async () => {
+      const path = window.prompt(t(language, 'pack_path_prompt'));
+      if (!path) return;
+      try {
+          installPack(await loadLevelPackFromPath(path.trim()));
+      } catch (err) {
+          window.alert(t(language, 'pack_error', { message: (err as Error).message }));
+      }
+  };
+
+  const removePack = (pack: LevelPack) => {
+      if (!window.confirm(t(language, 'pack_remove_confirm', { name: pack.name }))) return;
+      const packs = installedPacks.filter(p => p.id !== pack.id);
+      saveInstalledPacks(packs);
+      setInstalledPacks(packs);
+  };
+
+  // Levels saved from the editor go into the local "My Levels" pack, replacing one with the same name
+  const saveEditorLevel = (level: LevelConfig) => {
+      const existing = customPack?.levels ?? [];
+      const others = existing.filter(l => l.name !== level.name);
+      const index = existing.findIndex(l => l.name === level.name);
+      const ordered = index < 0 ? [...others, level] : [...others.slice(0, index), level, ...others.slice(index)];
+      installPack({
+          id: CUSTOM_PACK_ID,
+          name: 'My Levels',
+          levels: ordered.map((l, i) => ({ ...l, id: i + 1, packId: CUSTOM_PACK_ID }))
+      });
+  };
+
+  const showScores = (pack: LevelPack) => {
+      setActivePack(pack);
+      setCurrentLevelIndex(0); // Keep the level index valid for the new pack
+      setStatus(GameStatus.LEADERBOARD);
+  };
+
   const nextLevel = () => {
-    if (currentLevelIndex + 1 < LEVELS.length) {
+    if (currentLevelIndex + 1 < levels.length) {
       startGame(currentLevelIndex + 1, false); // false = keep score
     } else {
       // Beat the game!
+      reportAchievement({ type: 'GAME_COMPLETE', packId: activePack.id, continuesUsed });
       handleGiveUp(); // Trigger High Score check since game is done
     }
   };
 
   const handleLivesChange = (newLives: number) => {
       if (newLives < lives) {
-          triggerSilverMood('SAD');
+          showSilverReaction(newLives === 1 ? 'LOW_LIVES' : 'DAMAGE', { lives: newLives });
           jukeboxRef.current?.playDamageSound();
       }
       setLives(newLives);
   };
 
-  const handleAreaCapture = () => {
-      triggerSilverMood('EXCITED');
+  const handleAreaCapture = (_combo: number, area: number) => {
+      showSilverReaction(area >= BIG_CAPTURE_AREA ? 'BIG_CAPTURE' : 'CAPTURE', { area: Math.floor(area) });
       jukeboxRef.current?.playCaptureSound();
   };
 
-  const handleItemCollect = () => {
-      jukeboxRef.current?.playItemSound();
-      triggerSilverMood('EXCITED');
+  // Live runs also feed the leaderboard details (replays only play the effects)
+  const handleRunCapture = (combo: number, area: number, tiles: number) => {
+      setRunDetails(prev => ({ ...prev, maxCombo: Math.max(prev.maxCombo, combo) }));
+      updateLevelTelemetry(prev => ({
+          ...prev,
+          largestCapture: Math.max(prev.largestCapture, area),
+          comboPeak: Math.max(prev.comboPeak, combo)
+      }));
+      setPlayerStats(prev => recordCapture(prev, tiles, area));
+      reportAchievement({ type: 'CAPTURE', combo, area });
+      gamepadRef.current?.rumble('CAPTURE');
+      handleAreaCapture(combo, area);
+  };
+
+  // One per hit that cost a life (tutorial hits cost none), like the score verifier counts them
+  const handleRunDamage = (source: Enemy['type'], lifeLost: boolean) => {
+      if (lifeLost) {
+          setRunDetails(prev => ({ ...prev, livesLost: prev.livesLost + 1 }));
+          updateLevelTelemetry(prev => ({ ...prev, livesLost: prev.livesLost + 1 }));
+          setPlayerStats(prev => recordDamage(prev, activePack.id, currentLevel.id, source));
+      }
+      gamepadRef.current?.rumble('DAMAGE');
+  };
+
+  const handleRunNearMiss = () => {
+      updateLevelTelemetry(prev => ({ ...prev, nearMisses: prev.nearMisses + 1 }));
+      showSilverReaction('NEAR_MISS');
+  };
+
+  const handleRunItemCollect = (type: ItemType) => {
+      reportAchievement({ type: 'ITEM' });
+      handleItemCollect(type);
+  };
+
+  const handleItemCollect = (type: ItemType) => {
+      jukeboxRef.current?.playItemSound(type);
+      showSilverReaction('ITEM');
   };
 
   const handleProximityUpdate = (intensity: number) => {
@@ -405,21 +817,68 @@ export default function App() {
 
   const resetProgress = () => {
      // Use a standard confirm dialog
-     const confirmed = window.confirm("¡ATENCIÓN! \n\n¿Estás seguro de que quieres BORRAR todo tu progreso y puntuaciones? \n\nEsta acción no se puede deshacer y la página se recargará.");
+     const confirmed = window.confirm(t(language, 'reset_confirm'));
      
      if (confirmed) {
-        // Clear specific keys
-        localStorage.removeItem('SIILVEER_PANIIC_UNLOCKS');
-        localStorage.removeItem('SIILVEER_PANIIC_SCORES');
-        localStorage.removeItem('SIILVEER_DATA_VERSION'); // Clear version to force re-init
+        clearSaveData();
         
         // Force reload to clean slate
         window.location.reload();
      }
   };
 
+  const selectProfile = (id: string) => {
+      setActiveProfileId(id);
+      setActivePack(CORE_PACK);
+      setCurrentLevelIndex(0);
+      setStatus(GameStatus.MENU);
+  };
+
+  const addProfile = (name: string) => {
+      const created = createProfile(name, language);
+      setProfiles(prev => [...prev, created]);
+      selectProfile(created.id);
+  };
+
+  const deleteProfile = (id: string) => {
+      if (profiles.length <= 1) return;
+      const target = profiles.find(p => p.id === id);
+      if (!target || !window.confirm(t(language, 'profile_delete_confirm', { name: target.name }))) return;
+      const remaining = profiles.filter(p => p.id !== id);
+      setProfiles(remaining);
+      if (id === profile.id) setActiveProfileId(remaining[0].id);
+  };
+
+  const handleImportProfile = async (file: File) => {
+      try {
+          const imported = parseProfile(await file.text());
+          applySave(mergeSaveData(currentSave(), imported));
+          window.alert(t(language, 'profile_imported'));
+      } catch (err) {
+          window.alert(t(language, 'profile_error', { message: (err as Error).message }));
+      }
+  };
+
+  const handleRunRecorded = (replay: Replay) => {
+      setLastReplay(replay);
+      setRunReplays(prev => [...prev, replay]);
+      saveGhostIfBest(replay);
+  };
+
+  const toggleGhost = () => {
+      const next = !ghostEnabled;
+      setGhostEnabled(next);
+  };
+
+  const cycleQuality = () => {
+      const order: EffectsQuality[] = ['HIGH', 'MEDIUM', 'LOW'];
+      const next = order[(order.indexOf(quality) + 1) % order.length];
+      setQuality(next);
+  };
+
   // Calculate highest unlocked level for Resume feature
   // With Level 0 starting at index 0, we simply take the max ID
+  const unlockedLevels = getUnlocks(CORE_PACK);
   const maxUnlockedLevel = Math.max(...unlockedLevels, 0);
 
   // Helper component for the Arcade Logo
@@ -442,7 +901,16 @@ export default function App() {
       <RetroJukebox 
         ref={jukeboxRef}
         levelIndex={currentLevelIndex} 
+        musicTrack={currentLevel.musicTrack}
         gameStatus={status}
+        volume={volume}
+        language={language}
+      />
+
+      <AchievementToast
+        achievement={achievementToasts[0]}
+        language={language}
+        onDone={() => setAchievementToasts(prev => prev.slice(1))}
       />
 
       {/* Dynamic Banner */}
@@ -472,21 +940,22 @@ export default function App() {
                  <ImageOff size={24} className="text-slate-500"/>
               </div>
           </div>
+          <SilverBubble text={silverLine} />
 
           <div className="flex items-center gap-2 mt-8 md:mt-0 text-center md:text-left">
-            <span className="text-rose-400 font-bold whitespace-nowrap">{TRANSLATIONS[language].level} {LEVELS[currentLevelIndex].id}</span>
+            <span className="text-rose-400 font-bold whitespace-nowrap">{t(language, 'level')} {currentLevel.id}</span>
             <span className="text-slate-400 hidden sm:inline">|</span>
-            <span className="truncate max-w-[150px] sm:max-w-none">{LEVELS[currentLevelIndex].name}</span>
+            <span className="truncate max-w-[150px] sm:max-w-none">{currentLevel.name}</span>
           </div>
           
           <div className="flex flex-wrap justify-center items-center gap-4 sm:gap-6 mt-2 md:mt-0 md:mr-24 w-full md:w-auto">
              <div className="flex items-center gap-1">
-                {LEVELS[currentLevelIndex].id === 0 ? (
+                {currentLevel.id === 0 ? (
                     <span className="text-green-400 font-bold text-xs tracking-widest animate-pulse border border-green-500/50 px-2 py-0.5 rounded bg-green-900/20">
-                        INF LIVES
+                        {t(language, 'infinite_lives')}
                     </span>
                 ) : (
-                    [...Array(3)].map((_, i) => (
+                    [...Array(Math.max(3, lives))].map((_, i) => (
                         <Heart 
                             key={i} 
                             size={20} 
@@ -499,25 +968,34 @@ export default function App() {
              <div className="h-6 w-px bg-slate-600 mx-1 sm:mx-2"></div>
 
              <div className="flex flex-col items-center min-w-[50px]">
-                <span className="text-[10px] sm:text-xs text-slate-400">{TRANSLATIONS[language].area}</span>
-                <span className={`font-mono text-base sm:text-lg ${stats.areaRevealed > LEVELS[currentLevelIndex].minRevealPercent ? "text-green-400" : "text-white"}`}>
+                <span className="text-[10px] sm:text-xs text-slate-400">{t(language, 'area')}</span>
+                <span className={`font-mono text-base sm:text-lg ${stats.areaRevealed > currentLevel.minRevealPercent ? "text-green-400" : "text-white"}`}>
                   {stats.areaRevealed.toFixed(1)}%
                 </span>
              </div>
              
+             {ghostDelta !== null && (
+                <div className="flex flex-col items-center min-w-[50px]">
+                   <span className="text-[10px] sm:text-xs text-slate-400">{t(language, 'ghost')}</span>
+                   <span className={`font-mono text-base sm:text-lg ${ghostDelta >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                     {ghostDelta >= 0 ? '+' : ''}{ghostDelta.toFixed(1)}%
+                   </span>
+                </div>
+             )}
+
              <div className="flex flex-col items-center min-w-[50px]">
-                <span className="text-[10px] sm:text-xs text-slate-400">{TRANSLATIONS[language].score}</span>
+                <span className="text-[10px] sm:text-xs text-slate-400">{t(language, 'score')}</span>
                 <span className="font-mono text-base sm:text-lg text-yellow-400">
-                    {LEVELS[currentLevelIndex].id === 0 ? "---" : stats.score}
+                    {currentLevel.id === 0 ? "---" : formatNumber(language, stats.score)}
                 </span>
              </div>
 
              {/* Skip Simulation Button (Only Level 0) */}
-             {LEVELS[currentLevelIndex].id === 0 && (
+             {currentLevel.id === 0 && (
                  <button
                     onClick={handleSkipSimulation}
                     className="ml-2 p-2 bg-green-900/40 hover:bg-green-600/60 rounded-full transition-colors text-green-400 hover:text-white border border-green-500/30"
-                    title="Skip Simulation"
+                    title={t(language, 'skip_simulation')}
                  >
                      <FastForward size={24} />
                  </button>
@@ -526,7 +1004,7 @@ export default function App() {
              <button 
                 onClick={togglePause}
                 className="ml-2 p-2 hover:bg-slate-700 rounded-full transition-colors text-slate-300 hover:text-white"
-                aria-label={status === GameStatus.PAUSED ? "Resume" : "Pause"}
+                aria-label={t(language, status === GameStatus.PAUSED ? 'resume' : 'pause')}
              >
                  {status === GameStatus.PAUSED ? <PlayCircle size={24} /> : <Pause size={24} />}
              </button>
@@ -547,7 +1025,7 @@ export default function App() {
                
                {/* Language Selector in Menu */}
                <div className="absolute top-0 right-0 p-2 flex gap-2">
-                 {(['ES', 'EN', 'FR'] as Language[]).map((lang) => (
+                 {LANGUAGES.map((lang) => (
                    <button 
                      key={lang}
                      onClick={() => setLanguage(lang)}
@@ -556,12 +1034,26 @@ export default function App() {
                      {lang}
                    </button>
                  ))}
+                 <button
+                   onClick={cycleQuality}
+                   className="px-3 py-1 font-bold text-xs rounded border-2 bg-slate-800 text-cyan-300 border-slate-600 hover:border-slate-400"
+                   title={t(language, 'menu_quality')}
+                 >
+                   FX: {quality}
+                 </button>
+                 <button
+                   onClick={toggleGhost}
+                   className={`px-3 py-1 font-bold text-xs rounded border-2 ${ghostEnabled ? 'bg-slate-200 text-black border-slate-200' : 'bg-slate-800 text-slate-400 border-slate-600 hover:border-slate-400'}`}
+                   title={t(language, 'menu_ghost_hint')}
+                 >
+                   {t(language, 'menu_ghost', { state: t(language, ghostEnabled ? 'on' : 'off') })}
+                 </button>
                </div>
 
                {/* "Interactive" Character Display */}
                <div className="hidden md:block relative w-48 h-48 border-4 border-yellow-400 bg-slate-800 rotate-3 shadow-[8px_8px_0px_#000]">
                   <div className="absolute -top-3 -left-3 bg-red-600 text-white font-bold px-2 py-0.5 text-xs font-arcade animate-pulse z-20">
-                    NEW!
+                    {t(language, 'menu_new')}
                   </div>
                   <img 
                     src={SILVER_AVATAR.NEUTRAL} 
@@ -583,34 +1075,34 @@ export default function App() {
                 {/* Only show Continue if we have passed Level 0 (so index is > 0) */}
                 {maxUnlockedLevel > 0 && (
                     <button 
-                        onClick={() => startGame(maxUnlockedLevel)} 
+                        onClick={() => startGame(maxUnlockedLevel, true, 0, CORE_PACK)} 
                         className="relative group px-12 py-6 bg-green-600 hover:bg-green-500 border-b-8 border-green-800 active:border-b-0 active:translate-y-2 rounded-xl transition-all shadow-[0_0_30px_rgba(34,197,94,0.6)] animate-bounce"
                     >
                         <div className="flex items-center gap-4 text-2xl md:text-3xl font-black italic text-white font-arcade uppercase tracking-widest">
                                 <PlayCircle size={40} className="animate-pulse" />
-                                CONTINUE LVL {maxUnlockedLevel}
+                                {t(language, 'menu_continue', { level: maxUnlockedLevel })}
                         </div>
                         <div className="absolute inset-0 rounded-xl border-4 border-white opacity-0 group-hover:opacity-100 animate-pulse transition-opacity pointer-events-none"></div>
                     </button>
                 )}
 
                 <button 
-                    onClick={() => startGame(0)} 
+                    onClick={() => startGame(0, true, 0, CORE_PACK)} 
                     className={`relative group px-8 py-4 ${maxUnlockedLevel > 0 ? 'bg-slate-700 hover:bg-slate-600 border-slate-900 text-sm' : 'bg-red-600 hover:bg-red-500 border-red-800 text-3xl animate-bounce'} border-b-8 active:border-b-0 active:translate-y-2 rounded-xl transition-all shadow-xl`}
                 >
                     <div className="flex items-center gap-3 font-black italic text-white font-arcade uppercase tracking-widest justify-center">
                             <Gamepad2 size={maxUnlockedLevel > 0 ? 24 : 40} />
-                            {maxUnlockedLevel > 0 ? "RESTART (LVL 0)" : "START MISSION"}
+                            {t(language, maxUnlockedLevel > 0 ? 'menu_restart' : 'menu_start_mission')}
                     </div>
                 </button>
             </div>
             
             {/* Gallery Grid (VIEW ONLY) */}
             <div className="bg-slate-800/80 w-full max-w-4xl p-2 rounded-t-lg mb-2 text-center text-slate-400 text-xs font-arcade uppercase tracking-widest">
-                 UNLOCKED GALLERY
+                 {t(language, 'menu_gallery')}
             </div>
             <div className="grid grid-cols-3 md:grid-cols-6 gap-2 md:gap-4 max-w-4xl mx-auto w-full px-4 shrink-0 pb-8">
-              {LEVELS.filter(l => l.id > 0).map((level, idx) => {
+              {CORE_PACK.levels.filter(l => l.id > 0).map((level, idx) => {
                 const isUnlocked = unlockedLevels.includes(level.id);
                 return (
                 <div
@@ -637,30 +1129,151 @@ export default function App() {
                   )}
 
                   <div className="absolute bottom-0 w-full bg-black/60 text-[8px] sm:text-[10px] text-white text-center py-1 truncate px-1">
-                      {isUnlocked ? level.name : 'LOCKED'}
+                      {isUnlocked ? level.name : t(language, 'menu_locked')}
                   </div>
                 </div>
               )})}
             </div>
 
+            {/* Level Packs (PLAYABLE: click an unlocked level to start it) */}
+            {installedPacks.map(pack => {
+              const packUnlocks = getUnlocks(pack);
+              return (
+              <React.Fragment key={pack.id}>
+                <div className="bg-slate-800/80 w-full max-w-4xl p-2 rounded-t-lg mb-2 flex items-center justify-between gap-2 text-slate-400 text-xs font-arcade uppercase tracking-widest">
+                    <span className="flex items-center gap-2 truncate">
+                        <Package size={14} className="text-pink-400" /> {pack.name}
+                        {pack.author && <span className="text-[10px] text-slate-500 normal-case font-sans">{t(language, 'pack_by', { author: pack.author })}</span>}
+                    </span>
+                    <span className="flex gap-2 shrink-0">
+                        <button onClick={() => showScores(pack)} className="text-cyan-400 hover:text-white" title={t(language, 'pack_scores')}>
+                            <Trophy size={14} />
+                        </button>
+                        <button onClick={() => removePack(pack)} className="text-red-500 hover:text-red-400" title={t(language, 'pack_remove')}>
+                            <Trash2 size={14} />
+                        </button>
+                    </span>
+                </div>
+                <div className="grid grid-cols-3 md:grid-cols-6 gap-2 md:gap-4 max-w-4xl mx-auto w-full px-4 shrink-0 pb-8">
+                  {pack.levels.map((level, idx) => {
+                    const isUnlocked = packUnlocks.includes(level.id);
+                    return (
+                    <div
+                      key={level.id}
+                      onClick={() => {
+                          if (isUnlocked) startGame(idx, true, 0, pack);
+                      }}
+                      className={`group relative bg-slate-800 border-2 border-slate-600 overflow-hidden aspect-square rounded cursor-pointer transition-all ${isUnlocked ? 'hover:border-pink-400 hover:scale-105' : 'opacity-50 cursor-not-allowed'}`}
+                    >
+                      <img 
+                        src={level.imageUrl} 
+                        className={`w-full h-full object-cover transition-all duration-500 ${isUnlocked ? 'grayscale-0' : 'blur-md grayscale opacity-50'}`} 
+                        alt={level.name}
+                        onError={(e) => {
+                            e.currentTarget.onerror = null;
+                            e.currentTarget.src = FALLBACK_SCENERY;
+                        }}
+                      />
+
+                      {isUnlocked && (
+                          <div className="absolute top-1 right-1 bg-pink-500 text-white rounded-full p-0.5 shadow">
+                              <Play size={10} />
+                          </div>
+                      )}
+
+                      <div className="absolute bottom-0 w-full bg-black/60 text-[8px] sm:text-[10px] text-white text-center py-1 truncate px-1">
+                          {isUnlocked ? `${level.id}. ${level.name}` : t(language, 'menu_locked')}
+                      </div>
+                    </div>
+                  )})}
+                </div>
+              </React.Fragment>
+            )})}
+
+            {/* Load Level Packs */}
+            <div className="flex gap-2 mb-8 z-20">
+               <button
+                  onClick={() => packInputRef.current?.click()}
+                  className="flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 text-pink-300 border border-slate-700 rounded-full transition-all text-xs"
+               >
+                  <Package size={14} /> {t(language, 'menu_load_pack')}
+               </button>
+               <button
+                  onClick={handlePackPath}
+                  className="flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 text-pink-300 border border-slate-700 rounded-full transition-all text-xs"
+               >
+                  <FolderOpen size={14} /> {t(language, 'menu_pack_path')}
+               </button>
+               <input ref={packInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handlePackFile} />
+               <button
+                  onClick={() => setStatus(GameStatus.EDITOR)}
+                  className="flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 text-yellow-300 border border-slate-700 rounded-full transition-all text-xs"
+               >
+                  <PenTool size={14} /> {t(language, 'menu_editor')}
+               </button>
+            </div>
+
             {/* Footer Credits and Controls */}
             <div className="mt-auto mb-4 text-center shrink-0 flex flex-col items-center gap-4">
-               <button onClick={() => setStatus(GameStatus.LEADERBOARD)} className="font-arcade text-xs md:text-sm text-cyan-400 hover:text-white hover:underline animate-pulse">
-                 [ {TRANSLATIONS[language].menu_scores} ]
+               <button onClick={() => showScores(CORE_PACK)} className="font-arcade text-xs md:text-sm text-cyan-400 hover:text-white hover:underline animate-pulse">
+                 [ {t(language, 'menu_scores')} ]
                </button>
+
+               {/* REPLAYS */}
+               <div className="flex gap-2">
+                  {lastReplay && (
+                      <button
+                         onClick={() => startReplay(lastReplay)}
+                         className="flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 text-pink-300 border border-slate-700 rounded-full transition-all text-xs"
+                      >
+                         <Film size={14} /> {t(language, 'menu_watch_last')}
+                      </button>
+                  )}
+                  <button
+                     onClick={() => replayInputRef.current?.click()}
+                     className="flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 text-pink-300 border border-slate-700 rounded-full transition-all text-xs"
+                  >
+                     <Upload size={14} /> {t(language, 'menu_load_replay')}
+                  </button>
+                  <input ref={replayInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleReplayFile} />
+               </div>
                
-               {/* RESET PROGRESS BUTTON */}
+               {/* PROFILES */}
+               <button
+                  onClick={() => setStatus(GameStatus.PROFILES)}
+                  className="flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 text-yellow-300 border border-slate-700 rounded-full transition-all text-xs font-arcade"
+                  title={t(language, 'menu_switch_profile')}
+               >
+                  <User size={14} /> {profile.name}
+               </button>
+
+               {/* ACHIEVEMENTS & LIFETIME STATS */}
+               <div className="flex gap-2">
+                  <button
+                     onClick={() => setStatus(GameStatus.ACHIEVEMENTS)}
+                     className="flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 text-yellow-300 border border-slate-700 rounded-full transition-all text-xs"
+                  >
+                     <Award size={14} /> {t(language, 'menu_achievements')}
+                  </button>
+                  <button
+                     onClick={() => setStatus(GameStatus.STATS)}
+                     className="flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 text-cyan-300 border border-slate-700 rounded-full transition-all text-xs"
+                  >
+                     <BarChart3 size={14} /> {t(language, 'menu_stats')}
+                  </button>
+               </div>
+
+               {/* SETTINGS (profile export / import, reset progress) */}
                <button 
-                  onClick={resetProgress}
-                  className="flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-red-900/30 text-red-500 hover:text-red-400 border border-slate-700 hover:border-red-800 rounded-full transition-all text-xs z-50 cursor-pointer"
-                  title="Borrar progreso y recargar"
+                  onClick={() => setStatus(GameStatus.SETTINGS)}
+                  className="flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 border border-slate-700 rounded-full transition-all text-xs z-50 cursor-pointer"
                >
-                  <Trash2 size={14} /> BORRAR DATOS
+                  <Settings size={14} /> {t(language, 'menu_settings')}
                </button>
 
                <div className="text-[10px] text-slate-500 font-mono uppercase">
-                 © 2025 SIILVEER GAMES. {TRANSLATIONS[language].menu_credits}.<br/>
-                 MADE WITH REACT & GEMINI.
+                 © 2025 SIILVEER GAMES. {t(language, 'menu_credits')}.<br/>
+                 {t(language, 'menu_made_with')}
                </div>
             </div>
           </div>
@@ -685,42 +1298,121 @@ export default function App() {
                     <X size={32} />
                 </button>
                 <div className="absolute bottom-8 text-white font-arcade text-sm bg-black/50 px-4 py-2 rounded-full border border-white/20">
-                    CLICK TO CLOSE
+                    {t(language, 'click_to_close')}
                 </div>
              </div>
         )}
 
+        {/* PROFILES */}
+        {status === GameStatus.PROFILES && (
+          <ProfileScreen
+             profiles={profiles}
+             activeProfileId={profile.id}
+             language={language}
+             onSelect={selectProfile}
+             onCreate={addProfile}
+             onDelete={deleteProfile}
+             onBack={() => setStatus(GameStatus.MENU)}
+          />
+        )}
+
+        {/* ACHIEVEMENTS */}
+        {status === GameStatus.ACHIEVEMENTS && (
+          <AchievementsScreen
+             profileName={profile.name}
+             records={profile.achievements}
+             language={language}
+             onBack={() => setStatus(GameStatus.MENU)}
+          />
+        )}
+
+        {/* LIFETIME STATS */}
+        {status === GameStatus.STATS && (
+          <StatsScreen
+             profileName={profile.name}
+             stats={playerStats}
+             pack={CORE_PACK}
+             language={language}
+             onBack={() => setStatus(GameStatus.MENU)}
+          />
+        )}
+
+        {/* SETTINGS */}
+        {status === GameStatus.SETTINGS && (
+          <SettingsScreen
+             profileName={profile.name}
+             stats={playerStats}
+             language={language}
+             onLanguageChange={setLanguage}
+             volume={volume}
+             onVolumeChange={setVolume}
+             reducedEffects={reducedEffects}
+             onReducedEffectsChange={setReducedEffects}
+             touchLayout={touchLayout}
+             onTouchLayoutChange={setTouchLayout}
+             keepMoving={keepMoving}
+             onKeepMovingChange={setKeepMoving}
+             keyBindings={keyBindings}
+             onKeyBindingsChange={setKeyBindings}
+             onExportProfile={() => downloadProfile(currentSave())}
+             onImportProfile={handleImportProfile}
+             onResetProgress={resetProgress}
+             onBack={() => setStatus(GameStatus.MENU)}
+          />
+        )}
+
+        {/* LEVEL EDITOR */}
+        {status === GameStatus.EDITOR && (
+          <LevelEditor
+             inputManager={inputManager}
+             language={language}
+             quality={quality}
+             savedLevels={customPack?.levels ?? []}
+             onSave={saveEditorLevel}
+             onExit={() => setStatus(GameStatus.MENU)}
+             onPlayTestChange={setEditorPlayTest}
+          />
+        )}
+
         {/* GAME CANVAS */}
         {(status === GameStatus.PLAYING || status === GameStatus.PAUSED) && (
           <div className="relative w-full flex-1 flex items-center justify-center min-h-0">
              <GameCanvas 
-                level={LEVELS[currentLevelIndex]}
+                level={currentLevel}
+                initialScore={levelStartScore}
                 onGameOver={handlePlayerDeath}
                 onLevelComplete={handleLevelComplete}
                 onStatsUpdate={(s) => setStats(s)}
-                direction={direction}
+                inputManager={inputManager}
                 onLivesChange={handleLivesChange}
-                onAreaCapture={handleAreaCapture}
-                onItemCollect={handleItemCollect}
+                onAreaCapture={handleRunCapture}
+                onDamage={handleRunDamage}
+                onNearMiss={handleRunNearMiss}
+                onItemCollect={handleRunItemCollect}
                 onProximityUpdate={handleProximityUpdate}
                 isPaused={status === GameStatus.PAUSED}
                 language={language}
+                quality={quality}
+                reducedEffects={reducedEffects}
+                onRunRecorded={handleRunRecorded}
+                ghost={ghostReplay}
+                onGhostUpdate={setGhostDelta}
             />
             {/* PAUSE OVERLAY */}
             {status === GameStatus.PAUSED && (
                 <div className="absolute inset-0 z-30 flex flex-col items-center justify-center pointer-events-none">
                     <div className="bg-black/70 backdrop-blur-sm p-8 rounded-xl border border-slate-600 shadow-2xl animate-scale-up text-center pointer-events-auto">
-                        <h2 className="text-4xl font-black text-white mb-2 tracking-widest">{TRANSLATIONS[language].pause_title}</h2>
-                        <p className="text-slate-400 mb-6">{TRANSLATIONS[language].pause_subtitle}</p>
+                        <h2 className="text-4xl font-black text-white mb-2 tracking-widest">{t(language, 'pause_title')}</h2>
+                        <p className="text-slate-400 mb-6">{t(language, 'pause_subtitle')}</p>
                         
                         <div className="flex flex-col gap-3">
                             {/* Skip Simulation in Pause Menu too (Only Level 0) */}
-                            {LEVELS[currentLevelIndex].id === 0 && (
+                            {currentLevel.id === 0 && (
                                 <button 
                                     onClick={handleSkipSimulation}
                                     className="px-6 py-3 bg-green-800/80 hover:bg-green-600 rounded-full font-bold flex items-center justify-center gap-2 text-green-200 transition-colors border border-green-500/50 mb-2"
                                 >
-                                    <FastForward size={20} /> SKIP SIMULATION
+                                    <FastForward size={20} /> {t(language, 'skip_simulation')}
                                 </button>
                             )}
 
@@ -728,13 +1420,13 @@ export default function App() {
                                 onClick={togglePause}
                                 className="px-6 py-3 bg-green-600 hover:bg-green-500 rounded-full font-bold flex items-center justify-center gap-2 transition-transform hover:scale-105"
                             >
-                                <Play size={20} fill="white" /> {TRANSLATIONS[language].resume}
+                                <Play size={20} fill="white" /> {t(language, 'resume')}
                             </button>
                             <button 
                                 onClick={handleQuitToMenu}
                                 className="px-6 py-3 bg-slate-700 hover:bg-slate-600 rounded-full font-bold flex items-center justify-center gap-2 text-slate-200 transition-colors"
                             >
-                                {TRANSLATIONS[language].quit}
+                                {t(language, 'quit')}
                             </button>
                         </div>
                     </div>
@@ -743,6 +1435,44 @@ export default function App() {
           </div>
         )}
 
+        {/* REPLAY PLAYBACK */}
+        {status === GameStatus.REPLAY && activeReplay && (
+          <div className="relative w-full flex-1 flex flex-col items-center justify-center min-h-0">
+             <GameCanvas
+                level={currentLevel}
+                initialScore={activeReplay.initialScore}
+                onGameOver={() => setReplayPaused(true)}
+                onLevelComplete={() => setReplayPaused(true)}
+                onStatsUpdate={(s) => setStats(s)}
+                onLivesChange={handleLivesChange}
+                onAreaCapture={handleAreaCapture}
+                onItemCollect={handleItemCollect}
+                onProximityUpdate={handleProximityUpdate}
+                isPaused={replayPaused}
+                language={language}
+                quality={quality}
+                reducedEffects={reducedEffects}
+                replay={activeReplay}
+                playbackSpeed={replaySpeed}
+                seekTo={replaySeek}
+                onReplayProgress={(tick) => setReplayTick(tick)}
+             />
+             <ReplayControls
+                tick={replayTick}
+                totalTicks={activeReplay.totalTicks}
+                isPaused={replayPaused}
+                speed={replaySpeed}
+                stats={stats}
+                language={language}
+                onTogglePause={() => setReplayPaused(p => !p)}
+                onSeek={(tick) => setReplaySeek({ tick })}
+                onSpeedChange={setReplaySpeed}
+                onDownload={() => downloadReplay(activeReplay)}
+                onExit={exitReplay}
+             />
+          </div>
+        )}
+
         {/* WIN SCREEN */}
         {status === GameStatus.LEVEL_COMPLETE && (
             <div className="relative w-full max-w-4xl animate-scale-up z-10 px-2">
@@ -750,13 +1480,13 @@ export default function App() {
                     <div className="absolute inset-0 bg-gradient-to-r from-pink-500 via-red-500 to-yellow-500 blur-lg opacity-75"></div>
                     
                     {/* Click to view fullscreen - BUT NOT FOR LEVEL 0 (Tutorial) */}
-                    {LEVELS[currentLevelIndex].id !== 0 ? (
+                    {currentLevel.id !== 0 ? (
                         <div 
                             className="relative z-10 block w-full bg-black rounded-lg shadow-2xl mx-auto overflow-hidden cursor-zoom-in group"
                             onClick={() => setStatus(GameStatus.VIEW_IMAGE)}
                         >
                             <img 
-                                src={LEVELS[currentLevelIndex].imageUrl} 
+                                src={currentLevel.imageUrl} 
                                 className="w-full h-auto max-h-[70vh] object-contain transition-transform duration-500 group-hover:scale-105"
                                 alt="Level Complete Reward"
                                 onError={(e) => {
@@ -766,7 +1496,7 @@ export default function App() {
                             />
                             <div className="absolute inset-0 flex items-center justify-center bg-black/30 opacity-0 group-hover:opacity-100 transition-opacity">
                                 <span className="text-white font-bold flex items-center gap-2 bg-black/50 px-4 py-2 rounded-full backdrop-blur-sm border border-white/20">
-                                    <Eye size={20} /> View Fullscreen
+                                    <Eye size={20} /> {t(language, 'win_fullscreen')}
                                 </span>
                             </div>
                         </div>
@@ -774,7 +1504,7 @@ export default function App() {
                         <div className="relative z-10 block w-full bg-slate-900 rounded-lg shadow-2xl mx-auto overflow-hidden border-4 border-slate-700 p-8 flex flex-col items-center justify-center min-h-[300px] mb-4">
                              <Terminal className="text-green-500 w-16 h-16 mb-4 animate-pulse" />
                              <h2 className="text-4xl md:text-6xl font-black text-green-500 font-arcade mb-4 text-center tracking-widest">
-                                SYSTEM READY
+                                {t(language, 'win_system_ready')}
                              </h2>
                              <div className="font-mono text-green-400/80 text-sm md:text-base text-center max-w-md space-y-2">
                                 <p>{'>'} SIMULATION_SEQUENCE_COMPLETE</p>
@@ -788,20 +1518,20 @@ export default function App() {
                     <div className="absolute bottom-0 left-0 right-0 bg-black/80 backdrop-blur-md p-4 sm:p-6 rounded-b-lg flex flex-col md:flex-row justify-between items-center gap-4 border-t border-white/10 z-20">
                          <div className="text-center md:text-left">
                              <h2 className="text-xl sm:text-2xl font-bold text-white flex items-center justify-center md:justify-start gap-2">
-                                <Trophy className="text-yellow-400" /> {TRANSLATIONS[language].win_title}
+                                <Trophy className="text-yellow-400" /> {t(language, 'win_title')}
                              </h2>
                              <div className="flex justify-center md:justify-start gap-4 text-sm text-slate-300 mt-1 font-mono">
-                                <span>{TRANSLATIONS[language].score}: <span className="text-white">{stats.score}</span></span>
-                                <span>Time: <span className="text-white">{stats.timeElapsed.toFixed(1)}s</span></span>
+                                <span>{t(language, 'score')}: <span className="text-white">{formatNumber(language, stats.score)}</span></span>
+                                <span>{t(language, 'time')}: <span className="text-white">{stats.timeElapsed.toFixed(1)}s</span></span>
                              </div>
                              <div className="text-xs text-green-400 mt-2 animate-pulse">
-                                {TRANSLATIONS[language].win_subtitle}
+                                {t(language, 'win_subtitle')}
                              </div>
                          </div>
                          
                          <div className="flex flex-col items-center md:items-end gap-2">
                              <div className="hidden sm:block text-right">
-                                <div className="text-xs text-indigo-300 uppercase">{TRANSLATIONS[language].ai_comment}</div>
+                                <div className="text-xs text-indigo-300 uppercase">{t(language, 'ai_comment')}</div>
                                 <div className="text-xs italic text-indigo-100 max-w-[200px] whitespace-normal truncate">
                                     "{commentary.substring(0, 60)}..."
                                 </div>
@@ -812,8 +1542,17 @@ export default function App() {
                                     className="px-8 py-3 bg-green-600 hover:bg-green-500 rounded-full font-bold flex items-center gap-2 shadow-[0_0_15px_rgba(34,197,94,0.5)] animate-bounce"
                                 >
                                     <Play size={20} /> 
-                                    {currentLevelIndex < LEVELS.length - 1 ? "Next Level" : "Finish Game"}
+                                    {t(language, currentLevelIndex < levels.length - 1 ? 'next_level' : 'finish_game')}
                                 </button>
+                                {lastReplay && (
+                                    <button
+                                        onClick={() => downloadReplay(lastReplay)}
+                                        className="p-3 bg-slate-700 hover:bg-slate-600 rounded-full"
+                                        title={t(language, 'download_replay')}
+                                    >
+                                        <Download size={20} />
+                                    </button>
+                                )}
                              </div>
                          </div>
                     </div>
@@ -828,7 +1567,7 @@ export default function App() {
                 onClick={() => setStatus(GameStatus.LEVEL_COMPLETE)}
              >
                 <img 
-                    src={LEVELS[currentLevelIndex].imageUrl}
+                    src={currentLevel.imageUrl}
                     className="max-w-full max-h-full object-contain"
                     alt="Fullscreen Reward"
                     onError={(e) => {
@@ -847,7 +1586,7 @@ export default function App() {
             <div className="absolute inset-0 bg-black/90 flex items-center justify-center z-50">
                  <div className="flex flex-col items-center animate-pulse">
                      <h2 className="text-6xl md:text-8xl font-black text-transparent bg-clip-text bg-gradient-to-b from-yellow-300 to-red-600 font-arcade mb-8">
-                         CONTINUE?
+                         {t(language, 'continue_title')}
                      </h2>
                      
                      <div className="text-9xl font-mono text-white mb-12 drop-shadow-[0_0_20px_rgba(255,0,0,0.8)]">
@@ -860,19 +1599,28 @@ export default function App() {
                             className="w-full py-4 bg-green-600 hover:bg-green-500 text-white font-black text-xl uppercase rounded flex items-center justify-center gap-2 shadow-[0_4px_0_#15803d] active:shadow-none active:translate-y-[4px] transition-all"
                          >
                             <Coins size={24} className="text-yellow-300" />
-                            YES (-30% Score)
+                            {t(language, 'continue_yes', { penalty: Math.round(CONTINUE_PENALTY * 100) })}
                          </button>
                          <button 
                             onClick={handleGiveUp}
                             className="w-full py-4 bg-slate-700 hover:bg-slate-600 text-slate-300 font-bold text-sm uppercase rounded"
                          >
-                            NO (GIVE UP)
+                            {t(language, 'continue_no')}
                          </button>
                      </div>
                      
                      <div className="mt-8 text-slate-500 text-sm font-mono">
-                         CONTINUES USED: {continuesUsed}
+                         {t(language, 'continues_used', { count: continuesUsed })}
                      </div>
+
+                     {lastReplay && (
+                         <button
+                            onClick={() => downloadReplay(lastReplay)}
+                            className="mt-4 flex items-center gap-2 text-xs text-slate-400 hover:text-white"
+                         >
+                            <Download size={14} /> {t(language, 'save_replay')}
+                         </button>
+                     )}
                  </div>
             </div>
         )}
@@ -882,8 +1630,8 @@ export default function App() {
              <div className="absolute inset-0 bg-black/90 backdrop-blur-md flex items-center justify-center z-50 p-4">
                 <div className="bg-slate-900 border-4 border-yellow-500 p-8 rounded-2xl w-full max-w-md shadow-[0_0_100px_rgba(234,179,8,0.3)] animate-bounce-slow text-center">
                     <Trophy className="w-16 h-16 text-yellow-400 mx-auto mb-4 animate-bounce" />
-                    <h2 className="text-4xl font-black text-transparent bg-clip-text bg-gradient-to-b from-yellow-300 to-yellow-600 font-arcade mb-2">NEW RECORD!</h2>
-                    <p className="text-slate-300 mb-6 font-arcade text-sm">ENTER YOUR INITIALS</p>
+                    <h2 className="text-4xl font-black text-transparent bg-clip-text bg-gradient-to-b from-yellow-300 to-yellow-600 font-arcade mb-2">{t(language, 'record_title')}</h2>
+                    <p className="text-slate-300 mb-6 font-arcade text-sm">{t(language, 'record_initials')}</p>
                     
                     <div className="flex justify-center mb-8">
                         <input 
@@ -896,15 +1644,23 @@ export default function App() {
                     </div>
 
                     <div className="mb-6">
-                        <div className="text-sm text-slate-400 uppercase">Score</div>
-                        <div className="text-3xl font-mono text-white">{stats.score}</div>
+                        <div className="text-sm text-slate-400 uppercase">{t(language, 'score')}</div>
+                        <div className="text-3xl font-mono text-white">{formatNumber(language, stats.score)}</div>
+                    </div>
+
+                    <div className="mb-6 flex flex-wrap justify-center gap-2">
+                        {pendingRecords.map((record, i) => (
+                            <span key={i} className="px-2 py-1 text-[10px] font-bold uppercase rounded border border-yellow-600 text-yellow-300 bg-yellow-900/30">
+                                {describeRecord(record, language)}
+                            </span>
+                        ))}
                     </div>
 
                     <button 
                        onClick={submitHighScore}
                        className="w-full py-4 bg-yellow-600 hover:bg-yellow-500 text-black font-black text-xl uppercase rounded shadow-[0_4px_0_#b45309] active:shadow-none active:translate-y-[4px] transition-all flex items-center justify-center gap-2"
                     >
-                        <Save size={20} /> SAVE SCORE
+                        <Save size={20} /> {t(language, 'record_save')}
                     </button>
                 </div>
              </div>
@@ -922,7 +1678,7 @@ export default function App() {
                   <div className="flex items-center gap-3 mb-6">
                     <Skull className="w-10 h-10 text-red-600 animate-pulse" />
                     <h2 className="text-4xl font-black text-transparent bg-clip-text bg-gradient-to-b from-red-500 to-red-900 tracking-tighter drop-shadow-sm font-arcade">
-                      {TRANSLATIONS[language].game_over}
+                      {t(language, 'game_over')}
                     </h2>
                     <Skull className="w-10 h-10 text-red-600 animate-pulse" />
                   </div>
@@ -944,18 +1700,18 @@ export default function App() {
                   
                   <div className="grid grid-cols-2 gap-4 w-full mb-6">
                       <div className="bg-slate-800 p-3 rounded-lg border border-slate-700 text-center">
-                          <div className="text-xs text-slate-400 uppercase mb-1">{TRANSLATIONS[language].area}</div>
+                          <div className="text-xs text-slate-400 uppercase mb-1">{t(language, 'area')}</div>
                           <div className="text-2xl font-mono text-red-400">{stats.areaRevealed.toFixed(1)}%</div>
                       </div>
                       <div className="bg-slate-800 p-3 rounded-lg border border-slate-700 text-center">
-                          <div className="text-xs text-slate-400 uppercase mb-1">{TRANSLATIONS[language].score}</div>
-                          <div className="text-2xl font-mono text-yellow-400 font-bold">{stats.score}</div>
+                          <div className="text-xs text-slate-400 uppercase mb-1">{t(language, 'score')}</div>
+                          <div className="text-2xl font-mono text-yellow-400 font-bold">{formatNumber(language, stats.score)}</div>
                       </div>
                   </div>
 
                   <div className="w-full mb-8 relative">
                       <div className="absolute -top-3 left-4 bg-indigo-600 text-white text-[10px] font-bold px-2 py-0.5 rounded uppercase flex items-center gap-1 shadow-sm">
-                          <Zap size={10} /> {TRANSLATIONS[language].ai_comment}
+                          <Zap size={10} /> {t(language, 'ai_comment')}
                       </div>
                       <div className="bg-indigo-900/40 border border-indigo-500/50 p-4 pt-5 rounded-xl text-center text-indigo-100 italic text-sm leading-relaxed">
                           "{commentary || '...'}"
@@ -967,13 +1723,13 @@ export default function App() {
                       onClick={() => setStatus(GameStatus.MENU)}
                       className="flex-1 py-3 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-xl font-bold transition-all uppercase text-sm border border-slate-600"
                     >
-                      {TRANSLATIONS[language].exit}
+                      {t(language, 'exit')}
                     </button>
                     <button 
                       onClick={() => startGame(currentLevelIndex)}
                       className="flex-[2] py-3 bg-red-600 hover:bg-red-500 text-white rounded-xl font-bold flex items-center justify-center gap-2 shadow-[0_0_20px_rgba(220,38,38,0.4)] transition-transform hover:scale-105 uppercase text-sm"
                     >
-                      <RefreshCw size={18} /> {TRANSLATIONS[language].retry}
+                      <RefreshCw size={18} /> {t(language, 'retry')}
                     </button>
                   </div>
               </div>
@@ -983,40 +1739,33 @@ export default function App() {
 
         {/* LEADERBOARD */}
         {status === GameStatus.LEADERBOARD && (
-          <div className="bg-slate-800 p-6 sm:p-8 rounded-xl max-w-2xl w-full border border-slate-700 mx-4 z-20">
-             <h2 className="text-2xl sm:text-3xl font-bold mb-6 text-center text-yellow-400 flex items-center justify-center gap-3">
-               <Trophy /> {TRANSLATIONS[language].menu_scores}
-             </h2>
-             <div className="space-y-2">
-               {highScores.map((entry, i) => (
-                 <div key={i} className={`flex justify-between items-center p-3 rounded hover:bg-slate-700 transition ${entry.date === new Date().toISOString().split('T')[0] ? 'bg-slate-600 border border-slate-500' : 'bg-slate-700/50'}`}>
-                    <div className="flex items-center gap-4">
-                      <span className={`font-bold w-6 sm:w-8 text-center ${i===0?'text-yellow-400':i===1?'text-slate-300':'text-orange-400'}`}>#{i+1}</span>
-                      <span className="font-arcade tracking-wider">{entry.playerName}</span>
-                    </div>
-                    <div className="flex items-center gap-4 sm:gap-8 text-xs sm:text-sm text-slate-400">
-                      <span>Lvl {entry.level}</span>
-                      <span className="text-white font-mono font-bold text-base sm:text-lg">{entry.score}</span>
-                    </div>
-                 </div>
-               ))}
-             </div>
-             <button onClick={() => setStatus(GameStatus.MENU)} className="mt-8 w-full py-3 bg-slate-700 rounded hover:bg-slate-600">
-               {TRANSLATIONS[language].exit}
-             </button>
-          </div>
+          <Leaderboard
+             pack={activePack}
+             local={localLeaderboard}
+             remote={remoteLeaderboard}
+             syncState={syncState}
+             onRetrySync={() => submissionQueueRef.current?.flush()}
+             scoreRejected={scoreRejected}
+             profileName={profile.name}
+             profileBests={profile.bests[activePack.id] ?? []}
+             language={language}
+             onExit={() => { setScoreRejected(false); setStatus(GameStatus.MENU); }}
+          />
         )}
 
       </div>
 
       {/* Mobile Controls */}
       {status === GameStatus.PLAYING && isMobile && (
-        <VirtualJoystick onDirectionChange={(dx, dy) => setDirection({x: dx, y: dy})} />
+        <VirtualJoystick
+          side={touchLayout}
+          onDirectionChange={(dx, dy) => dx !== 0 || dy !== 0 ? inputManager.press('touch', { x: dx, y: dy }) : inputManager.release('touch')}
+        />
       )}
       
       {/* Footer info */}
       <div className="mt-8 text-slate-500 text-xs text-center hidden sm:block z-10 relative shrink-0 uppercase">
-        {TRANSLATIONS[language].footer}
+        {t(language, 'footer', { move: describeMovement(keyBindings), pause: keyLabel(keyBindings.PAUSE.find(Boolean) ?? 'escape') })}
       </div>
     </div>
   );
@@ -0,0 +1,38 @@
+import React, { useEffect } from 'react';
+import { Trophy } from 'lucide-react';
+import { Language } from '../types';
+import { Achievement, achievementDescription, achievementTitle } from '../services/achievements';
+import { t } from '../services/i18n';
+
+interface AchievementToastProps {
+  achievement: Achievement | undefined; // Head of the queue, nothing shown when empty
+  language: Language;
+  onDone: () => void;
+}
+
+const TOAST_MS = 3500;
+
+export const AchievementToast: React.FC<AchievementToastProps> = ({ achievement, language, onDone }) => {
+  useEffect(() => {
+    if (!achievement) return;
+    const timer = setTimeout(onDone, TOAST_MS);
+    return () => clearTimeout(timer);
+  }, [achievement?.id]);
+
+  if (!achievement) return null;
+
+  return (
+    <div
+      key={achievement.id}
+      onClick={onDone}
+      className="fixed top-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 px-5 py-3 bg-slate-900/95 border-2 border-yellow-400 rounded-lg shadow-[0_0_20px_rgba(250,204,21,0.4)] animate-fade-in cursor-pointer"
+    >
+      <Trophy className="text-yellow-400 shrink-0" size={28} />
+      <div className="flex flex-col">
+        <span className="text-[10px] text-yellow-400 font-arcade uppercase tracking-widest">{t(language, 'achievement_unlocked')}</span>
+        <span className="text-white font-bold">{achievementTitle(language, achievement)}</span>
+        <span className="text-xs text-slate-400">{achievementDescription(language, achievement)}</span>
+      </div>
+    </div>
+  );
+};
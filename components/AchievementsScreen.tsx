@@ -0,0 +1,68 @@
+import React from 'react';
+import { Trophy, Lock, X } from 'lucide-react';
+import { AchievementRecord, Language } from '../types';
+import { ACHIEVEMENTS, achievementDescription, achievementTitle, getAchievementRecord } from '../services/achievements';
+import { t, getLocale } from '../services/i18n';
+
+interface AchievementsScreenProps {
+  profileName: string;
+  records: Record<string, AchievementRecord>;
+  language: Language;
+  onBack: () => void;
+}
+
+export const AchievementsScreen: React.FC<AchievementsScreenProps> = ({ profileName, records, language, onBack }) => {
+  const earned = ACHIEVEMENTS.filter(a => getAchievementRecord(records, a.id).unlockedAt).length;
+
+  return (
+    <div className="bg-slate-800 p-6 sm:p-8 rounded-xl max-w-lg w-full border border-slate-700 mx-4 z-20 flex flex-col gap-6 max-h-full">
+      <h2 className="text-2xl sm:text-3xl font-bold text-center text-yellow-400 flex items-center justify-center gap-3">
+        <Trophy /> {t(language, 'achievements_title')}
+      </h2>
+      <p className="text-center text-xs font-arcade text-slate-400 uppercase">
+        <span className="text-yellow-300">{profileName}</span> · {earned}/{ACHIEVEMENTS.length}
+      </p>
+
+      <div className="flex flex-col gap-2 overflow-y-auto no-scrollbar">
+        {ACHIEVEMENTS.map(achievement => {
+          const record = getAchievementRecord(records, achievement.id);
+          const unlocked = !!record.unlockedAt;
+          const percent = Math.min(100, (record.progress / achievement.target) * 100);
+          return (
+            <div
+              key={achievement.id}
+              className={`flex items-center gap-3 p-3 rounded border ${unlocked ? 'bg-slate-700 border-yellow-400' : 'bg-slate-900 border-slate-700'}`}
+            >
+              {unlocked
+                ? <Trophy size={20} className="text-yellow-400 shrink-0" />
+                : <Lock size={20} className="text-slate-600 shrink-0" />}
+              <div className="flex-1 flex flex-col gap-1 min-w-0">
+                <div className="flex items-baseline gap-2">
+                  <span className={`font-bold ${unlocked ? 'text-white' : 'text-slate-300'}`}>{achievementTitle(language, achievement)}</span>
+                  {unlocked && (
+                    <span className="ml-auto text-[10px] text-slate-500 font-mono">
+                      {new Date(record.unlockedAt!).toLocaleDateString(getLocale(language).intl)}
+                    </span>
+                  )}
+                </div>
+                <span className="text-xs text-slate-400">{achievementDescription(language, achievement)}</span>
+                {!unlocked && achievement.target > 1 && (
+                  <div className="flex items-center gap-2">
+                    <div className="flex-1 h-2 bg-black rounded overflow-hidden">
+                      <div className="h-full bg-cyan-400" style={{ width: `${percent}%` }} />
+                    </div>
+                    <span className="text-[10px] text-slate-500 font-mono">{record.progress}/{achievement.target}</span>
+                  </div>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <button onClick={onBack} className="w-full py-3 bg-slate-700 rounded hover:bg-slate-600 flex items-center justify-center gap-2">
+        <X size={16} /> {t(language, 'back')}
+      </button>
+    </div>
+  );
+};
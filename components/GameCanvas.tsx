@@ -1,55 +1,93 @@
 import React, { useEffect, useRef, useState } from 'react';
 import {
   GRID_WIDTH, GRID_HEIGHT, TILE_SIZE,
-  COLOR_SAFE, COLOR_TRAIL, COLOR_BOSS, COLOR_BOSS_CORE,
-  COLOR_PARTICLE, COLOR_PLAYER, COLOR_ITEM,
-  INVULNERABILITY_TIME, IDLE_TIMEOUT_MS, COMBO_TIMEOUT_MS,
-  ITEM_LIFETIME, EXCLAMATIONS, TRANSLATIONS
+  COLOR_SAFE, COLOR_TRAIL, COLOR_BOSS, COLOR_BOSS_CORE, COLOR_OBSTACLE,
+  COLOR_PARTICLE, COLOR_PLAYER, COLOR_ITEM, COLOR_DAMAGE, EFFECTS_QUALITY,
+  INVULNERABILITY_TIME, IDLE_TIMEOUT_MS, COMBO_TIMEOUT_MS, PROXIMITY_RANGE, NEAR_MISS_RANGE,
+  ITEM_LIFETIME, ITEM_STYLES, EXCLAMATIONS,
+  FREEZE_DURATION, SLOW_DURATION, SHIELD_DURATION
 } from '../constants';
 import {
-  Point, Enemy, Player, LevelConfig, GameStats,
-  Particle, FlashEffect, FloatingText, Language, Item
+  Point, LevelConfig, GameStats, SimulationEvent, SimulationState,
+  Particle, FlashEffect, FloatingText, Language, ItemType, EffectsQuality, Replay, Enemy
 } from '../types';
+import { createGameSimulation, getNearestEnemyDistance, GameSimulation } from '../services/gameSimulation';
+import { createReplayRecorder, getReplayInput, simulateReplay, ReplayRecorder } from '../services/replay';
+import { randomSeed } from '../services/rng';
+import { t } from '../services/i18n';
+import { InputManager } from '../services/inputManager';
 
 interface GameCanvasProps {
   level: LevelConfig;
+  initialScore: number;
   onGameOver: (stats: GameStats) => void;
   onLevelComplete: (stats: GameStats) => void;
   onStatsUpdate: (stats: GameStats) => void;
   onLivesChange: (lives: number) => void;
-  onAreaCapture: () => void;
-  onItemCollect: () => void;
+  onAreaCapture: (combo: number, area: number, tiles: number) => void; // area: percentage gained by the cut
+  onDamage?: (source: Enemy['type'], lifeLost: boolean) => void;
+  onNearMiss?: () => void;
+  onItemCollect: (type: ItemType) => void;
   onProximityUpdate: (intensity: number) => void;
-  direction: Point;
+  inputManager?: InputManager; // Live runs; replays read their recorded input
   isPaused: boolean;
   language: Language;
+  quality: EffectsQuality;
+  reducedEffects?: boolean; // Skips the damage screen flash
+  seed?: number; // Live runs pick a random seed when omitted
+  onRunRecorded?: (replay: Replay) => void;
+  // Playback mode: the replay drives the input instead of `inputManager`
+  replay?: Replay | null;
+  playbackSpeed?: number;
+  seekTo?: { tick: number } | null; // New object = new seek request
+  onReplayProgress?: (tick: number, totalTicks: number) => void;
+  // Ghost racing: best previous clear of this level, simulated in lockstep
+  ghost?: Replay | null;
+  onGhostUpdate?: (areaDelta: number) => void; // Positive = ahead of the ghost
 }
 
-type TileType = 0 | 1 | 2;
 type IntroPhase = 'TITLE' | 'READY' | 'GO' | null;
 
+const NO_INPUT: Point = { x: 0, y: 0 };
+
+// Longest frame we try to catch up on (e.g. after a tab switch)
+const MAX_FRAME_MS = 250;
+
 export const GameCanvas: React.FC<GameCanvasProps> = ({
-  level, onGameOver, onLevelComplete, onStatsUpdate,
-  onLivesChange, onAreaCapture, onItemCollect,
-  onProximityUpdate, direction, isPaused, language
+  level, initialScore, onGameOver, onLevelComplete, onStatsUpdate,
+  onLivesChange, onAreaCapture, onDamage, onNearMiss, onItemCollect,
+  onProximityUpdate, inputManager, isPaused, language, quality, reducedEffects = false,
+  seed, onRunRecorded, replay = null, playbackSpeed = 1, seekTo = null, onReplayProgress,
+  ghost = null, onGhostUpdate
 }) => {
 
+  // The game loop outlives renders, so it reaches the parent through this
+  // ref: handlers then always see the parent's current state
+  const callbacks = {
+    onGameOver, onLevelComplete, onStatsUpdate, onLivesChange, onAreaCapture, onDamage, onNearMiss,
+    onItemCollect, onProximityUpdate, onRunRecorded, onReplayProgress, onGhostUpdate
+  };
+  const callbacksRef = useRef(callbacks);
+  callbacksRef.current = callbacks;
+
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const requestRef = useRef<number>(0);
 
-  const gridRef = useRef<TileType[][]>([]);
-  const playerRef = useRef<Player>({ x: 0, y: 0, lives: 3, isDrawing: false, invulnerableUntil: 0, lastMoveTime: 0 });
-  const enemiesRef = useRef<Enemy[]>([]);
-  const itemsRef = useRef<Item[]>([]);
-  const statsRef = useRef<GameStats>({ areaRevealed: 0, timeElapsed: 0, score: 0 });
+  // All gameplay state lives in the simulation; this component only renders it
+  const simRef = useRef<GameSimulation | null>(null);
+  const accumulatorRef = useRef(0);
+  const proximityRef = useRef(0);
+  const nearMissRef = useRef(false); // An enemy is within NEAR_MISS_RANGE and has not hit us
+  const recorderRef = useRef<ReplayRecorder | null>(null);
+  const ghostSimRef = useRef<GameSimulation | null>(null);
+  const playbackSpeedRef = useRef(playbackSpeed);
 
-  const trailRef = useRef<Point[]>([]);
   const particlesRef = useRef<Particle[]>([]);
   const flashEffectsRef = useRef<FlashEffect[]>([]);
   const floatingTextsRef = useRef<FloatingText[]>([]);
-  const directionRef = useRef<Point>(direction);
-
-  const comboRef = useRef({ count: 1, lastActionTime: 0, lastMoveTime: 0 });
+  const qualityRef = useRef(EFFECTS_QUALITY[quality]);
+  const reducedEffectsRef = useRef(reducedEffects);
+  const languageRef = useRef(language);
 
   const [introPhase, setIntroPhase] = useState<IntroPhase>('TITLE');
   const isIntroFrozenRef = useRef(true);
@@ -92,21 +130,39 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
   // INPUT UPDATE
   // ---------------------------
   useEffect(() => {
-    directionRef.current = direction;
-    if (direction.x !== 0 || direction.y !== 0) {
-      comboRef.current.lastMoveTime = Date.now();
-    }
-  }, [direction]);
+    playbackSpeedRef.current = playbackSpeed;
+  }, [playbackSpeed]);
+
+  useEffect(() => {
+    qualityRef.current = EFFECTS_QUALITY[quality];
+    // Drop the excess right away when lowering the setting mid-game
+    particlesRef.current = particlesRef.current.slice(-qualityRef.current.maxParticles);
+  }, [quality]);
+
+  // Read by the game loop, which is only rebuilt for a new level or pause
+  useEffect(() => {
+    reducedEffectsRef.current = reducedEffects;
+    languageRef.current = language;
+  }, [reducedEffects, language]);
 
   // ---------------------------
   // INIT GAME
   // ---------------------------
   useEffect(() => {
     initGame();
-    startIntroSequence();
-    return () => onProximityUpdate(0);
-    // eslint-disable-next-line
-  }, [level]);
+    if (replay) {
+      // Replays start straight away, no READY/GO
+      isIntroFrozenRef.current = false;
+      setIntroPhase(null);
+    } else {
+      startIntroSequence();
+    }
+    return () => {
+      callbacksRef.current.onProximityUpdate(0);
+      // A live run cut short (quit, skipped tutorial) is handed over as abandoned
+      if ((simRef.current?.getState().tick ?? 0) > 0) finishRecording();
+    };
+  }, [level, replay]);
 
   useEffect(() => {
     if (isPaused) {
@@ -116,8 +172,20 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
     lastFrameTimeRef.current = Date.now();
     requestRef.current = requestAnimationFrame(gameLoop);
     return () => cancelAnimationFrame(requestRef.current);
-    // eslint-disable-next-line
-  }, [isPaused, level]);
+  }, [isPaused, level, replay]);
+
+  // Scrubbing: re-simulate headlessly from the start up to the requested tick
+  useEffect(() => {
+    if (!replay || !seekTo) return;
+    simRef.current = simulateReplay(replay, level, seekTo.tick);
+    accumulatorRef.current = 0;
+    particlesRef.current = [];
+    flashEffectsRef.current = [];
+    floatingTextsRef.current = [];
+    callbacksRef.current.onReplayProgress?.(simRef.current.getState().tick, replay.totalTicks);
+    callbacksRef.current.onStatsUpdate({ ...simRef.current.getState().stats });
+    draw(Date.now());
+  }, [seekTo]);
 
   const startIntroSequence = () => {
     isIntroFrozenRef.current = true;
@@ -127,48 +195,33 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
     setTimeout(() => {
       setIntroPhase(null);
       isIntroFrozenRef.current = false;
-      comboRef.current.lastActionTime = Date.now();
-      comboRef.current.lastMoveTime = Date.now();
     }, 4000);
   };
 
   const initGame = () => {
     resizeCanvas();
 
-    const grid: TileType[][] = [];
-    for (let y = 0; y < GRID_HEIGHT; y++) {
-      const row: TileType[] = [];
-      for (let x = 0; x < GRID_WIDTH; x++) {
-        row.push(x === 0 || y === 0 || x === GRID_WIDTH - 1 || y === GRID_HEIGHT - 1 ? 0 : 1);
-      }
-      grid.push(row);
+    if (replay) {
+      simRef.current = createGameSimulation(level, { seed: replay.seed, initialScore: replay.initialScore });
+      recorderRef.current = null;
+    } else {
+      const runSeed = seed ?? randomSeed();
+      simRef.current = createGameSimulation(level, { seed: runSeed, initialScore });
+      recorderRef.current = createReplayRecorder(level, runSeed, initialScore);
+      inputManager?.stop(); // Keep-moving mode starts standing still
     }
+    ghostSimRef.current = !replay && ghost && ghost.levelId === level.id && ghost.packId === level.packId
+      ? createGameSimulation(level, { seed: ghost.seed, initialScore: ghost.initialScore })
+      : null;
+    accumulatorRef.current = 0;
+    proximityRef.current = 0;
+    nearMissRef.current = false;
 
-    gridRef.current = grid;
-    playerRef.current = { x: 0, y: 0, lives: 3, isDrawing: false, invulnerableUntil: 0, lastMoveTime: 0 };
-
-    enemiesRef.current = Array.from({ length: level.enemyCount }, (_, i) => {
-      const a = Math.random() * Math.PI * 2;
-      const s = level.bossSpeed * (1 + i * 0.1);
-      return {
-        x: GRID_WIDTH / 2,
-        y: GRID_HEIGHT / 2,
-        vx: Math.cos(a) * s,
-        vy: Math.sin(a) * s,
-        type: 'BOSS',
-        changeDirTimer: 1500 + Math.random() * 2000
-      };
-    });
-
-    itemsRef.current = [];
-    trailRef.current = [];
     particlesRef.current = [];
     flashEffectsRef.current = [];
     floatingTextsRef.current = [];
-    statsRef.current = { areaRevealed: 0, timeElapsed: 0, score: 0 };
-    comboRef.current = { count: 1, lastActionTime: Date.now(), lastMoveTime: Date.now() };
 
-    onLivesChange(3);
+    callbacksRef.current.onLivesChange(simRef.current.getState().player.lives);
     draw(Date.now());
   };
 
@@ -180,33 +233,244 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
     const dt = now - lastFrameTimeRef.current;
     lastFrameTimeRef.current = now;
 
-    if (!isIntroFrozenRef.current) update(dt, now);
+    if (!isIntroFrozenRef.current) update(Math.min(dt, MAX_FRAME_MS));
+    updateEffects(dt);
     draw(now);
 
     requestRef.current = requestAnimationFrame(gameLoop);
   };
 
   // ---------------------------
-  // UPDATE (sin cambios críticos)
+  // UPDATE
   // ---------------------------
-  const update = (dt: number, now: number) => {
-    statsRef.current.timeElapsed += dt / 1000;
-    onStatsUpdate({ ...statsRef.current });
+  // Feeds real elapsed time to the simulation in fixed ticks.
+  const update = (dt: number) => {
+    const sim = simRef.current;
+    if (!sim || sim.getState().status !== 'PLAYING') return;
+
+    accumulatorRef.current += dt * playbackSpeedRef.current;
+    while (accumulatorRef.current >= sim.tickMs && sim.getState().status === 'PLAYING') {
+      const tick = sim.getState().tick + 1;
+      if (replay && tick > replay.totalTicks) {
+        accumulatorRef.current = 0;
+        break;
+      }
+      accumulatorRef.current -= sim.tickMs;
+
+      const canStep = sim.canPlayerStep();
+      const input = replay ? getReplayInput(replay, tick) : inputManager?.next(canStep) ?? NO_INPUT;
+      const { x, y } = sim.getState().player;
+      recorderRef.current?.record(tick, input);
+      handleEvents(sim.step(input));
+      // Keep-moving mode halts against walls, obstacles and the trail
+      const player = sim.getState().player;
+      if (canStep && (input.x !== 0 || input.y !== 0) && player.x === x && player.y === y) inputManager?.stop();
+      stepGhost(tick);
+    }
+
+    callbacksRef.current.onStatsUpdate({ ...sim.getState().stats });
+    const ghostSim = ghostSimRef.current;
+    if (ghostSim) {
+      callbacksRef.current.onGhostUpdate?.(sim.getState().stats.areaRevealed - ghostSim.getState().stats.areaRevealed);
+    }
+    if (replay) callbacksRef.current.onReplayProgress?.(sim.getState().tick, replay.totalTicks);
+    updateProximity();
+  };
+
+  // The ghost runs its own recorded world; only its player and area matter here
+  const stepGhost = (tick: number) => {
+    const ghostSim = ghostSimRef.current;
+    if (!ghostSim || !ghost || ghostSim.getState().status !== 'PLAYING') return;
+    ghostSim.step(getReplayInput(ghost, tick));
+  };
+
+  // Hands the finished live run to the parent as a replay
+  const finishRecording = () => {
+    if (!recorderRef.current || !simRef.current) return;
+    callbacksRef.current.onRunRecorded?.(recorderRef.current.finish(simRef.current.getState()));
+    recorderRef.current = null;
+  };
+
+  // Drives the jukebox danger drone: 0 when far, 1 when an enemy is on top of us
+  const updateProximity = () => {
+    const state = simRef.current!.getState();
+    const distance = getNearestEnemyDistance(state);
+    trackNearMiss(state, distance);
+    const intensity = state.status === 'PLAYING' ? Math.max(0, 1 - distance / PROXIMITY_RANGE) : 0;
+    if (Math.abs(intensity - proximityRef.current) < 0.02) return;
+    proximityRef.current = intensity;
+    callbacksRef.current.onProximityUpdate(intensity);
+  };
+
+  // A near miss counts once the enemy is clearly away again; a hit (or being protected) cancels it
+  const trackNearMiss = (state: SimulationState, distance: number) => {
+    const protectedNow = state.time < state.player.invulnerableUntil || state.time < state.powerUps.shieldUntil;
+    if (state.status !== 'PLAYING' || protectedNow) {
+      nearMissRef.current = false;
+    } else if (distance < NEAR_MISS_RANGE) {
+      nearMissRef.current = true;
+    } else if (nearMissRef.current && distance > NEAR_MISS_RANGE * 2) {
+      nearMissRef.current = false;
+      callbacksRef.current.onNearMiss?.();
+    }
+  };
+
+  const handleEvents = (events: SimulationEvent[]) => {
+    const state = simRef.current!.getState();
+    events.forEach(event => {
+      switch (event.type) {
+        case 'CAPTURE':
+          inputManager?.stop();
+          callbacksRef.current.onAreaCapture(event.combo, event.area, event.tiles);
+          spawnParticles(event.x, event.y, Math.min(120, 20 + event.tiles / 4), COLOR_PARTICLE, 0.25);
+          spawnFloatingText(event.x, event.y, `+${event.points}`, COLOR_ITEM, 14);
+          if (event.combo > 1) {
+            const word = EXCLAMATIONS[Math.floor(Math.random() * EXCLAMATIONS.length)];
+            spawnFloatingText(event.x, event.y - 2, `${word} x${event.combo}`, COLOR_PLAYER, 18 + Math.min(event.combo, 6) * 2);
+          }
+          break;
+        case 'COMBO_BROKEN':
+          if (event.reason !== 'TIMEOUT') {
+            spawnFloatingText(event.x, event.y, t(languageRef.current, 'broken'), COLOR_TRAIL, 16);
+          }
+          break;
+        case 'DAMAGE':
+          inputManager?.stop();
+          callbacksRef.current.onDamage?.(event.source, event.lifeLost);
+          callbacksRef.current.onLivesChange(event.lives);
+          spawnParticles(event.x, event.y, 60, COLOR_DAMAGE, 0.3);
+          if (!reducedEffectsRef.current) flashEffectsRef.current.push({ x: event.x, y: event.y, life: 1, decay: 0.002 });
+          break;
+        case 'ITEM':
+          callbacksRef.current.onItemCollect(event.item);
+          if (event.item === 'LIFE') callbacksRef.current.onLivesChange(state.player.lives);
+          spawnParticles(event.x, event.y, 25, ITEM_STYLES[event.item].color, 0.15);
+          spawnFloatingText(event.x, event.y, t(languageRef.current, `item_${event.item}`), ITEM_STYLES[event.item].color, 12);
+          break;
+        case 'LEVEL_COMPLETE':
+          finishRecording();
+          callbacksRef.current.onLevelComplete({ ...state.stats });
+          break;
+        case 'GAME_OVER':
+          finishRecording();
+          callbacksRef.current.onGameOver({ ...state.stats });
+          break;
+      }
+    });
   };
 
   // ---------------------------
-  // DRAW (funciona ya)
+  // EFFECTS
   // ---------------------------
-  const draw = () => {
+  // Positions are given in tiles; effects live in canvas space
+  const spawnFloatingText = (x: number, y: number, text: string, color: string, size: number) => {
+    floatingTextsRef.current.push({
+      x: x * TILE_SIZE + TILE_SIZE / 2,
+      y: y * TILE_SIZE,
+      text, color, size,
+      life: 1,
+      vy: -0.04
+    });
+  };
+
+  // Bursts are scaled by the quality setting and capped by its particle budget
+  const spawnParticles = (x: number, y: number, count: number, color: string, speed: number) => {
+    const { maxParticles, particleScale } = qualityRef.current;
+    const particles = particlesRef.current;
+    const amount = Math.min(Math.round(count * particleScale), maxParticles - particles.length);
+
+    for (let i = 0; i < amount; i++) {
+      const a = Math.random() * Math.PI * 2;
+      const v = speed * (0.3 + Math.random() * 0.7);
+      const life = 400 + Math.random() * 600;
+      particles.push({
+        x: x * TILE_SIZE + TILE_SIZE / 2,
+        y: y * TILE_SIZE + TILE_SIZE / 2,
+        vx: Math.cos(a) * v,
+        vy: Math.sin(a) * v,
+        life,
+        maxLife: life,
+        color,
+        size: 2 + Math.random() * 3
+      });
+    }
+  };
+
+  const updateEffects = (dt: number) => {
+    particlesRef.current.forEach(p => {
+      p.x += p.vx * dt;
+      p.y += p.vy * dt;
+      p.vy += 0.0004 * dt; // A touch of gravity
+      p.life -= dt;
+    });
+    particlesRef.current = particlesRef.current.filter(p => p.life > 0);
+
+    flashEffectsRef.current.forEach(f => { f.life -= f.decay * dt; });
+    flashEffectsRef.current = flashEffectsRef.current.filter(f => f.life > 0);
+
+    floatingTextsRef.current.forEach(t => {
+      t.y += t.vy * dt;
+      t.life -= dt / 1200;
+    });
+    floatingTextsRef.current = floatingTextsRef.current.filter(t => t.life > 0);
+  };
+
+  const drawParticles = (ctx: CanvasRenderingContext2D) => {
+    particlesRef.current.forEach(p => {
+      ctx.globalAlpha = Math.max(0, p.life / p.maxLife);
+      ctx.fillStyle = p.color;
+      ctx.fillRect(p.x - p.size / 2, p.y - p.size / 2, p.size, p.size);
+    });
+    ctx.globalAlpha = 1;
+  };
+
+  // Red screen flash radiating from where the hit happened
+  const drawFlashes = (ctx: CanvasRenderingContext2D) => {
+    const width = GRID_WIDTH * TILE_SIZE;
+    const height = GRID_HEIGHT * TILE_SIZE;
+    flashEffectsRef.current.forEach(f => {
+      const cx = f.x * TILE_SIZE + TILE_SIZE / 2;
+      const cy = f.y * TILE_SIZE + TILE_SIZE / 2;
+      const gradient = ctx.createRadialGradient(cx, cy, 0, cx, cy, width);
+      gradient.addColorStop(0, `rgba(255, 255, 255, ${f.life * 0.6})`);
+      gradient.addColorStop(0.3, `rgba(239, 68, 68, ${f.life * 0.4})`);
+      gradient.addColorStop(1, `rgba(239, 68, 68, ${f.life * 0.15})`);
+      ctx.fillStyle = gradient;
+      ctx.fillRect(0, 0, width, height);
+    });
+  };
+
+  const drawFloatingTexts = (ctx: CanvasRenderingContext2D) => {
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    floatingTextsRef.current.forEach(t => {
+      ctx.globalAlpha = Math.max(0, t.life);
+      ctx.font = `bold ${t.size}px "Press Start 2P", monospace`;
+      ctx.lineWidth = 3;
+      ctx.strokeStyle = '#000';
+      ctx.strokeText(t.text, t.x, t.y);
+      ctx.fillStyle = t.color;
+      ctx.fillText(t.text, t.x, t.y);
+    });
+    ctx.globalAlpha = 1;
+  };
+
+  // ---------------------------
+  // DRAW
+  // ---------------------------
+  const draw = (now: number) => {
     const canvas = canvasRef.current;
     if (!canvas) return;
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
+    const sim = simRef.current;
+    if (!sim) return;
+    const state = sim.getState();
 
     ctx.imageSmoothingEnabled = false;
     ctx.clearRect(0, 0, canvas.width, canvas.height);
 
-    const grid = gridRef.current;
+    const grid = state.grid;
 
     ctx.fillStyle = COLOR_SAFE;
     for (let y = 0; y < GRID_HEIGHT; y++) {
@@ -217,16 +481,146 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
       }
     }
 
-    const p = playerRef.current;
-    ctx.fillStyle = COLOR_PLAYER;
-    ctx.beginPath();
-    ctx.arc(
-      p.x * TILE_SIZE + TILE_SIZE / 2,
-      p.y * TILE_SIZE + TILE_SIZE / 2,
-      TILE_SIZE / 2,
-      0, Math.PI * 2
-    );
-    ctx.fill();
+    // Obstacles: solid blocks with a bevel so they read as walls, not cover
+    for (let y = 0; y < GRID_HEIGHT; y++) {
+      for (let x = 0; x < GRID_WIDTH; x++) {
+        if (grid[y][x] !== 3) continue;
+        ctx.fillStyle = COLOR_OBSTACLE;
+        ctx.fillRect(x * TILE_SIZE, y * TILE_SIZE, TILE_SIZE, TILE_SIZE);
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.35)';
+        ctx.fillRect(x * TILE_SIZE + 2, y * TILE_SIZE + 2, TILE_SIZE - 4, TILE_SIZE - 4);
+      }
+    }
+
+    const { glow } = qualityRef.current;
+
+    // Trail pulses; an immune (cut-through) trail glows in its item colour
+    ctx.fillStyle = state.powerUps.trailImmune ? ITEM_STYLES.CUT_THROUGH.color : COLOR_TRAIL;
+    ctx.globalAlpha = 0.75 + Math.sin(now / 80) * 0.25;
+    if (glow) {
+      ctx.shadowColor = ctx.fillStyle;
+      ctx.shadowBlur = 8;
+    }
+    state.trail.forEach(t => {
+      ctx.fillRect(t.x * TILE_SIZE, t.y * TILE_SIZE, TILE_SIZE, TILE_SIZE);
+    });
+    ctx.globalAlpha = 1;
+    ctx.shadowBlur = 0;
+
+    state.items.forEach(item => {
+      const style = ITEM_STYLES[item.type];
+      // Blink during the last quarter of its life
+      if (item.life < item.maxLife / 4 && Math.floor(now / 120) % 2 === 0) return;
+      const cx = item.x * TILE_SIZE + TILE_SIZE / 2;
+      const cy = item.y * TILE_SIZE + TILE_SIZE / 2;
+      const pulse = 1 + Math.sin(now / 150) * 0.15;
+      ctx.fillStyle = style.color;
+      ctx.beginPath();
+      ctx.arc(cx, cy, (TILE_SIZE / 2) * pulse, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.fillStyle = '#000';
+      ctx.font = `bold ${TILE_SIZE - 4}px monospace`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(style.glyph, cx, cy + 1);
+    });
+
+    const frozen = state.time < state.powerUps.freezeUntil;
+    state.enemies.forEach(e => {
+      ctx.globalAlpha = frozen ? 0.5 : 1;
+      const cx = e.x * TILE_SIZE;
+      const cy = e.y * TILE_SIZE;
+      if (e.type === 'BOSS') {
+        const pulse = frozen ? 1 : 1 + Math.sin(now / 120) * 0.1;
+        if (glow) {
+          ctx.shadowColor = COLOR_BOSS;
+          ctx.shadowBlur = 15;
+        }
+        ctx.fillStyle = COLOR_BOSS;
+        ctx.beginPath();
+        ctx.arc(cx, cy, TILE_SIZE * 0.9 * pulse, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.shadowBlur = 0;
+        ctx.fillStyle = COLOR_BOSS_CORE;
+        ctx.beginPath();
+        ctx.arc(cx, cy, TILE_SIZE * 0.4 * pulse, 0, Math.PI * 2);
+        ctx.fill();
+      } else {
+        ctx.fillStyle = COLOR_BOSS;
+        ctx.fillRect(cx + 2, cy + 2, TILE_SIZE - 4, TILE_SIZE - 4);
+      }
+    });
+    ctx.globalAlpha = 1;
+
+    const ghostState = ghostSimRef.current?.getState();
+    if (ghostState) {
+      ctx.globalAlpha = 0.35;
+      ctx.fillStyle = '#e2e8f0';
+      ghostState.trail.forEach(t => {
+        ctx.fillRect(t.x * TILE_SIZE + 3, t.y * TILE_SIZE + 3, TILE_SIZE - 6, TILE_SIZE - 6);
+      });
+      ctx.beginPath();
+      ctx.arc(
+        ghostState.player.x * TILE_SIZE + TILE_SIZE / 2,
+        ghostState.player.y * TILE_SIZE + TILE_SIZE / 2,
+        TILE_SIZE / 2,
+        0, Math.PI * 2
+      );
+      ctx.fill();
+      ctx.globalAlpha = 1;
+    }
+
+    const p = state.player;
+    // Blink while invulnerable (simulation time drives the blink)
+    if (state.time >= p.invulnerableUntil || Math.floor(now / 100) % 2 !== 0) {
+      ctx.fillStyle = COLOR_PLAYER;
+      ctx.beginPath();
+      ctx.arc(
+        p.x * TILE_SIZE + TILE_SIZE / 2,
+        p.y * TILE_SIZE + TILE_SIZE / 2,
+        TILE_SIZE / 2,
+        0, Math.PI * 2
+      );
+      ctx.fill();
+
+      if (state.time < state.powerUps.shieldUntil) {
+        ctx.strokeStyle = ITEM_STYLES.SHIELD.color;
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.arc(p.x * TILE_SIZE + TILE_SIZE / 2, p.y * TILE_SIZE + TILE_SIZE / 2, TILE_SIZE, 0, Math.PI * 2);
+        ctx.stroke();
+      }
+    }
+
+    drawParticles(ctx);
+    drawFlashes(ctx);
+    drawFloatingTexts(ctx);
+    drawPowerUpHud(ctx, state);
+  };
+
+  // Top-left indicators with a bar showing the remaining duration
+  const drawPowerUpHud = (ctx: CanvasRenderingContext2D, state: SimulationState) => {
+    const { powerUps, time } = state;
+    const active: { type: ItemType; remaining: number }[] = [];
+    if (time < powerUps.freezeUntil) active.push({ type: 'FREEZE', remaining: (powerUps.freezeUntil - time) / FREEZE_DURATION });
+    if (time < powerUps.slowUntil) active.push({ type: 'SLOW', remaining: (powerUps.slowUntil - time) / SLOW_DURATION });
+    if (time < powerUps.shieldUntil) active.push({ type: 'SHIELD', remaining: (powerUps.shieldUntil - time) / SHIELD_DURATION });
+    if (powerUps.cutThroughArmed || powerUps.trailImmune) active.push({ type: 'CUT_THROUGH', remaining: 1 });
+
+    active.forEach((a, i) => {
+      const style = ITEM_STYLES[a.type];
+      const x = TILE_SIZE * 2;
+      const y = TILE_SIZE * 2 + i * TILE_SIZE * 1.6;
+      ctx.fillStyle = style.color;
+      ctx.font = `bold ${TILE_SIZE}px monospace`;
+      ctx.textAlign = 'left';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(style.glyph, x, y);
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+      ctx.fillRect(x + TILE_SIZE, y - 3, TILE_SIZE * 5, 6);
+      ctx.fillStyle = style.color;
+      ctx.fillRect(x + TILE_SIZE, y - 3, TILE_SIZE * 5 * a.remaining, 6);
+    });
   };
 
   // ---------------------------
@@ -239,7 +633,7 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
     >
       <img
         src={level.imageUrl}
-        alt="Level background"
+        alt={t(language, 'level_background')}
         className="absolute inset-0 w-full h-full object-cover opacity-30"
         onError={(e) => {
           e.currentTarget.onerror = null;
@@ -255,9 +649,9 @@ export const GameCanvas: React.FC<GameCanvasProps> = ({
       {introPhase && (
         <div className="absolute inset-0 z-20 flex items-center justify-center bg-black/60">
           <h2 className="text-white text-6xl font-black">
-            {introPhase === 'READY' ? TRANSLATIONS[language].ready :
-             introPhase === 'GO' ? TRANSLATIONS[language].go :
-             `STAGE ${level.id}`}
+            {introPhase === 'READY' ? t(language, 'ready') :
+             introPhase === 'GO' ? t(language, 'go') :
+             t(language, 'stage', { level: level.id })}
           </h2>
         </div>
       )}
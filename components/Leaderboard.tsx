@@ -0,0 +1,231 @@
+import React, { useState, useEffect } from 'react';
+import { Trophy, ArrowDown, Cloud, CloudOff, RefreshCw, HardDrive } from 'lucide-react';
+import { LevelPack, ScoreEntry, RankedEntry, LeaderboardKind, BoardRef, Language, SyncState } from '../types';
+import { CORE_PACK_ID, CUSTOM_PACK_ID } from '../constants';
+import { BOARD_ORDER, MAX_SCORES, formatRunTime } from '../services/leaderboard';
+import { LeaderboardProvider } from '../services/leaderboardProvider';
+import { t, formatDate, formatNumber, MessageKey } from '../services/i18n';
+
+interface LeaderboardProps {
+  pack: LevelPack;
+  local: LeaderboardProvider; // Device-wide boards
+  remote: LeaderboardProvider | null; // Online boards, when a server is configured
+  syncState: SyncState;
+  onRetrySync: () => void;
+  scoreRejected: boolean; // The score just saved did not verify and was kept off the online boards
+  profileName: string;
+  profileBests: ScoreEntry[];
+  language: Language;
+  onExit: () => void;
+}
+
+type Scope = 'DEVICE' | 'PROFILE' | 'ONLINE';
+
+type SortKey = 'RANK' | 'SCORE' | 'TIME' | 'AREA' | 'COMBO';
+
+const TABS: { kind: LeaderboardKind; label: MessageKey }[] = [
+  { kind: 'SCORE', label: 'score' },
+  { kind: 'TIME', label: 'board_best_time' },
+  { kind: 'AREA', label: 'board_best_area' }
+];
+
+// Column sorts, best first; RANK keeps the board's own order
+const SORTS: Record<Exclude<SortKey, 'RANK'>, (a: ScoreEntry, b: ScoreEntry) => number> = {
+  SCORE: BOARD_ORDER.SCORE,
+  TIME: BOARD_ORDER.TIME,
+  AREA: BOARD_ORDER.AREA,
+  COMBO: (a, b) => (b.maxCombo ?? 0) - (a.maxCombo ?? 0)
+};
+
+const SYNC_LABELS: Record<SyncState['status'], MessageKey> = {
+  LOCAL: 'sync_local',
+  SYNCED: 'sync_synced',
+  SYNCING: 'sync_syncing',
+  OFFLINE: 'sync_offline'
+};
+
+export const Leaderboard: React.FC<LeaderboardProps> = ({
+  pack, local, remote, syncState, onRetrySync, scoreRejected, profileName, profileBests, language, onExit
+}) => {
+  const [kind, setKind] = useState<LeaderboardKind>('SCORE');
+  const [scope, setScope] = useState<Scope>('DEVICE');
+  const [levelId, setLevelId] = useState(pack.levels[0].id);
+  const [sortKey, setSortKey] = useState<SortKey>('RANK');
+  const [board, setBoard] = useState<ScoreEntry[]>([]);
+  const [around, setAround] = useState<RankedEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Levels made in the editor only exist on this device
+  const canGoOnline = !!remote && pack.id !== CUSTOM_PACK_ID;
+  const scopes: Scope[] = [
+    'DEVICE',
+    ...(kind === 'SCORE' ? ['PROFILE' as const] : []),
+    ...(canGoOnline ? ['ONLINE' as const] : [])
+  ];
+  const activeScope = scopes.includes(scope) ? scope : 'DEVICE';
+
+  useEffect(() => {
+    if (activeScope === 'PROFILE') {
+      setBoard(profileBests);
+      setAround([]);
+      setError(null);
+      return;
+    }
+    const ref: BoardRef = kind === 'SCORE' ? { packId: pack.id, kind } : { packId: pack.id, kind, levelId };
+    const provider = activeScope === 'ONLINE' && remote ? remote : local;
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    Promise.all([
+      provider.fetchTop(ref, MAX_SCORES),
+      provider.remote ? provider.fetchAround(ref, profileName) : Promise.resolve([])
+    ])
+      .then(([top, mine]) => {
+        if (cancelled) return;
+        setBoard(top);
+        setAround(mine);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        setBoard([]);
+        setAround([]);
+        setError((err as Error).message);
+      })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [activeScope, kind, levelId, pack.id, local, remote, profileBests, profileName]);
+  // Keep each entry's rank on its board while showing another order
+  const ranked = board.map((entry, rank) => ({ entry, rank }));
+  if (sortKey !== 'RANK') ranked.sort((a, b) => SORTS[sortKey](a.entry, b.entry));
+
+  const today = new Date().toISOString().split('T')[0];
+
+  const tabClass = (active: boolean) =>
+    `px-3 py-1 font-bold text-xs rounded border-2 ${active ? 'bg-yellow-400 text-black border-yellow-400' : 'bg-slate-800 text-slate-400 border-slate-600 hover:border-slate-400'}`;
+
+  const sortHeader = (sort: SortKey, label: string, className = '') => (
+    <button
+      onClick={() => setSortKey(sortKey === sort ? 'RANK' : sort)}
+      className={`flex items-center gap-1 uppercase hover:text-white ${sortKey === sort ? 'text-yellow-400' : ''} ${className}`}
+    >
+      {label} {sortKey === sort && <ArrowDown size={10} />}
+    </button>
+  );
+
+  const renderRow = (entry: ScoreEntry, rank: number, key: React.Key) => (
+    <div
+      key={key}
+      title={t(language, 'board_entry', {
+        date: formatDate(language, entry.date),
+        continues: entry.continuesUsed ?? '-',
+        livesLost: entry.livesLost ?? '-'
+      })}
+      className={`grid grid-cols-[2rem_1fr_3rem_4rem_4rem_3rem] gap-2 items-center p-3 rounded hover:bg-slate-700 transition text-xs sm:text-sm ${entry.date === today ? 'bg-slate-600 border border-slate-500' : 'bg-slate-700/50'}`}
+    >
+      <span className={`font-bold text-center ${rank === 0 ? 'text-yellow-400' : rank === 1 ? 'text-slate-300' : 'text-orange-400'}`}>#{rank + 1}</span>
+      <span className="font-arcade tracking-wider truncate">{entry.playerName}</span>
+      <span className="text-slate-400">{entry.level}</span>
+      <span className="text-slate-300 font-mono">
+        {kind === 'AREA' ? `${entry.area ?? '--'}%` : formatRunTime(entry.time)}
+      </span>
+      <span className="text-white font-mono font-bold text-right">{formatNumber(language, entry.score)}</span>
+      <span className="text-cyan-300 font-mono text-right">{entry.maxCombo !== undefined ? `x${entry.maxCombo}` : '-'}</span>
+    </div>
+  );
+
+  // Only show "around me" when the player is not already in the top list
+  const showAround = around.length > 0 && !around.some(e => e.rank <= board.length && board[e.rank - 1]?.playerName === e.playerName);
+
+  return (
+    <div className="bg-slate-800 p-6 sm:p-8 rounded-xl max-w-2xl w-full border border-slate-700 mx-4 z-20">
+      <h2 className="text-2xl sm:text-3xl font-bold mb-6 text-center text-yellow-400 flex items-center justify-center gap-3">
+        <Trophy /> {t(language, 'menu_scores')}
+      </h2>
+      {pack.id !== CORE_PACK_ID && (
+        <div className="-mt-4 mb-4 text-center text-xs text-pink-300 font-arcade uppercase">{pack.name}</div>
+      )}
+
+      {/* Remote sync status */}
+      <div className="flex justify-center items-center gap-2 mb-4 text-[10px] font-bold uppercase">
+        <span
+          className={`flex items-center gap-1 px-2 py-0.5 rounded-full border ${syncState.status === 'OFFLINE' ? 'border-red-700 text-red-400' : 'border-slate-600 text-slate-400'}`}
+          title={syncState.lastError}
+        >
+          {syncState.status === 'LOCAL' ? <HardDrive size={12} /> : syncState.status === 'OFFLINE' ? <CloudOff size={12} /> : <Cloud size={12} />}
+          {t(language, SYNC_LABELS[syncState.status])}
+          {syncState.pending > 0 && ` · ${t(language, 'sync_pending', { count: syncState.pending })}`}
+        </span>
+        {syncState.status === 'OFFLINE' && (
+          <button onClick={onRetrySync} className="flex items-center gap-1 text-cyan-400 hover:text-white">
+            <RefreshCw size={12} /> {t(language, 'sync_retry')}
+          </button>
+        )}
+      </div>
+      {scoreRejected && (
+        <div className="-mt-2 mb-4 text-center text-[10px] font-bold uppercase text-red-400">{t(language, 'sync_rejected')}</div>
+      )}
+
+      <div className="flex justify-center gap-2 mb-3">
+        {TABS.map(tab => (
+          <button key={tab.kind} onClick={() => { setKind(tab.kind); setSortKey('RANK'); }} className={tabClass(kind === tab.kind)}>
+            {t(language, tab.label)}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap justify-center gap-2 mb-4">
+        {scopes.map(s => (
+          <button key={s} onClick={() => setScope(s)} className={tabClass(activeScope === s)}>
+            {s === 'DEVICE' ? t(language, 'board_device') : s === 'PROFILE' ? profileName : t(language, 'board_online')}
+          </button>
+        ))}
+        {kind !== 'SCORE' && (
+          <select
+            value={levelId}
+            onChange={(e) => setLevelId(Number(e.target.value))}
+            className="bg-slate-900 text-white text-xs font-bold rounded border-2 border-slate-600 px-2 py-1"
+          >
+            {pack.levels.map(l => (
+              <option key={l.id} value={l.id}>{t(language, 'level')} {l.id}: {l.name}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      <div className="grid grid-cols-[2rem_1fr_3rem_4rem_4rem_3rem] gap-2 px-3 pb-2 text-[10px] text-slate-500 font-bold">
+        {sortHeader('RANK', '#')}
+        <span className="uppercase">{t(language, 'board_name')}</span>
+        <span className="uppercase">{t(language, 'board_level')}</span>
+        {kind === 'AREA' ? sortHeader('AREA', t(language, 'area')) : sortHeader('TIME', t(language, 'time'))}
+        {sortHeader('SCORE', t(language, 'score'), 'justify-end')}
+        {sortHeader('COMBO', t(language, 'board_combo'), 'justify-end')}
+      </div>
+
+      {loading && (
+        <div className="text-center text-slate-500 text-sm py-6 animate-pulse">{t(language, 'board_loading')}</div>
+      )}
+      {!loading && error && (
+        <div className="text-center text-red-400 text-sm py-6">{error}</div>
+      )}
+      {!loading && !error && ranked.length === 0 && (
+        <div className="text-center text-slate-500 text-sm py-6">---</div>
+      )}
+      {!loading && (
+        <div className="space-y-2">
+          {ranked.map(({ entry, rank }) => renderRow(entry, rank, rank))}
+        </div>
+      )}
+      {!loading && showAround && (
+        <div className="mt-4 pt-4 border-t border-slate-700 space-y-2">
+          <div className="text-[10px] text-slate-500 font-bold uppercase text-center">{t(language, 'board_around')}</div>
+          {around.map(entry => renderRow(entry, entry.rank - 1, `around-${entry.rank}`))}
+        </div>
+      )}
+
+      <button onClick={onExit} className="mt-8 w-full py-3 bg-slate-700 rounded hover:bg-slate-600">
+        {t(language, 'exit')}
+      </button>
+    </div>
+  );
+};
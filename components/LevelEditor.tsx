@@ -0,0 +1,588 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Play, Save, Download, X, ImagePlus, Eraser, RotateCcw } from 'lucide-react';
+import { GameCanvas } from './GameCanvas';
+import {
+  GRID_WIDTH, GRID_HEIGHT, TILE_SIZE, COLOR_SAFE, COLOR_OBSTACLE, COLOR_BOSS,
+  ITEM_SPAWN_INTERVAL_MS, CORE_PACK_ID
+} from '../constants';
+import { LevelConfig, Point, Language, EffectsQuality, GameStats } from '../types';
+import { parseLevelPack, serializeLevelPack, downloadLevelPack, MUSIC_TRACK_COUNT } from '../services/levelPacks';
+import { InputManager } from '../services/inputManager';
+import { t } from '../services/i18n';
+
+interface LevelEditorProps {
+  inputManager: InputManager; // Steers the play-test
+  language: Language;
+  quality: EffectsQuality;
+  savedLevels: LevelConfig[]; // Levels already in the local custom pack
+  onSave: (level: LevelConfig) => void;
+  onExit: () => void;
+  onPlayTestChange: (playing: boolean) => void; // Whether a play-test is running (the gamepad steers it)
+}
+
+type Tool = 'REVEAL' | 'COVER' | 'OBSTACLE' | 'BOSS' | 'MINION';
+
+const TOOLS: { id: Tool; swatch: string }[] = [
+  { id: 'REVEAL', swatch: 'bg-transparent border-dashed' },
+  { id: 'COVER', swatch: 'bg-slate-900' },
+  { id: 'OBSTACLE', swatch: 'bg-slate-600' },
+  { id: 'BOSS', swatch: 'bg-rose-600 rounded-full' },
+  { id: 'MINION', swatch: 'bg-orange-400' }
+];
+
+const PAINT_CHAR: Partial<Record<Tool, string>> = { REVEAL: '0', COVER: '1', OBSTACLE: 'X' };
+
+const DRAFT_KEY = 'SIILVEER_PANIIC_EDITOR_DRAFT';
+const COLOR_MINION_SPAWN = '#fb923c'; // Orange 400
+
+// Dropped images are shrunk to the playfield size so they fit in localStorage
+const MAX_IMAGE_WIDTH = GRID_WIDTH * TILE_SIZE;
+const MAX_IMAGE_HEIGHT = GRID_HEIGHT * TILE_SIZE;
+
+const isBorder = (x: number, y: number) => x === 0 || y === 0 || x === GRID_WIDTH - 1 || y === GRID_HEIGHT - 1;
+
+const createMask = (): string[] =>
+  Array.from({ length: GRID_HEIGHT }, (_, y) =>
+    Array.from({ length: GRID_WIDTH }, (_, x) => (isBorder(x, y) ? '0' : '1')).join('')
+  );
+
+const createDraft = (): LevelConfig => ({
+  id: 1,
+  name: 'My Level',
+  imageUrl: '',
+  difficulty: 3,
+  bossSpeed: 0.12,
+  minRevealPercent: 80,
+  enemyCount: 2,
+  minionCount: 0,
+  itemSpawnIntervalMs: ITEM_SPAWN_INTERVAL_MS,
+  musicTrack: 0,
+  mask: createMask(),
+  bossSpawns: [],
+  minionSpawns: []
+});
+
+const loadDraft = (): LevelConfig => {
+  try {
+    const stored = localStorage.getItem(DRAFT_KEY);
+    return stored ? { ...createDraft(), ...JSON.parse(stored) } : createDraft();
+  } catch {
+    return createDraft();
+  }
+};
+
+const slugify = (name: string) => {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 34);
+  return !slug || slug === CORE_PACK_ID ? `${slug || 'custom'}-level` : slug;
+};
+
+const readImage = (file: File, language: Language): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onerror = () => reject(new Error(t(language, 'editor_image_unreadable')));
+  reader.onload = () => {
+    const img = new Image();
+    img.onerror = () => reject(new Error(t(language, 'editor_not_an_image')));
+    img.onload = () => {
+      const scale = Math.min(1, MAX_IMAGE_WIDTH / img.width, MAX_IMAGE_HEIGHT / img.height);
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(img.width * scale);
+      canvas.height = Math.round(img.height * scale);
+      canvas.getContext('2d')!.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/jpeg', 0.85));
+    };
+    img.src = reader.result as string;
+  };
+  reader.readAsDataURL(file);
+});
+
+/**
+ * Checks the level with the same validation used for pack files, so whatever
+ * the editor saves or exports loads back without surprises.
+ */
+const validateLevel = (level: LevelConfig): LevelConfig => {
+  const pack = parseLevelPack(
+    JSON.parse(serializeLevelPack({ id: 'editor', name: level.name || 'Editor', levels: [level] })),
+    document.baseURI
+  );
+  return pack.levels[0];
+};
+
+export const LevelEditor: React.FC<LevelEditorProps> = ({
+  inputManager, language, quality, savedLevels, onSave, onExit, onPlayTestChange
+}) => {
+  const [level, setLevel] = useState<LevelConfig>(loadDraft);
+  const [tool, setTool] = useState<Tool>('OBSTACLE');
+  const [brush, setBrush] = useState(1);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Play-testing
+  const [testLevel, setTestLevel] = useState<LevelConfig | null>(null);
+  const [testStats, setTestStats] = useState<GameStats>({ areaRevealed: 0, timeElapsed: 0, score: 0 });
+  const [testLives, setTestLives] = useState(3);
+  const [testResult, setTestResult] = useState<'CLEAR' | 'GAME_OVER' | null>(null);
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const imageRef = useRef<HTMLImageElement | null>(null);
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  const isPaintingRef = useRef(false);
+  const [imageVersion, setImageVersion] = useState(0);
+
+  const mask = level.mask ?? createMask();
+  const bossSpawns = level.bossSpawns ?? [];
+  const minionSpawns = level.minionSpawns ?? [];
+
+  // Autosave the draft so a reload never loses work
+  useEffect(() => {
+    try {
+      localStorage.setItem(DRAFT_KEY, JSON.stringify(level));
+    } catch {
+      setMessage(t(language, 'editor_draft_too_big'));
+    }
+  }, [level]);
+
+  const playTesting = testLevel !== null && testResult === null;
+  useEffect(() => {
+    if (!playTesting) return;
+    onPlayTestChange(true);
+    return () => onPlayTestChange(false);
+  }, [playTesting]);
+
+  useEffect(() => {
+    if (!level.imageUrl) {
+      imageRef.current = null;
+      setImageVersion(v => v + 1);
+      return;
+    }
+    const img = new Image();
+    img.onload = () => {
+      imageRef.current = img;
+      setImageVersion(v => v + 1);
+    };
+    img.src = level.imageUrl;
+  }, [level.imageUrl]);
+
+  // ---------------------------
+  // DRAW
+  // ---------------------------
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    const img = imageRef.current;
+    if (img) {
+      // Same "cover" fit the game uses for the background
+      const scale = Math.max(canvas.width / img.width, canvas.height / img.height);
+      const w = img.width * scale;
+      const h = img.height * scale;
+      ctx.drawImage(img, (canvas.width - w) / 2, (canvas.height - h) / 2, w, h);
+    }
+
+    for (let y = 0; y < GRID_HEIGHT; y++) {
+      for (let x = 0; x < GRID_WIDTH; x++) {
+        const tile = mask[y][x];
+        if (tile === '1') {
+          ctx.fillStyle = COLOR_SAFE;
+          ctx.globalAlpha = 0.6;
+          ctx.fillRect(x * TILE_SIZE, y * TILE_SIZE, TILE_SIZE, TILE_SIZE);
+          ctx.globalAlpha = 1;
+        } else if (tile === 'X') {
+          ctx.fillStyle = COLOR_OBSTACLE;
+          ctx.fillRect(x * TILE_SIZE, y * TILE_SIZE, TILE_SIZE, TILE_SIZE);
+        }
+      }
+    }
+
+    // Faint grid so single tiles are easy to hit
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.06)';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    for (let x = 1; x < GRID_WIDTH; x++) {
+      ctx.moveTo(x * TILE_SIZE + 0.5, 0);
+      ctx.lineTo(x * TILE_SIZE + 0.5, canvas.height);
+    }
+    for (let y = 1; y < GRID_HEIGHT; y++) {
+      ctx.moveTo(0, y * TILE_SIZE + 0.5);
+      ctx.lineTo(canvas.width, y * TILE_SIZE + 0.5);
+    }
+    ctx.stroke();
+
+    bossSpawns.forEach((p, i) => {
+      ctx.fillStyle = COLOR_BOSS;
+      ctx.beginPath();
+      ctx.arc(p.x * TILE_SIZE + TILE_SIZE / 2, p.y * TILE_SIZE + TILE_SIZE / 2, TILE_SIZE * 0.8, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.fillStyle = '#fff';
+      ctx.font = 'bold 9px monospace';
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(String(i + 1), p.x * TILE_SIZE + TILE_SIZE / 2, p.y * TILE_SIZE + TILE_SIZE / 2);
+    });
+    minionSpawns.forEach(p => {
+      ctx.fillStyle = COLOR_MINION_SPAWN;
+      ctx.fillRect(p.x * TILE_SIZE + 1, p.y * TILE_SIZE + 1, TILE_SIZE - 2, TILE_SIZE - 2);
+    });
+  }, [mask, bossSpawns, minionSpawns, imageVersion, testLevel]);
+
+  // ---------------------------
+  // PAINTING
+  // ---------------------------
+  const tileFromEvent = (e: React.PointerEvent<HTMLCanvasElement>): Point | null => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = Math.floor(((e.clientX - rect.left) / rect.width) * GRID_WIDTH);
+    const y = Math.floor(((e.clientY - rect.top) / rect.height) * GRID_HEIGHT);
+    if (x < 0 || y < 0 || x >= GRID_WIDTH || y >= GRID_HEIGHT) return null;
+    return { x, y };
+  };
+
+  const paint = (at: Point) => {
+    const char = PAINT_CHAR[tool];
+    if (!char) return;
+    const r = brush - 1;
+    setLevel(prev => {
+      const rows = (prev.mask ?? createMask()).slice();
+      for (let y = at.y - r; y <= at.y + r; y++) {
+        if (y < 0 || y >= GRID_HEIGHT) continue;
+        const row = rows[y].split('');
+        for (let x = at.x - r; x <= at.x + r; x++) {
+          // The border is always safe ground
+          if (x < 0 || x >= GRID_WIDTH || isBorder(x, y)) continue;
+          row[x] = char;
+        }
+        rows[y] = row.join('');
+      }
+      // Spawns that ended up on the wrong kind of tile are dropped
+      return {
+        ...prev,
+        mask: rows,
+        bossSpawns: (prev.bossSpawns ?? []).filter(p => rows[p.y][p.x] === '1'),
+        minionSpawns: (prev.minionSpawns ?? []).filter(p => rows[p.y][p.x] === '0')
+      };
+    });
+  };
+
+  const toggleSpawn = (at: Point) => {
+    const key = tool === 'BOSS' ? 'bossSpawns' : 'minionSpawns';
+    const required = tool === 'BOSS' ? '1' : '0';
+    const list = level[key] ?? [];
+    const existing = list.find(p => p.x === at.x && p.y === at.y);
+    if (existing) {
+      setLevel({ ...level, [key]: list.filter(p => p !== existing) });
+      return;
+    }
+    if (mask[at.y][at.x] !== required) {
+      setMessage(t(language, tool === 'BOSS' ? 'editor_boss_spawn_tile' : 'editor_minion_spawn_tile'));
+      return;
+    }
+    setLevel({ ...level, [key]: [...list, at] });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const at = tileFromEvent(e);
+    if (!at) return;
+    setMessage(null);
+    if (tool === 'BOSS' || tool === 'MINION') {
+      toggleSpawn(at);
+      return;
+    }
+    isPaintingRef.current = true;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    paint(at);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!isPaintingRef.current) return;
+    const at = tileFromEvent(e);
+    if (at) paint(at);
+  };
+
+  const stopPainting = () => {
+    isPaintingRef.current = false;
+  };
+
+  // ---------------------------
+  // IMAGE
+  // ---------------------------
+  const loadImage = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const imageUrl = await readImage(file, language);
+      setLevel(prev => ({ ...prev, imageUrl }));
+      setMessage(null);
+    } catch (err) {
+      setMessage((err as Error).message);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    loadImage(e.dataTransfer.files?.[0]);
+  };
+
+  // ---------------------------
+  // ACTIONS
+  // ---------------------------
+  const setField = <K extends keyof LevelConfig>(key: K, value: LevelConfig[K]) => {
+    setLevel(prev => ({ ...prev, [key]: value }));
+  };
+
+  const withValidLevel = (action: (valid: LevelConfig) => void) => {
+    try {
+      action({ ...validateLevel(level), imageUrl: level.imageUrl });
+    } catch (err) {
+      setMessage((err as Error).message);
+    }
+  };
+
+  const startTest = () => withValidLevel(valid => {
+    setTestStats({ areaRevealed: 0, timeElapsed: 0, score: 0 });
+    setTestLives(3);
+    setTestResult(null);
+    setTestLevel({ ...valid }); // New object so GameCanvas restarts on retry
+  });
+
+  const handleSave = () => withValidLevel(valid => {
+    onSave(valid);
+    setMessage(t(language, 'editor_saved', { name: valid.name }));
+  });
+
+  const handleExport = () => withValidLevel(valid => {
+    downloadLevelPack({ id: slugify(valid.name), name: valid.name, levels: [valid] });
+  });
+
+  const openSaved = (name: string) => {
+    const saved = savedLevels.find(l => l.name === name);
+    if (saved) setLevel({ ...createDraft(), ...saved, mask: saved.mask ?? createMask() });
+  };
+
+  const resetDraft = () => {
+    if (window.confirm(t(language, 'editor_new_confirm'))) setLevel(createDraft());
+  };
+
+  const revealedPercent = (() => {
+    let revealed = 0;
+    let obstacles = 0;
+    for (let y = 1; y < GRID_HEIGHT - 1; y++) {
+      for (let x = 1; x < GRID_WIDTH - 1; x++) {
+        if (mask[y][x] === '0') revealed++;
+        else if (mask[y][x] === 'X') obstacles++;
+      }
+    }
+    return (revealed / Math.max(1, (GRID_WIDTH - 2) * (GRID_HEIGHT - 2) - obstacles)) * 100;
+  })();
+
+  const inputClass = "w-full bg-slate-900 border border-slate-600 rounded px-2 py-1 text-sm text-white font-mono";
+  const labelClass = "flex flex-col gap-1 text-[10px] uppercase text-slate-400 font-bold";
+  const btnClass = "flex items-center justify-center gap-2 px-3 py-2 rounded font-bold text-xs uppercase transition-colors";
+
+  // ---------------------------
+  // PLAY-TEST
+  // ---------------------------
+  if (testLevel) {
+    const noop = () => {};
+    return (
+      <div className="w-full flex-1 flex flex-col items-center min-h-0 z-20">
+        <div className="w-full max-w-5xl flex justify-between items-center bg-slate-800 px-3 py-2 rounded-t-lg border border-slate-700 text-xs font-mono">
+          <span className="text-pink-300 font-bold uppercase">{t(language, 'editor_play_test_title', { name: testLevel.name })}</span>
+          <span>{t(language, 'lives')} <span className="text-white">{testLives}</span></span>
+          <span>{t(language, 'area')} <span className={testStats.areaRevealed >= testLevel.minRevealPercent ? 'text-green-400' : 'text-white'}>
+            {testStats.areaRevealed.toFixed(1)}% / {testLevel.minRevealPercent}%
+          </span></span>
+          <button onClick={() => setTestLevel(null)} className={`${btnClass} bg-slate-700 hover:bg-slate-600 text-white`}>
+            <X size={14} /> {t(language, 'editor_back')}
+          </button>
+        </div>
+        <div className="relative w-full flex-1 flex items-center justify-center min-h-0">
+          <GameCanvas
+            level={testLevel}
+            initialScore={0}
+            onGameOver={() => setTestResult('GAME_OVER')}
+            onLevelComplete={() => setTestResult('CLEAR')}
+            onStatsUpdate={setTestStats}
+            onLivesChange={setTestLives}
+            onAreaCapture={noop}
+            onItemCollect={noop}
+            onProximityUpdate={noop}
+            inputManager={inputManager}
+            isPaused={testResult !== null}
+            language={language}
+            quality={quality}
+          />
+          {testResult && (
+            <div className="absolute inset-0 z-30 flex items-center justify-center bg-black/60">
+              <div className="bg-slate-800 border border-slate-600 rounded-xl p-6 text-center flex flex-col gap-3">
+                <h2 className={`text-3xl font-black ${testResult === 'CLEAR' ? 'text-green-400' : 'text-red-500'}`}>
+                  {t(language, testResult === 'CLEAR' ? 'editor_level_clear' : 'game_over')}
+                </h2>
+                <div className="flex gap-2">
+                  <button onClick={startTest} className={`${btnClass} bg-pink-600 hover:bg-pink-500 text-white`}>
+                    <RotateCcw size={14} /> {t(language, 'retry')}
+                  </button>
+                  <button onClick={() => setTestLevel(null)} className={`${btnClass} bg-slate-700 hover:bg-slate-600 text-white`}>
+                    {t(language, 'editor_back')}
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  // ---------------------------
+  // EDITOR
+  // ---------------------------
+  return (
+    <div className="w-full max-w-6xl flex-1 flex flex-col lg:flex-row gap-4 min-h-0 overflow-y-auto z-20 p-2">
+      {/* Grid */}
+      <div className="flex-1 flex flex-col gap-2 min-w-0">
+        <div
+          className="relative w-full border-2 border-slate-600 rounded overflow-hidden bg-black"
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={handleDrop}
+        >
+          <canvas
+            ref={canvasRef}
+            width={GRID_WIDTH * TILE_SIZE}
+            height={GRID_HEIGHT * TILE_SIZE}
+            className="block w-full h-auto cursor-crosshair touch-none"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={stopPainting}
+            onPointerLeave={stopPainting}
+          />
+          {!level.imageUrl && (
+            <div className="absolute inset-0 flex items-center justify-center pointer-events-none text-slate-400 font-arcade text-xs text-center p-4">
+              {t(language, 'editor_drop_image')}
+            </div>
+          )}
+        </div>
+
+        <div className="flex flex-wrap gap-2 items-center">
+          {TOOLS.map(option => (
+            <button
+              key={option.id}
+              onClick={() => setTool(option.id)}
+              className={`${btnClass} border ${tool === option.id ? 'bg-yellow-400 text-black border-yellow-400' : 'bg-slate-800 text-slate-300 border-slate-600 hover:border-slate-400'}`}
+            >
+              <span className={`inline-block w-3 h-3 border border-slate-400 ${option.swatch}`} /> {t(language, `editor_tool_${option.id}`)}
+            </button>
+          ))}
+          <span className="text-xs text-slate-400 ml-2">{t(language, 'editor_brush')}</span>
+          {[1, 2, 3].map(size => (
+            <button
+              key={size}
+              onClick={() => setBrush(size)}
+              className={`px-2 py-1 text-xs font-bold rounded border ${brush === size ? 'bg-yellow-400 text-black border-yellow-400' : 'bg-slate-900 text-slate-400 border-slate-600'}`}
+            >
+              {size * 2 - 1}
+            </button>
+          ))}
+          <span className="ml-auto text-xs font-mono text-slate-400">
+            {t(language, 'editor_pre_revealed')} <span className={revealedPercent >= level.minRevealPercent ? 'text-red-400' : 'text-white'}>{revealedPercent.toFixed(1)}%</span>
+          </span>
+        </div>
+
+        {message && (
+          <pre className="whitespace-pre-wrap bg-slate-900 border border-yellow-600 text-yellow-300 text-xs p-2 rounded font-mono">{message}</pre>
+        )}
+      </div>
+
+      {/* Settings */}
+      <div className="w-full lg:w-72 shrink-0 bg-slate-800 border border-slate-700 rounded-lg p-3 flex flex-col gap-3">
+        <h2 className="font-arcade text-sm text-yellow-400 text-center">{t(language, 'editor_title')}</h2>
+
+        <label className={labelClass}>
+          {t(language, 'editor_name')}
+          <input className={inputClass} value={level.name} maxLength={40} onChange={(e) => setField('name', e.target.value)} />
+        </label>
+
+        <button
+          onClick={() => imageInputRef.current?.click()}
+          className={`${btnClass} bg-slate-700 hover:bg-slate-600 text-white`}
+        >
+          <ImagePlus size={14} /> {t(language, level.imageUrl ? 'editor_change_image' : 'editor_choose_image')}
+        </button>
+        <input ref={imageInputRef} type="file" accept="image/*" className="hidden" onChange={(e) => loadImage(e.target.files?.[0])} />
+
+        <div className="grid grid-cols-2 gap-2">
+          <label className={labelClass}>
+            {t(language, 'editor_boss_speed')}
+            <input type="number" step={0.01} min={0.01} max={1} className={inputClass} value={level.bossSpeed}
+              onChange={(e) => setField('bossSpeed', Number(e.target.value))} />
+          </label>
+          <label className={labelClass}>
+            {t(language, 'editor_goal')}
+            <input type="number" min={1} max={99} className={inputClass} value={level.minRevealPercent}
+              onChange={(e) => setField('minRevealPercent', Number(e.target.value))} />
+          </label>
+          <label className={labelClass}>
+            {t(language, 'editor_bosses')}
+            <input type="number" min={1} max={10} className={inputClass} value={level.enemyCount}
+              onChange={(e) => setField('enemyCount', Number(e.target.value))} />
+          </label>
+          <label className={labelClass}>
+            {t(language, 'editor_minions')}
+            <input type="number" min={0} max={3} className={inputClass} value={level.minionCount ?? 0}
+              onChange={(e) => setField('minionCount', Number(e.target.value))} />
+          </label>
+          <label className={labelClass}>
+            {t(language, 'editor_difficulty')}
+            <input type="number" min={0} max={10} className={inputClass} value={level.difficulty}
+              onChange={(e) => setField('difficulty', Number(e.target.value))} />
+          </label>
+          <label className={labelClass}>
+            {t(language, 'editor_item_interval')}
+            <input type="number" min={0} step={0.5} className={inputClass} value={(level.itemSpawnIntervalMs ?? ITEM_SPAWN_INTERVAL_MS) / 1000}
+              onChange={(e) => setField('itemSpawnIntervalMs', Math.round(Number(e.target.value) * 1000))} />
+          </label>
+        </div>
+
+        <label className={labelClass}>
+          {t(language, 'editor_music')}
+          <select className={inputClass} value={level.musicTrack ?? 0} onChange={(e) => setField('musicTrack', Number(e.target.value))}>
+            {Array.from({ length: MUSIC_TRACK_COUNT }, (_, i) => (
+              <option key={i} value={i}>{t(language, 'editor_track', { number: i + 1 })}</option>
+            ))}
+          </select>
+        </label>
+
+        <p className="text-[10px] text-slate-500 leading-snug">
+          {t(language, 'editor_spawn_hint')}
+        </p>
+
+        <div className="flex flex-col gap-2 mt-auto">
+          <button onClick={startTest} className={`${btnClass} bg-green-600 hover:bg-green-500 text-white py-3`}>
+            <Play size={16} /> {t(language, 'editor_play_test')}
+          </button>
+          <div className="grid grid-cols-2 gap-2">
+            <button onClick={handleSave} className={`${btnClass} bg-pink-600 hover:bg-pink-500 text-white`}>
+              <Save size={14} /> {t(language, 'editor_save')}
+            </button>
+            <button onClick={handleExport} className={`${btnClass} bg-indigo-600 hover:bg-indigo-500 text-white`}>
+              <Download size={14} /> {t(language, 'editor_export')}
+            </button>
+          </div>
+          {savedLevels.length > 0 && (
+            <select className={inputClass} value="" onChange={(e) => openSaved(e.target.value)}>
+              <option value="" disabled>{t(language, 'editor_open_saved')}</option>
+              {savedLevels.map(l => <option key={l.id} value={l.name}>{l.name}</option>)}
+            </select>
+          )}
+          <div className="grid grid-cols-2 gap-2">
+            <button onClick={resetDraft} className={`${btnClass} bg-slate-700 hover:bg-slate-600 text-slate-300`}>
+              <Eraser size={14} /> {t(language, 'editor_new')}
+            </button>
+            <button onClick={onExit} className={`${btnClass} bg-slate-700 hover:bg-slate-600 text-slate-300`}>
+              <X size={14} /> {t(language, 'exit')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { Users, UserPlus, Trash2, Check, X } from 'lucide-react';
+import { Language, PlayerProfile } from '../types';
+import { MAX_PROFILE_NAME } from '../services/saveData';
+import { t } from '../services/i18n';
+
+interface ProfileScreenProps {
+  profiles: PlayerProfile[];
+  activeProfileId: string;
+  language: Language; // The active profile's
+  onSelect: (id: string) => void;
+  onCreate: (name: string) => void;
+  onDelete: (id: string) => void;
+  onBack: () => void;
+}
+
+export const ProfileScreen: React.FC<ProfileScreenProps> = ({
+  profiles, activeProfileId, language, onSelect, onCreate, onDelete, onBack
+}) => {
+  const [newName, setNewName] = useState('');
+
+  const nameTaken = profiles.some(p => p.name.toLowerCase() === newName.trim().toLowerCase());
+  const canCreate = newName.trim().length > 0 && !nameTaken;
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canCreate) return;
+    onCreate(newName.trim().toUpperCase());
+    setNewName('');
+  };
+
+  return (
+    <div className="bg-slate-800 p-6 sm:p-8 rounded-xl max-w-lg w-full border border-slate-700 mx-4 z-20 flex flex-col gap-6">
+      <h2 className="text-2xl sm:text-3xl font-bold text-center text-yellow-400 flex items-center justify-center gap-3">
+        <Users /> {t(language, 'profiles_title')}
+      </h2>
+
+      <div className="flex flex-col gap-2">
+        {profiles.map((p: PlayerProfile) => {
+          const isActive = p.id === activeProfileId;
+          const unlocked = Object.values(p.unlocks).reduce((sum: number, ids: number[]) => sum + ids.length, 0);
+          return (
+            <div
+              key={p.id}
+              className={`flex items-center gap-3 p-3 rounded border ${isActive ? 'bg-slate-700 border-yellow-400' : 'bg-slate-900 border-slate-700'}`}
+            >
+              <button onClick={() => onSelect(p.id)} className="flex-1 flex items-center gap-3 text-left">
+                <span className="w-5 text-yellow-400">{isActive && <Check size={16} />}</span>
+                <span className="font-arcade tracking-wider text-white">{p.name}</span>
+                <span className="ml-auto text-[10px] text-slate-500 font-mono uppercase">
+                  {p.language} · {t(language, 'profile_unlocked', { count: unlocked })}
+                </span>
+              </button>
+              <button
+                onClick={() => onDelete(p.id)}
+                disabled={profiles.length <= 1}
+                className="text-slate-600 hover:text-red-400 disabled:opacity-30 disabled:hover:text-slate-600"
+                title={t(language, 'profile_delete')}
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      <form onSubmit={handleCreate} className="flex gap-2">
+        <input
+          value={newName}
+          maxLength={MAX_PROFILE_NAME}
+          onChange={(e) => setNewName(e.target.value.toUpperCase())}
+          placeholder={t(language, 'profile_new')}
+          className="flex-1 bg-black text-white font-arcade text-sm px-3 py-2 rounded border-2 border-slate-600 focus:border-yellow-400 outline-none uppercase"
+        />
+        <button
+          type="submit"
+          disabled={!canCreate}
+          className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-500 disabled:bg-slate-700 disabled:text-slate-500 text-white font-bold text-xs uppercase rounded"
+          title={t(language, nameTaken ? 'profile_name_taken' : 'profile_create')}
+        >
+          <UserPlus size={16} /> {t(language, 'profile_add')}
+        </button>
+      </form>
+
+      <button onClick={onBack} className="w-full py-3 bg-slate-700 rounded hover:bg-slate-600 flex items-center justify-center gap-2">
+        <X size={16} /> {t(language, 'back')}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,84 @@
+import React from 'react';
+import { Play, Pause, Download, X, RotateCcw } from 'lucide-react';
+import { SIM_TICK_MS } from '../constants';
+import { GameStats, Language } from '../types';
+import { t, formatNumber } from '../services/i18n';
+
+interface ReplayControlsProps {
+  tick: number;
+  totalTicks: number;
+  isPaused: boolean;
+  speed: number;
+  stats: GameStats;
+  language: Language;
+  onTogglePause: () => void;
+  onSeek: (tick: number) => void;
+  onSpeedChange: (speed: number) => void;
+  onDownload: () => void;
+  onExit: () => void;
+}
+
+const SPEEDS = [1, 2, 4];
+
+const formatTime = (ticks: number) => {
+  const seconds = (ticks * SIM_TICK_MS) / 1000;
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${s.toString().padStart(2, '0')}`;
+};
+
+export const ReplayControls: React.FC<ReplayControlsProps> = ({
+  tick, totalTicks, isPaused, speed, stats, language,
+  onTogglePause, onSeek, onSpeedChange, onDownload, onExit
+}) => {
+  const btnClass = "p-2 rounded-full bg-slate-700 hover:bg-slate-600 text-white transition-colors";
+
+  return (
+    <div className="w-full max-w-5xl mt-3 bg-slate-800 border border-slate-700 rounded-lg p-3 flex flex-col gap-2 shrink-0 z-20">
+      <div className="flex items-center gap-3">
+        <button onClick={onTogglePause} className={btnClass} aria-label={t(language, isPaused ? 'replay_play' : 'pause')}>
+          {isPaused ? <Play size={18} /> : <Pause size={18} />}
+        </button>
+        <button onClick={() => onSeek(0)} className={btnClass} aria-label={t(language, 'replay_restart')}>
+          <RotateCcw size={18} />
+        </button>
+
+        <span className="font-mono text-xs text-slate-300 w-12 text-right">{formatTime(tick)}</span>
+        <input
+          type="range"
+          min={0}
+          max={totalTicks}
+          value={tick}
+          onChange={(e) => onSeek(Number(e.target.value))}
+          className="flex-1 accent-pink-500"
+        />
+        <span className="font-mono text-xs text-slate-400 w-12">{formatTime(totalTicks)}</span>
+
+        <div className="flex gap-1">
+          {SPEEDS.map(s => (
+            <button
+              key={s}
+              onClick={() => onSpeedChange(s)}
+              className={`px-2 py-1 text-xs font-bold rounded border ${speed === s ? 'bg-yellow-400 text-black border-yellow-400' : 'bg-slate-900 text-slate-400 border-slate-600'}`}
+            >
+              {s}x
+            </button>
+          ))}
+        </div>
+
+        <button onClick={onDownload} className={btnClass} title={t(language, 'download_replay')}>
+          <Download size={18} />
+        </button>
+        <button onClick={onExit} className={btnClass} aria-label={t(language, 'replay_exit')}>
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="flex justify-center gap-6 text-xs font-mono text-slate-400">
+        <span>{t(language, 'replay')}</span>
+        <span>{t(language, 'area')} <span className="text-white">{stats.areaRevealed.toFixed(1)}%</span></span>
+        <span>{t(language, 'score')} <span className="text-yellow-400">{formatNumber(language, stats.score)}</span></span>
+      </div>
+    </div>
+  );
+};
@@ -1,17 +1,22 @@
 import React, { useEffect, useRef, useState, useImperativeHandle, forwardRef } from 'react';
 import { Volume2, VolumeX } from 'lucide-react';
-import { GameStatus } from '../types';
+import { GameStatus, ItemType, Language } from '../types';
+import { t } from '../services/i18n';
 
 export interface RetroJukeboxRef {
   playDamageSound: () => void;
   playCaptureSound: () => void;
-  playItemSound: () => void;
+  playItemSound: (type?: ItemType) => void;
+  playAchievementSound: () => void;
   setProximityIntensity: (intensity: number) => void;
 }
 
 interface RetroJukeboxProps {
   levelIndex: number;
+  musicTrack?: number; // Explicit song for the level, overrides the level-based pick
   gameStatus: GameStatus; // Added to track Game Over
+  volume?: number; // 0..1, applied to music and sound effects alike
+  language: Language;
 }
 
 // Frequencies
@@ -67,9 +72,11 @@ const GAME_OVER_SONG = {
   bass: [NOTE.C3, NOTE.G3, NOTE.Eb4, NOTE.C3]
 };
 
-export const RetroJukebox = forwardRef<RetroJukeboxRef, RetroJukeboxProps>(({ levelIndex, gameStatus }, ref) => {
+export const RetroJukebox = forwardRef<RetroJukeboxRef, RetroJukeboxProps>(({ levelIndex, musicTrack, gameStatus, volume = 1, language }, ref) => {
   const [isPlaying, setIsPlaying] = useState(false);
   const audioContextRef = useRef<AudioContext | null>(null);
+  // Every sound goes through this node on its way to the speakers
+  const masterGainRef = useRef<GainNode | null>(null);
   
   // Music Refs
   const nextNoteTimeRef = useRef<number>(0);
@@ -89,7 +96,9 @@ export const RetroJukebox = forwardRef<RetroJukeboxRef, RetroJukeboxProps>(({ le
           currentSongRef.current = GAME_OVER_SONG;
       } else {
           // Default level music
-          const songIndex = Math.min(Math.floor(levelIndex / 2), SONGS.length - 1);
+          const songIndex = musicTrack !== undefined
+            ? Math.min(musicTrack, SONGS.length - 1)
+            : Math.min(Math.floor(levelIndex / 2), SONGS.length - 1);
           currentSongRef.current = SONGS[songIndex];
       }
       
@@ -98,7 +107,13 @@ export const RetroJukebox = forwardRef<RetroJukeboxRef, RetroJukeboxProps>(({ le
       melodyIndexRef.current = 0;
       bassIndexRef.current = 0;
 
-  }, [levelIndex, gameStatus]);
+  }, [levelIndex, musicTrack, gameStatus]);
+
+  useEffect(() => {
+      if (masterGainRef.current) masterGainRef.current.gain.value = volume;
+  }, [volume]);
+
+  const output = (ctx: AudioContext) => masterGainRef.current ?? ctx.destination;
 
   useImperativeHandle(ref, () => ({
     playDamageSound: () => {
@@ -109,9 +124,13 @@ export const RetroJukebox = forwardRef<RetroJukeboxRef, RetroJukeboxProps>(({ le
       if (!audioContextRef.current || !isPlaying) return;
       playSfx('capture');
     },
-    playItemSound: () => {
+    playItemSound: (type: ItemType = 'SCORE') => {
       if (!audioContextRef.current || !isPlaying) return;
-      playSfx('item');
+      playItemSfx(type);
+    },
+    playAchievementSound: () => {
+      if (!audioContextRef.current || !isPlaying) return;
+      playAchievementJingle();
     },
     setProximityIntensity: (intensity: number) => {
        if (!audioContextRef.current || !isPlaying) return;
@@ -159,7 +178,7 @@ export const RetroJukebox = forwardRef<RetroJukeboxRef, RetroJukeboxProps>(({ le
 
       osc.connect(filter);
       filter.connect(gain);
-      gain.connect(ctx.destination);
+      gain.connect(output(ctx));
       
       osc.start();
 
@@ -188,7 +207,7 @@ export const RetroJukebox = forwardRef<RetroJukeboxRef, RetroJukeboxProps>(({ le
     const gain = ctx.createGain();
 
     osc.connect(gain);
-    gain.connect(ctx.destination);
+    gain.connect(output(ctx));
 
     const now = ctx.currentTime;
 
@@ -233,6 +252,42 @@ export const RetroJukebox = forwardRef<RetroJukeboxRef, RetroJukeboxProps>(({ le
     }
   };
 
+  // Each power-up gets its own short motif so players learn them by ear
+  const playItemSfx = (type: ItemType) => {
+    if (!audioContextRef.current) return;
+    const now = audioContextRef.current.currentTime;
+
+    switch (type) {
+      case 'SCORE':
+        playSfx('item');
+        break;
+      case 'LIFE':
+        [NOTE.C5, NOTE.E5, NOTE.G5, NOTE.C6].forEach((f, i) => playTone(f, 0.12, now + i * 0.07, 'square', 0.06));
+        break;
+      case 'FREEZE':
+        [NOTE.E6, NOTE.B5, NOTE.E6, NOTE.B5].forEach((f, i) => playTone(f, 0.1, now + i * 0.05, 'triangle', 0.08));
+        break;
+      case 'SLOW':
+        [NOTE.G4, NOTE.E4, NOTE.C4].forEach((f, i) => playTone(f, 0.2, now + i * 0.12, 'triangle', 0.1));
+        break;
+      case 'SHIELD':
+        [NOTE.C4, NOTE.G4, NOTE.C5].forEach((f, i) => playTone(f, 0.15, now + i * 0.06, 'sawtooth', 0.04));
+        break;
+      case 'CUT_THROUGH':
+        [NOTE.A4, NOTE.D5, NOTE.A5].forEach((f, i) => playTone(f, 0.08, now + i * 0.04, 'square', 0.05));
+        break;
+    }
+  };
+
+  // Short victory fanfare for unlocked achievements
+  const playAchievementJingle = () => {
+    if (!audioContextRef.current) return;
+    const now = audioContextRef.current.currentTime;
+    [NOTE.G4, NOTE.C5, NOTE.E5, NOTE.G5].forEach((f, i) => playTone(f, 0.12, now + i * 0.09, 'square', 0.07));
+    playTone(NOTE.C6, 0.45, now + 0.36, 'square', 0.07);
+    playTone(NOTE.C4, 0.6, now + 0.36, 'triangle', 0.1);
+  };
+
   const toggleMusic = () => {
     if (isPlaying) {
       if (audioContextRef.current) {
@@ -243,6 +298,9 @@ export const RetroJukebox = forwardRef<RetroJukeboxRef, RetroJukeboxProps>(({ le
     } else {
       if (!audioContextRef.current) {
         audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
+        masterGainRef.current = audioContextRef.current.createGain();
+        masterGainRef.current.gain.value = volume;
+        masterGainRef.current.connect(audioContextRef.current.destination);
         nextNoteTimeRef.current = audioContextRef.current.currentTime + 0.1;
         scheduler();
         startDrone(audioContextRef.current); // Init drone
@@ -263,7 +321,7 @@ export const RetroJukebox = forwardRef<RetroJukeboxRef, RetroJukeboxProps>(({ le
     osc.frequency.value = freq;
 
     osc.connect(gain);
-    gain.connect(audioContextRef.current.destination);
+    gain.connect(output(audioContextRef.current));
 
     gain.gain.setValueAtTime(vol, time);
     gain.gain.exponentialRampToValueAtTime(0.01, time + duration - 0.05);
@@ -323,7 +381,7 @@ export const RetroJukebox = forwardRef<RetroJukeboxRef, RetroJukeboxProps>(({ le
     <button 
       onClick={toggleMusic}
       className="fixed bottom-4 right-4 z-50 p-3 bg-slate-800/80 hover:bg-slate-700 text-yellow-400 border-2 border-slate-600 rounded-full shadow-lg transition-transform hover:scale-110"
-      title={isPlaying ? "Mute Music & SFX" : "Enable Music & SFX"}
+      title={t(language, isPlaying ? 'music_mute' : 'music_enable')}
     >
       {isPlaying ? <Volume2 size={20} /> : <VolumeX size={20} />}
     </button>
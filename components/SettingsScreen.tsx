@@ -0,0 +1,226 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Settings, Download, Upload, Trash2, X, Keyboard, Volume2, Languages, Smartphone, Sparkles } from 'lucide-react';
+import { ControlAction, KeyBindings, Language, PlayerStats, TouchLayout } from '../types';
+import { formatPlayTime } from '../services/playerStats';
+import { t, getLocale, formatNumber, LANGUAGES } from '../services/i18n';
+import {
+  BINDING_PRESETS, BINDING_SLOTS, BindingPreset, CONTROL_ACTIONS, RESERVED_KEYS, bindKey, keyLabel, unboundActions
+} from '../services/controls';
+
+interface SettingsScreenProps {
+  profileName: string;
+  stats: PlayerStats;
+  language: Language;
+  onLanguageChange: (language: Language) => void;
+  volume: number;
+  onVolumeChange: (volume: number) => void;
+  reducedEffects: boolean;
+  onReducedEffectsChange: (reduced: boolean) => void;
+  touchLayout: TouchLayout;
+  onTouchLayoutChange: (layout: TouchLayout) => void;
+  keepMoving: boolean;
+  onKeepMovingChange: (keepMoving: boolean) => void;
+  keyBindings: KeyBindings;
+  onKeyBindingsChange: (bindings: KeyBindings) => void;
+  onExportProfile: () => void;
+  onImportProfile: (file: File) => void;
+  onResetProgress: () => void;
+  onBack: () => void;
+}
+
+const TOUCH_LAYOUTS: TouchLayout[] = ['LEFT', 'RIGHT'];
+
+export const SettingsScreen: React.FC<SettingsScreenProps> = ({
+  profileName, stats, language, onLanguageChange, volume, onVolumeChange, reducedEffects, onReducedEffectsChange,
+  touchLayout, onTouchLayoutChange, keepMoving, onKeepMovingChange, keyBindings, onKeyBindingsChange,
+  onExportProfile, onImportProfile, onResetProgress, onBack
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const actionLabel = (action: ControlAction) => t(language, `action_${action}`);
+  // Slot waiting for a key press, if any
+  const [capturing, setCapturing] = useState<{ action: ControlAction; slot: number } | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // App ignores the keyboard on this screen, so Escape and key capture are handled here
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const key = e.key.toLowerCase();
+      if (!capturing) {
+        if (key === 'escape') onBack();
+        return;
+      }
+      e.preventDefault();
+      if (RESERVED_KEYS.includes(key)) {
+        setCapturing(null);
+        return;
+      }
+      const result = bindKey(keyBindings, capturing.action, capturing.slot, key);
+      onKeyBindingsChange(result.bindings);
+      setNotice(result.conflict
+        ? t(language, 'controls_conflict', { key: keyLabel(key), action: actionLabel(result.conflict) })
+        : null);
+      setCapturing(null);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [capturing, keyBindings, language, onKeyBindingsChange, onBack]);
+
+  const applyPreset = (preset: BindingPreset) => {
+    onKeyBindingsChange(BINDING_PRESETS[preset]);
+    setCapturing(null);
+    setNotice(null);
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow importing the same file twice
+    if (file) onImportProfile(file);
+  };
+
+  const unbound = unboundActions(keyBindings);
+  const btnClass = "flex items-center justify-center gap-2 px-4 py-3 rounded-lg font-bold text-xs uppercase transition-colors border";
+  const choiceClass = (active: boolean) =>
+    `px-3 py-1 font-bold text-xs rounded border-2 ${active ? 'bg-yellow-400 text-black border-yellow-400' : 'bg-slate-800 text-slate-400 border-slate-600 hover:border-slate-400'}`;
+
+  return (
+    <div className="bg-slate-800 p-6 sm:p-8 rounded-xl max-w-lg w-full max-h-full overflow-y-auto border border-slate-700 mx-4 z-20 flex flex-col gap-6">
+      <h2 className="text-2xl sm:text-3xl font-bold text-center text-yellow-400 flex items-center justify-center gap-3">
+        <Settings /> {t(language, 'settings_title')}
+      </h2>
+
+      <section className="flex flex-col gap-2">
+        <h3 className="text-xs font-arcade text-slate-400 uppercase">{t(language, 'settings_profile')}: <span className="text-yellow-300">{profileName}</span></h3>
+        <div className="grid grid-cols-3 gap-2 text-center font-mono">
+          <div className="bg-slate-900 rounded p-2">
+            <div className="text-lg text-white">{formatNumber(language, stats.levelsPlayed)}</div>
+            <div className="text-[10px] text-slate-500 uppercase">{t(language, 'settings_played')}</div>
+          </div>
+          <div className="bg-slate-900 rounded p-2">
+            <div className="text-lg text-green-400">{formatNumber(language, stats.levelsCompleted)}</div>
+            <div className="text-[10px] text-slate-500 uppercase">{t(language, 'settings_cleared')}</div>
+          </div>
+          <div className="bg-slate-900 rounded p-2">
+            <div className="text-lg text-cyan-300">{formatPlayTime(stats.timePlayed)}</div>
+            <div className="text-[10px] text-slate-500 uppercase">{t(language, 'time')}</div>
+          </div>
+        </div>
+      </section>
+
+      <section className="flex flex-col gap-3">
+        <div className="flex items-center justify-between gap-2">
+          <h3 className="text-xs font-arcade text-slate-400 uppercase flex items-center gap-2"><Languages size={14} /> {t(language, 'settings_language')}</h3>
+          <div className="flex flex-wrap justify-end gap-2">
+            {LANGUAGES.map(lang => (
+              <button key={lang} onClick={() => onLanguageChange(lang)} className={choiceClass(language === lang)} title={getLocale(lang).name}>
+                {lang}
+              </button>
+            ))}
+          </div>
+        </div>
+        <label className="flex items-center justify-between gap-4">
+          <span className="text-xs font-arcade text-slate-400 uppercase flex items-center gap-2"><Volume2 size={14} /> {t(language, 'settings_volume')}</span>
+          <input
+            type="range" min={0} max={100} step={5}
+            value={Math.round(volume * 100)}
+            onChange={e => onVolumeChange(Number(e.target.value) / 100)}
+            className="flex-1 max-w-[12rem] accent-yellow-400"
+          />
+          <span className="w-10 text-right font-mono text-xs text-white">{Math.round(volume * 100)}%</span>
+        </label>
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <h3 className="text-xs font-arcade text-slate-400 uppercase flex items-center gap-2"><Sparkles size={14} /> {t(language, 'settings_reduced_effects')}</h3>
+            <p className="text-[10px] text-slate-500">{t(language, 'settings_reduced_effects_hint')}</p>
+          </div>
+          <button onClick={() => onReducedEffectsChange(!reducedEffects)} className={choiceClass(reducedEffects)}>
+            {t(language, reducedEffects ? 'on' : 'off')}
+          </button>
+        </div>
+        <div className="flex items-center justify-between gap-2">
+          <h3 className="text-xs font-arcade text-slate-400 uppercase flex items-center gap-2"><Smartphone size={14} /> {t(language, 'settings_touch_layout')}</h3>
+          <div className="flex gap-2">
+            {TOUCH_LAYOUTS.map(layout => (
+              <button key={layout} onClick={() => onTouchLayoutChange(layout)} className={choiceClass(touchLayout === layout)}>
+                {t(language, `touch_${layout}`)}
+              </button>
+            ))}
+          </div>
+        </div>
+      </section>
+
+      <section className="flex flex-col gap-2">
+        <h3 className="text-xs font-arcade text-slate-400 uppercase flex items-center gap-2"><Keyboard size={14} /> {t(language, 'settings_controls')}</h3>
+        <p className="text-xs text-slate-400">{t(language, 'settings_controls_hint')}</p>
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <h3 className="text-xs font-arcade text-slate-400 uppercase">{t(language, 'settings_keep_moving')}</h3>
+            <p className="text-[10px] text-slate-500">{t(language, 'settings_keep_moving_hint')}</p>
+          </div>
+          <button onClick={() => onKeepMovingChange(!keepMoving)} className={choiceClass(keepMoving)}>
+            {t(language, keepMoving ? 'on' : 'off')}
+          </button>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(BINDING_PRESETS) as BindingPreset[]).map(preset => (
+            <button key={preset} onClick={() => applyPreset(preset)} className={choiceClass(false)}>
+              {t(language, `preset_${preset}`)}
+            </button>
+          ))}
+        </div>
+        <div className="grid grid-cols-[1fr_auto_auto] gap-2 items-center font-mono text-sm">
+          {CONTROL_ACTIONS.map(action => (
+            <React.Fragment key={action}>
+              <span className="text-slate-300 uppercase text-xs">{actionLabel(action)}</span>
+              {Array.from({ length: BINDING_SLOTS }, (_, slot) => {
+                const isCapturing = capturing?.action === action && capturing.slot === slot;
+                return (
+                  <button
+                    key={slot}
+                    onClick={() => { setCapturing(isCapturing ? null : { action, slot }); setNotice(null); }}
+                    className={`min-w-[5rem] px-3 py-2 rounded border-2 ${isCapturing ? 'border-yellow-400 text-yellow-300 animate-pulse' : 'border-slate-600 bg-slate-900 text-white hover:border-slate-400'}`}
+                  >
+                    {isCapturing ? '...' : keyLabel(keyBindings[action][slot])}
+                  </button>
+                );
+              })}
+            </React.Fragment>
+          ))}
+        </div>
+        {capturing && (
+          <p className="text-xs text-yellow-300">{t(language, 'controls_press_key', { action: actionLabel(capturing.action) })}</p>
+        )}
+        {notice && <p className="text-xs text-cyan-300">{notice}</p>}
+        {unbound.length > 0 && (
+          <p className="text-xs text-red-400">
+            {t(language, 'controls_unbound', { actions: unbound.map(actionLabel).join(', ') })}
+          </p>
+        )}
+      </section>
+
+      <section className="flex flex-col gap-2">
+        <h3 className="text-xs font-arcade text-slate-400 uppercase">{t(language, 'settings_data')}</h3>
+        <p className="text-xs text-slate-400">{t(language, 'settings_data_hint')}</p>
+        <div className="grid grid-cols-2 gap-2">
+          <button onClick={onExportProfile} className={`${btnClass} bg-indigo-600 hover:bg-indigo-500 border-indigo-400 text-white`}>
+            <Download size={16} /> {t(language, 'settings_export')}
+          </button>
+          <button onClick={() => fileInputRef.current?.click()} className={`${btnClass} bg-slate-700 hover:bg-slate-600 border-slate-500 text-white`}>
+            <Upload size={16} /> {t(language, 'settings_import')}
+          </button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFile} />
+        </div>
+        <button
+          onClick={onResetProgress}
+          className={`${btnClass} bg-slate-900 hover:bg-red-900/30 border-slate-700 hover:border-red-800 text-red-500 hover:text-red-400`}
+          title={t(language, 'settings_reset_hint')}
+        >
+          <Trash2 size={16} /> {t(language, 'settings_reset')}
+        </button>
+      </section>
+
+      <button onClick={onBack} className="w-full py-3 bg-slate-700 rounded hover:bg-slate-600 flex items-center justify-center gap-2">
+        <X size={16} /> {t(language, 'back')}
+      </button>
+    </div>
+  );
+};
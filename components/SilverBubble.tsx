@@ -0,0 +1,21 @@
+import React from 'react';
+
+interface SilverBubbleProps {
+  text: string | null; // Nothing shown when null
+}
+
+// Speech bubble next to Silver's HUD avatar: beside her on mobile, to her left on desktop
+export const SilverBubble: React.FC<SilverBubbleProps> = ({ text }) => {
+  if (!text) return null;
+
+  return (
+    <div
+      key={text}
+      role="status"
+      className="absolute -top-8 left-1/2 ml-12 md:-top-7 md:left-auto md:ml-0 md:right-32 z-20 max-w-[160px] sm:max-w-[240px] px-3 py-2 bg-white text-slate-900 text-xs sm:text-sm font-bold rounded-xl shadow-lg animate-fade-in pointer-events-none"
+    >
+      {text}
+      <span className="absolute top-3 -left-1.5 md:left-auto md:-right-1.5 w-3 h-3 bg-white rotate-45" />
+    </div>
+  );
+};
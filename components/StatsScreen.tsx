@@ -0,0 +1,187 @@
+import React, { useEffect, useRef } from 'react';
+import { BarChart3, X } from 'lucide-react';
+import { Language, LevelPack, PlayerStats } from '../types';
+import { CAPTURE_SIZE_BUCKETS, summarizeLevel, formatPlayTime } from '../services/playerStats';
+import { t, formatNumber } from '../services/i18n';
+
+interface StatsScreenProps {
+  profileName: string;
+  stats: PlayerStats;
+  pack: LevelPack; // Levels charted one by one
+  language: Language;
+  onBack: () => void;
+}
+
+interface Bar {
+  label: string;
+  value: number | null; // null = no data yet
+}
+
+interface BarChartProps {
+  title: string;
+  bars: Bar[];
+  color: string;
+  format: (value: number) => string;
+  highlight?: number; // Index of the bar drawn in the accent color
+}
+
+const CHART_HEIGHT = 120;
+const ACCENT = '#f472b6';
+
+const BarChart: React.FC<BarChartProps> = ({ title, bars, color, format, highlight }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const draw = () => {
+    const canvas = canvasRef.current;
+    const width = canvas?.parentElement?.clientWidth ?? 0;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || width === 0) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = Math.floor(width * dpr);
+    canvas.height = Math.floor(CHART_HEIGHT * dpr);
+    canvas.style.width = `${width}px`;
+    canvas.style.height = `${CHART_HEIGHT}px`;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, width, CHART_HEIGHT);
+
+    // Room for the value above each bar and the label below
+    const top = 16;
+    const bottom = CHART_HEIGHT - 16;
+    const max = Math.max(...bars.map(b => b.value ?? 0), 0);
+    const slot = width / bars.length;
+    const barWidth = Math.min(40, slot * 0.6);
+
+    ctx.font = '10px monospace';
+    ctx.textAlign = 'center';
+    ctx.strokeStyle = '#334155';
+    ctx.beginPath();
+    ctx.moveTo(0, bottom + 0.5);
+    ctx.lineTo(width, bottom + 0.5);
+    ctx.stroke();
+
+    bars.forEach((bar, i) => {
+      const x = slot * i + slot / 2;
+      const height = bar.value && max > 0 ? (bar.value / max) * (bottom - top) : 0;
+      ctx.fillStyle = i === highlight ? ACCENT : color;
+      ctx.fillRect(x - barWidth / 2, bottom - height, barWidth, height);
+      ctx.fillStyle = bar.value === null ? '#475569' : '#e2e8f0';
+      ctx.fillText(bar.value === null ? '-' : format(bar.value), x, bottom - height - 4);
+      ctx.fillStyle = '#94a3b8';
+      ctx.fillText(bar.label, x, CHART_HEIGHT - 3);
+    });
+  };
+
+  useEffect(() => {
+    draw();
+    window.addEventListener('resize', draw);
+    return () => window.removeEventListener('resize', draw);
+  }, [bars, color, highlight]);
+
+  return (
+    <section className="flex flex-col gap-1">
+      <h3 className="text-xs font-arcade text-slate-400 uppercase">{title}</h3>
+      <div className="bg-slate-900 rounded p-2">
+        <div>
+          <canvas ref={canvasRef} className="block" />
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export const StatsScreen: React.FC<StatsScreenProps> = ({ profileName, stats, pack, language, onBack }) => {
+  const levels = pack.levels.map(level => ({ level, summary: summarizeLevel(stats.levels[pack.id]?.[level.id]) }));
+  const levelBars = (value: (summary: ReturnType<typeof summarizeLevel>) => number | null): Bar[] =>
+    levels.map(({ level, summary }) => ({ label: `L${level.id}`, value: value(summary) }));
+
+  // The difficulty spike: the level that costs the most lives per attempt
+  let spike: number | undefined;
+  levels.forEach(({ summary }, i) => {
+    const lost = summary.livesLostPerAttempt;
+    if (lost !== null && lost > 0 && (spike === undefined || lost > levels[spike].summary.livesLostPerAttempt!)) spike = i;
+  });
+
+  const captureLabels = CAPTURE_SIZE_BUCKETS.map((limit, i) => `${i === 0 ? '<' : `${CAPTURE_SIZE_BUCKETS[i - 1]}-`}${limit}%`)
+    .concat(`${CAPTURE_SIZE_BUCKETS[CAPTURE_SIZE_BUCKETS.length - 1]}%+`);
+
+  const totals = [
+    { label: t(language, 'stats_play_time'), value: formatPlayTime(stats.timePlayed), color: 'text-cyan-300' },
+    { label: t(language, 'stats_played'), value: formatNumber(language, stats.levelsPlayed), color: 'text-white' },
+    { label: t(language, 'stats_cleared'), value: formatNumber(language, stats.levelsCompleted), color: 'text-green-400' },
+    { label: t(language, 'stats_tiles'), value: formatNumber(language, stats.tilesRevealed), color: 'text-yellow-300' },
+    { label: t(language, 'stats_lives_lost'), value: formatNumber(language, stats.livesLost), color: 'text-red-400' },
+    { label: t(language, 'stats_continues'), value: formatNumber(language, stats.continuesUsed), color: 'text-pink-300' }
+  ];
+
+  return (
+    <div className="bg-slate-800 p-6 sm:p-8 rounded-xl max-w-2xl w-full border border-slate-700 mx-4 z-20 flex flex-col gap-5 max-h-full overflow-y-auto no-scrollbar">
+      <h2 className="text-2xl sm:text-3xl font-bold text-center text-yellow-400 flex items-center justify-center gap-3">
+        <BarChart3 /> {t(language, 'stats_title')}
+      </h2>
+      <p className="text-center text-xs font-arcade text-slate-400 uppercase">
+        {t(language, 'stats_profile')}: <span className="text-yellow-300">{profileName}</span>
+      </p>
+
+      <div className="grid grid-cols-3 sm:grid-cols-6 gap-2 text-center font-mono">
+        {totals.map(total => (
+          <div key={total.label} className="bg-slate-900 rounded p-2">
+            <div className={`text-lg ${total.color}`}>{total.value}</div>
+            <div className="text-[10px] text-slate-500 uppercase">{total.label}</div>
+          </div>
+        ))}
+      </div>
+
+      {spike !== undefined && (
+        <p className="text-xs text-slate-300 text-center">
+          {t(language, 'stats_spike')}: <span className="text-pink-400 font-bold">
+            {t(language, 'stats_spike_level', { level: levels[spike].level.id, name: levels[spike].level.name })}
+          </span>
+        </p>
+      )}
+
+      <BarChart
+        title={t(language, 'stats_lives_per_attempt')}
+        bars={levelBars(s => s.livesLostPerAttempt)}
+        color="#f87171"
+        format={v => v.toFixed(1)}
+        highlight={spike}
+      />
+      <BarChart
+        title={t(language, 'stats_clear_time')}
+        bars={levelBars(s => s.averageClearTime)}
+        color="#67e8f9"
+        format={v => `${Math.round(v)}s`}
+      />
+      <BarChart
+        title={t(language, 'stats_clear_rate')}
+        bars={levelBars(s => s.clearRate)}
+        color="#4ade80"
+        format={v => `${Math.round(v * 100)}%`}
+      />
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <BarChart
+          title={t(language, 'stats_lost_to')}
+          bars={[
+            { label: t(language, 'stats_boss'), value: stats.deathsBy.BOSS },
+            { label: t(language, 'stats_minion'), value: stats.deathsBy.MINION }
+          ]}
+          color="#fb923c"
+          format={v => `${v}`}
+        />
+        <div className="sm:col-span-2">
+          <BarChart
+            title={t(language, 'stats_capture_sizes')}
+            bars={stats.captureSizes.map((count, i) => ({ label: captureLabels[i], value: count }))}
+            color="#a78bfa"
+            format={v => `${v}`}
+          />
+        </div>
+      </div>
+
+      <button onClick={onBack} className="w-full py-3 bg-slate-700 rounded hover:bg-slate-600 flex items-center justify-center gap-2">
+        <X size={16} /> {t(language, 'back')}
+      </button>
+    </div>
+  );
+};
@@ -1,15 +1,17 @@
 import React from 'react';
 import { ArrowUp, ArrowDown, ArrowLeft, ArrowRight } from 'lucide-react';
+import { TouchLayout } from '../types';
 
 interface VirtualJoystickProps {
   onDirectionChange: (dx: number, dy: number) => void;
+  side?: TouchLayout; // Screen corner, for left-handed players
 }
 
-export const VirtualJoystick: React.FC<VirtualJoystickProps> = ({ onDirectionChange }) => {
+export const VirtualJoystick: React.FC<VirtualJoystickProps> = ({ onDirectionChange, side = 'RIGHT' }) => {
   const btnClass = "w-14 h-14 bg-white/10 active:bg-white/30 backdrop-blur-md rounded-full flex items-center justify-center border border-white/20 touch-none select-none";
   
   return (
-    <div className="fixed bottom-8 right-8 z-50 flex flex-col items-center gap-2">
+    <div className={`fixed bottom-8 ${side === 'LEFT' ? 'left-8' : 'right-8'} z-50 flex flex-col items-center gap-2`}>
         <button 
           className={btnClass} 
           onPointerDown={(e) => { e.preventDefault(); onDirectionChange(0, -1); }}
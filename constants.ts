@@ -1,4 +1,4 @@
-import { LevelConfig, Language } from './types';
+import { LevelConfig, LevelPack, ItemType, EffectsQuality } from './types';
 
 // Grid Configuration
 export const GRID_WIDTH = 60;
@@ -14,16 +14,59 @@ export const COLOR_BOSS = '#e11d48'; // Rose 600
 export const COLOR_BOSS_CORE = '#881337'; // Rose 900
 export const COLOR_PARTICLE = '#38bdf8'; 
 export const COLOR_ITEM = '#fbbf24'; // Amber 400
+export const COLOR_OBSTACLE = '#475569'; // Slate 600
+export const COLOR_DAMAGE = '#ef4444'; // Red 500
+
+// Effects budget per quality setting (LOW is meant for low-end phones)
+export const EFFECTS_QUALITY: Record<EffectsQuality, { maxParticles: number; particleScale: number; glow: boolean }> = {
+  LOW: { maxParticles: 40, particleScale: 0.25, glow: false },
+  MEDIUM: { maxParticles: 150, particleScale: 0.6, glow: false },
+  HIGH: { maxParticles: 400, particleScale: 1, glow: true }
+};
 
 // Game logic
+export const SIM_TICK_MS = 20; // Fixed simulation timestep
 export const PLAYER_SPEED_MS = 60; // Update interval for player movement
 export const BOSS_BASE_SPEED = 0.1; // Reduced base logic speed
+export const MINION_STEP_MS = 140; // Minions hop one border tile at this interval
+export const PROXIMITY_RANGE = 10; // Tiles at which the danger drone starts
+export const NEAR_MISS_RANGE = 2; // Tiles: an enemy this close that leaves without a hit is a near miss
 export const INVULNERABILITY_TIME = 3000; // 3 Seconds blinking
 export const ITEM_LIFETIME = 6000; // 6 seconds
+export const ITEM_SPAWN_INTERVAL_MS = 5000;
+export const MAX_ITEMS = 2; // On the board at the same time
+export const MAX_LIVES = 5;
+export const ITEM_SCORE_BONUS = 500;
+export const CONTINUE_PENALTY = 0.3; // Share of the score lost when continuing
+
+// Power-up durations in ms
+export const FREEZE_DURATION = 4000;
+export const SLOW_DURATION = 6000;
+export const SHIELD_DURATION = 5000;
+
+// Relative spawn chance of each item type
+export const ITEM_WEIGHTS: Record<ItemType, number> = {
+  SCORE: 5,
+  LIFE: 1,
+  FREEZE: 2,
+  SLOW: 2,
+  SHIELD: 2,
+  CUT_THROUGH: 2
+};
+
+export const ITEM_STYLES: Record<ItemType, { color: string; glyph: string }> = {
+  SCORE: { color: COLOR_ITEM, glyph: '$' },
+  LIFE: { color: '#f472b6', glyph: '+' },
+  FREEZE: { color: '#67e8f9', glyph: '*' },
+  SLOW: { color: '#a78bfa', glyph: '~' },
+  SHIELD: { color: '#4ade80', glyph: 'O' },
+  CUT_THROUGH: { color: '#fb923c', glyph: '/' }
+};
 
 // COMBO SYSTEM
 export const COMBO_TIMEOUT_MS = 2500; // Increased to 2.5s for easier chaining
 export const IDLE_TIMEOUT_MS = 2000; // Increased to 2s before combo breaks from standing still
+export const SCORE_PER_TILE = 10; // Base points per captured tile, multiplied by the combo
 
 // --- CONFIGURACIÓN DE IMÁGENES ---
 // Corrección de rutas: Usamos rutas relativas "assets/..." sin barra inicial.
@@ -71,7 +114,8 @@ export const LEVELS: LevelConfig[] = [
     difficulty: 3,
     bossSpeed: 0.16,
     minRevealPercent: 80,
-    enemyCount: 2
+    enemyCount: 2,
+    minionCount: 1
   },
   {
     id: 4,
@@ -80,7 +124,8 @@ export const LEVELS: LevelConfig[] = [
     difficulty: 4,
     bossSpeed: 0.20,
     minRevealPercent: 85,
-    enemyCount: 3
+    enemyCount: 3,
+    minionCount: 1
   },
   {
     id: 5,
@@ -89,7 +134,8 @@ export const LEVELS: LevelConfig[] = [
     difficulty: 5,
     bossSpeed: 0.25,
     minRevealPercent: 90,
-    enemyCount: 4
+    enemyCount: 4,
+    minionCount: 2
   },
   {
     id: 6,
@@ -98,10 +144,22 @@ export const LEVELS: LevelConfig[] = [
     difficulty: 6,
     bossSpeed: 0.30,
     minRevealPercent: 92,
-    enemyCount: 5
+    enemyCount: 5,
+    minionCount: 2
   }
 ];
 
+// The built-in levels, presented as a pack alongside any loaded from JSON
+export const CORE_PACK_ID = 'core';
+export const CORE_PACK: LevelPack = {
+  id: CORE_PACK_ID,
+  name: 'Siilveer Paniic',
+  levels: LEVELS
+};
+
+// Levels made in the editor are saved into this local pack
+export const CUSTOM_PACK_ID = 'my-levels';
+
 export const MOCK_SCORES = [
   { playerName: "OtakuKing", score: 12500, level: 6, date: "2024-05-10" },
   { playerName: "WaifuHunter", score: 9950, level: 5, date: "2024-05-11" },
@@ -109,130 +167,6 @@ export const MOCK_SCORES = [
   { playerName: "PixelArt", score: 4000, level: 2, date: "2024-05-12" },
 ];
 
-export const TEASING_PHRASES = [
-  "¿Eso es todo lo que tienes?",
-  "Estás jugando con fuego...",
-  "Más rápido, más profundo.",
-  "No me decepciones ahora.",
-  "Te veo temblar...",
-  "Casi me tocas.",
-  "¿Te da miedo el éxito?",
-  "Arriésgate un poco más.",
-  "Qué técnica tan... interesante.",
-  "Me estoy aburriendo aquí dentro.",
-  "Cuidado con la retaguardia.",
-  "Demasiado lento para mi gusto."
-];
-
-// STATIC COMMENTARY (Offline Mode)
-export const COMMENTARY_WIN_ES = [
-  "¡Increíble! Tus reflejos son de otro planeta. 🚀",
-  "¡GG! Eso fue quirúrgico. ¿Eres un robot? 🤖",
-  "¡Destrucción total! El nivel no tuvo oportunidad. 🔥",
-];
-
-export const COMMENTARY_LOSE_ES = [
-  "¡Uff! Eso dolió de ver. Más suerte la próxima. 💀",
-  "¿Lag o falta de habilidad? Tú decides. 🤔",
-  "¡Casi! Pero en el arcade 'casi' no cuenta. ❌",
-];
-
-export const COMMENTARY_WIN_EN = [
-  "Incredible! Your reflexes are from another planet. 🚀",
-  "GG! That was surgical. Are you a robot? 🤖",
-  "Total destruction! The level didn't stand a chance. 🔥",
-];
-
-export const COMMENTARY_LOSE_EN = [
-  "Ouch! That hurt to watch. Better luck next time. 💀",
-  "Lag or lack of skill? You decide. 🤔",
-  "Almost! But 'almost' doesn't count in arcade. ❌",
-];
-
-export const COMMENTARY_WIN_FR = [
-  "Incroyable! Tes réflexes viennent d'une autre planète. 🚀",
-  "GG! C'était chirurgical. Es-tu un robot? 🤖",
-  "Destruction totale! Le niveau n'avait aucune chance. 🔥",
-];
-
-export const COMMENTARY_LOSE_FR = [
-  "Aïe! Ça faisait mal à voir. Plus de chance la prochaine fois. 💀",
-  "Lag ou manque de talent? À toi de décider. 🤔",
-  "Presque! Mais 'presque' ne compte pas ici. ❌",
-];
-
 export const EXCLAMATIONS = [
   "WOW!", "SICK!", "RADICAL!", "SUPER!", "INSANE!", "OMG!", "HYPER!", "GODLIKE!"
 ];
-
-export const TRANSLATIONS = {
-  ES: {
-    menu_start: "SELECCIONA NIVEL",
-    menu_scores: "MEJORES PUNTUACIONES",
-    menu_credits: "DESARROLLADO POR SIILVEER GAMES",
-    instructions: "Instrucciones: Corta zonas para revelar el fondo. ¡Evita los enemigos!",
-    level: "NIVEL",
-    score: "PUNTOS",
-    area: "AREA",
-    pause_title: "PAUSA",
-    pause_subtitle: "Juego detenido",
-    resume: "Reanudar",
-    quit: "Salir al Menú",
-    win_title: "Nivel Completado",
-    win_subtitle: "Presiona cualquier tecla...",
-    ai_comment: "Comentario IA",
-    game_over: "GAME OVER",
-    retry: "Reintentar",
-    exit: "Salir",
-    ready: "LISTO?",
-    go: "YA!",
-    broken: "ROTO!",
-    footer: "Usa flechas/WASD para moverte. Corta para revelar. 'P' para pausar."
-  },
-  EN: {
-    menu_start: "SELECT STAGE",
-    menu_scores: "HIGH SCORES",
-    menu_credits: "DEVELOPED BY SIILVEER GAMES",
-    instructions: "Instructions: Cut areas to reveal the background. Avoid enemies!",
-    level: "LEVEL",
-    score: "SCORE",
-    area: "AREA",
-    pause_title: "PAUSED",
-    pause_subtitle: "Game Stopped",
-    resume: "Resume",
-    quit: "Quit to Menu",
-    win_title: "Level Complete",
-    win_subtitle: "Press any key...",
-    ai_comment: "AI Commentary",
-    game_over: "GAME OVER",
-    retry: "Retry",
-    exit: "Exit",
-    ready: "READY?",
-    go: "GO!",
-    broken: "BROKEN!",
-    footer: "Use arrows/WASD to move. Cut to reveal. 'P' to pause."
-  },
-  FR: {
-    menu_start: "CHOISIR NIVEAU",
-    menu_scores: "MEILLEURS SCORES",
-    menu_credits: "DÉVELOPPÉ PAR SIILVEER GAMES",
-    instructions: "Instructions: Coupez les zones pour révéler le fond. Évitez les ennemis!",
-    level: "NIVEAU",
-    score: "SCORE",
-    area: "ZONE",
-    pause_title: "PAUSE",
-    pause_subtitle: "Jeu arrêté",
-    resume: "Reprendre",
-    quit: "Quitter",
-    win_title: "Niveau Terminé",
-    win_subtitle: "Appuyez sur une touche...",
-    ai_comment: "Commentaire IA",
-    game_over: "GAME OVER",
-    retry: "Réessayer",
-    exit: "Quitter",
-    ready: "PRÊT?",
-    go: "ALLEZ!",
-    broken: "CASSÉ!",
-    footer: "Utilisez flèches/WASD pour bouger. Coupez pour révéler. 'P' pour pause."
-  }
-};
\ No newline at end of file
@@ -0,0 +1,300 @@
+/**
+ * English: the reference locale. Every message key is defined here, and any
+ * key another locale leaves out falls back to the English text.
+ */
+const en = {
+  code: 'EN',
+  name: 'English',
+  intl: 'en-US',
+  messages: {
+    menu_start: "SELECT STAGE",
+    menu_scores: "HIGH SCORES",
+    menu_credits: "DEVELOPED BY SIILVEER GAMES",
+    menu_made_with: "MADE WITH REACT & GEMINI.",
+    menu_continue: "CONTINUE LVL {level}",
+    menu_restart: "RESTART (LVL 0)",
+    menu_start_mission: "START MISSION",
+    menu_gallery: "UNLOCKED GALLERY",
+    menu_locked: "LOCKED",
+    menu_new: "NEW!",
+    menu_load_pack: "LOAD LEVEL PACK",
+    menu_pack_path: "FROM PATH",
+    menu_editor: "LEVEL EDITOR",
+    menu_watch_last: "WATCH LAST RUN",
+    menu_load_replay: "LOAD REPLAY",
+    menu_achievements: "ACHIEVEMENTS",
+    menu_stats: "STATS",
+    menu_settings: "SETTINGS",
+    menu_switch_profile: "Switch profile",
+    menu_quality: "Effects quality",
+    menu_ghost: "GHOST: {state}",
+    menu_ghost_hint: "Race against your best clear",
+    on: "ON",
+    off: "OFF",
+    pack_by: "by {author}",
+    pack_scores: "Pack scores",
+    pack_remove: "Remove pack",
+    pack_path_prompt: "Level pack path (e.g. packs/my-pack.json):",
+    pack_too_big: "Level pack \"{name}\" loaded, but it is too big to be kept after a reload.",
+    pack_error: "Level pack error: {message}",
+    pack_remove_confirm: "Remove level pack \"{name}\"? Its progress and scores are kept.",
+    replay_missing_pack: "Replay error: level pack \"{pack}\" is not installed.",
+    replay_missing_level: "Replay error: level {level} does not exist.",
+    replay_error: "Replay error: {message}",
+    profile_delete_confirm: "Delete profile \"{name}\" and all of its progress?",
+    profile_imported: "Profile imported.",
+    profile_error: "Profile error: {message}",
+    reset_confirm: "WARNING!\n\nAre you sure you want to ERASE all your progress and scores?\n\nThis cannot be undone and the page will reload.",
+    instructions: "Instructions: Cut areas to reveal the background. Avoid enemies!",
+    level: "LEVEL",
+    score: "SCORE",
+    area: "AREA",
+    time: "Time",
+    ghost: "GHOST",
+    infinite_lives: "INF LIVES",
+    stage: "STAGE {level}",
+    pause: "Pause",
+    pause_title: "PAUSED",
+    pause_subtitle: "Game Stopped",
+    resume: "Resume",
+    quit: "Quit to Menu",
+    skip_simulation: "SKIP SIMULATION",
+    win_title: "Level Complete",
+    win_subtitle: "Press any key...",
+    win_fullscreen: "View Fullscreen",
+    win_system_ready: "SYSTEM READY",
+    next_level: "Next Level",
+    finish_game: "Finish Game",
+    download_replay: "Download replay",
+    save_replay: "SAVE REPLAY",
+    ai_comment: "AI Commentary",
+    continue_title: "CONTINUE?",
+    continue_yes: "YES (-{penalty}% Score)",
+    continue_no: "NO (GIVE UP)",
+    continues_used: "CONTINUES USED: {count}",
+    record_title: "NEW RECORD!",
+    record_initials: "ENTER YOUR INITIALS",
+    record_save: "SAVE SCORE",
+    record_total_score: "TOTAL SCORE",
+    record_level_time: "LVL {level} TIME {time}",
+    record_level_area: "LVL {level} AREA {area}%",
+    game_over: "GAME OVER",
+    retry: "Retry",
+    exit: "Exit",
+    ready: "READY?",
+    go: "GO!",
+    broken: "BROKEN!",
+    item_SCORE: "SCORE",
+    item_LIFE: "LIFE",
+    item_FREEZE: "FREEZE",
+    item_SLOW: "SLOW",
+    item_SHIELD: "SHIELD",
+    item_CUT_THROUGH: "CUT THROUGH",
+    level_background: "Level background",
+    board_best_time: "BEST TIME",
+    board_best_area: "BEST AREA",
+    board_device: "THIS DEVICE",
+    board_online: "ONLINE",
+    board_name: "Name",
+    board_level: "Lvl",
+    board_combo: "Combo",
+    board_loading: "LOADING...",
+    board_around: "Around you",
+    board_entry: "{date} · {continues|# continue|# continues} · {livesLost|# life lost|# lives lost}",
+    sync_local: "LOCAL ONLY",
+    sync_synced: "SYNCED",
+    sync_syncing: "SYNCING...",
+    sync_offline: "OFFLINE",
+    sync_pending: "{count} PENDING",
+    sync_retry: "RETRY",
+    sync_rejected: "YOUR SCORE DID NOT VERIFY, SO IT WAS ONLY SAVED ON THIS DEVICE",
+    footer: "Use {move} to move. Cut to reveal. '{pause}' to pause.",
+    settings_title: "SETTINGS",
+    settings_profile: "Profile",
+    settings_played: "Played",
+    settings_cleared: "Cleared",
+    settings_language: "Language",
+    settings_volume: "Volume",
+    settings_reduced_effects: "Reduced effects",
+    settings_reduced_effects_hint: "No screen flash when you get hit",
+    settings_touch_layout: "Touch joystick",
+    touch_LEFT: "Left",
+    touch_RIGHT: "Right",
+    settings_controls: "Controls",
+    settings_controls_hint: "Click a key to change it. Esc always pauses and goes back.",
+    settings_keep_moving: "Keep moving",
+    settings_keep_moving_hint: "Keep going after you let go, until a wall, a closed cut or a hit",
+    preset_WASD: "WASD",
+    preset_ZQSD: "ZQSD (AZERTY)",
+    preset_IJKL: "IJKL (left-handed)",
+    action_UP: "Up",
+    action_DOWN: "Down",
+    action_LEFT: "Left",
+    action_RIGHT: "Right",
+    action_PAUSE: "Pause",
+    controls_press_key: "Press a key for {action}... (Esc to cancel)",
+    controls_conflict: "{key} was used for {action}: the keys were swapped.",
+    controls_unbound: "Nothing is bound to: {actions}",
+    settings_data: "Data",
+    settings_data_hint: "Move every profile, the score table and settings to another device. Importing merges with the progress already here.",
+    settings_export: "Export",
+    settings_import: "Import",
+    settings_reset: "ERASE DATA",
+    settings_reset_hint: "Erase progress and reload",
+    back: "BACK",
+    click_to_close: "CLICK TO CLOSE",
+    lives: "LIVES",
+    music_mute: "Mute Music & SFX",
+    music_enable: "Enable Music & SFX",
+    profiles_title: "PROFILES",
+    profile_unlocked: "{count} unlocked",
+    profile_new: "NEW PLAYER",
+    profile_create: "Create profile",
+    profile_add: "ADD",
+    profile_name_taken: "That name is already used",
+    profile_delete: "Delete profile",
+    achievements_title: "ACHIEVEMENTS",
+    achievement_unlocked: "Achievement unlocked",
+    achievement_title_FIRST_CLEAR: "First Steps",
+    achievement_desc_FIRST_CLEAR: "Clear a level",
+    achievement_title_BY_THE_BOOK: "By the Book",
+    achievement_desc_BY_THE_BOOK: "Clear Level 0 without skipping the simulation",
+    achievement_title_UNTOUCHABLE: "Untouchable",
+    achievement_desc_UNTOUCHABLE: "Clear a level without losing a life",
+    achievement_title_SPEED_DEMON: "Speed Demon",
+    achievement_desc_SPEED_DEMON: "Clear a level in under 60 seconds",
+    achievement_title_COMBO_MASTER: "Combo Master",
+    achievement_desc_COMBO_MASTER: "Reach a {target}x combo",
+    achievement_title_BIG_CUT: "Big Cut",
+    achievement_desc_BIG_CUT: "Capture {target}% of a level in a single cut",
+    achievement_title_PERFECTIONIST: "Perfectionist",
+    achievement_desc_PERFECTIONIST: "Finish a level with {target}% revealed",
+    achievement_title_COLLECTOR: "Collector",
+    achievement_desc_COLLECTOR: "Collect {target} power-ups",
+    achievement_title_VETERAN: "Veteran",
+    achievement_desc_VETERAN: "Clear {target} levels",
+    achievement_title_CHAMPION: "Champion",
+    achievement_desc_CHAMPION: "Beat the game",
+    achievement_title_IRON_WILL: "Iron Will",
+    achievement_desc_IRON_WILL: "Beat the game without using a continue",
+    stats_title: "STATS",
+    stats_profile: "Profile",
+    stats_play_time: "Play time",
+    stats_played: "Played",
+    stats_cleared: "Cleared",
+    stats_tiles: "Tiles",
+    stats_lives_lost: "Lives lost",
+    stats_continues: "Continues",
+    stats_spike: "Difficulty spike",
+    stats_spike_level: "Level {level} · {name}",
+    stats_lives_per_attempt: "Lives lost per attempt",
+    stats_clear_time: "Average clear time",
+    stats_clear_rate: "Clear rate",
+    stats_lost_to: "Lives lost to",
+    stats_boss: "Boss",
+    stats_minion: "Minion",
+    stats_capture_sizes: "Capture sizes",
+    replay: "REPLAY",
+    replay_play: "Play",
+    replay_restart: "Restart",
+    replay_exit: "Exit replay",
+    editor_title: "LEVEL EDITOR",
+    editor_tool_REVEAL: "Reveal",
+    editor_tool_COVER: "Cover",
+    editor_tool_OBSTACLE: "Obstacle",
+    editor_tool_BOSS: "Boss spawn",
+    editor_tool_MINION: "Minion spawn",
+    editor_brush: "Brush",
+    editor_pre_revealed: "PRE-REVEALED",
+    editor_drop_image: "DROP AN IMAGE HERE",
+    editor_name: "Name",
+    editor_choose_image: "Choose image",
+    editor_change_image: "Change image",
+    editor_boss_speed: "Boss speed",
+    editor_goal: "Goal %",
+    editor_bosses: "Bosses",
+    editor_minions: "Minions",
+    editor_difficulty: "Difficulty",
+    editor_item_interval: "Item every (s)",
+    editor_music: "Music",
+    editor_track: "Track {number}",
+    editor_spawn_hint: "Bosses cycle through their spawn points (center when none). Minion spawns must be on revealed tiles, e.g. the border.",
+    editor_play_test: "Play-test",
+    editor_play_test_title: "Play-test: {name}",
+    editor_back: "Back to editor",
+    editor_level_clear: "LEVEL CLEAR",
+    editor_save: "Save",
+    editor_export: "Export",
+    editor_open_saved: "Open saved level...",
+    editor_new: "New",
+    editor_new_confirm: "Start a new level? The current draft will be lost.",
+    editor_saved: "Saved \"{name}\" to My Levels.",
+    editor_boss_spawn_tile: "Bosses must spawn on covered tiles.",
+    editor_minion_spawn_tile: "Minions must spawn on revealed tiles.",
+    editor_draft_too_big: "Draft too big to autosave (try a smaller image).",
+    editor_image_unreadable: "Could not read the image",
+    editor_not_an_image: "That file is not an image"
+  },
+  // Banner lines that rotate while playing
+  teasing: [
+    "Is that all you've got?",
+    "You're playing with fire...",
+    "Faster, deeper.",
+    "Don't let me down now.",
+    "I can see you shaking...",
+    "You almost touched me.",
+    "Afraid of success?",
+    "Take a little more risk.",
+    "What an... interesting technique.",
+    "I'm getting bored in here.",
+    "Watch your back.",
+    "Too slow for my taste."
+  ],
+  // Speech bubble lines for in-game events, see services/silverReactions.ts
+  silverLines: {
+    CAPTURE: ["Nice cut.", "That's it, keep going.", "One more slice."],
+    BIG_CAPTURE: ["{area}% in one cut! 😳", "So greedy!", "Ooh, the boss felt that one."],
+    ITEM: ["Ooh, a present.", "Is that for me?", "Use it wisely."],
+    NEAR_MISS: ["Close one! 😅", "Phew, almost.", "That grazed you..."],
+    DAMAGE: ["Ouch!", "That had to hurt.", "Watch where you're going!"],
+    LOW_LIVES: ["Last life... no pressure. 😈", "{lives|# life|# lives} left. Careful now."],
+    IDLE: ["Fell asleep?", "Hellooo, still there?", "Standing still reveals nothing."],
+    HALFWAY: ["Halfway there!", "{area}%... now it's getting interesting."],
+    ALMOST_THERE: ["Almost there! Just a little more...", "{area}%... I can smell victory."]
+  },
+  // Offline commentary when nothing in the run stands out
+  commentary: {
+    WIN: [
+      "Incredible! Your reflexes are from another planet. 🚀",
+      "GG! That was surgical. Are you a robot? 🤖",
+      "Total destruction! The level didn't stand a chance. 🔥"
+    ],
+    GAME_OVER: [
+      "Ouch! That hurt to watch. Better luck next time. 💀",
+      "Lag or lack of skill? You decide. 🤔",
+      "Almost! But 'almost' doesn't count in arcade. ❌"
+    ]
+  },
+  // Offline commentary for specific run facts, see services/commentaryTemplates.ts
+  commentaryTopics: {
+    WIN: {
+      NEW_BEST: ["{level} in {time}s, {delta}s under your best! 🚀", "New personal best: {time}s. Who are you? ⏱️"],
+      OFF_PACE: ["Cleared... {delta}s slower than your best. Nap break? 🐢"],
+      FLAWLESS: ["Not a scratch. Are you sure you're not a bot? 🤖", "Zero lives lost. You're scaring me. 😳"],
+      BIG_CUT: ["One cut took {largestCapture}% of the screen. Greedy! 🔪"],
+      COMBO: ["x{comboPeak} combo! Now that's rhythm. 🔥"],
+      NEAR_MISSES: ["{nearMisses|# near miss|# near misses} and you're still standing. 😅"],
+      CONTINUES: ["You made it... with {continuesUsed|# continue|# continues}. Still counts. 🪙"]
+    },
+    GAME_OVER: {
+      SO_CLOSE: ["{area}% revealed and you drop it now? Ouch. 💔"],
+      QUICK_DEATH: ["Gone in {time} seconds. A record, of sorts. 💀"],
+      NEAR_MISSES: ["You dodged {nearMisses|once|# times}... then you didn't. 😈"],
+      BIG_CUT: ["A {largestCapture}% cut, then greed. Classic. 🔪"],
+      COMBO: ["A x{comboPeak} combo won't save you. 🎲"],
+      CONTINUES: ["{continuesUsed|# continue|# continues} already. Running out of coins? 🪙"]
+    }
+  }
+};
+
+export default en;
@@ -0,0 +1,293 @@
+import type { LocaleDefinition } from '../services/i18n';
+
+const es: LocaleDefinition = {
+  code: 'ES',
+  name: 'Español',
+  intl: 'es-ES',
+  messages: {
+    menu_start: "SELECCIONA NIVEL",
+    menu_scores: "MEJORES PUNTUACIONES",
+    menu_credits: "DESARROLLADO POR SIILVEER GAMES",
+    menu_made_with: "HECHO CON REACT Y GEMINI.",
+    menu_continue: "CONTINUAR NVL {level}",
+    menu_restart: "REINICIAR (NVL 0)",
+    menu_start_mission: "EMPEZAR MISIÓN",
+    menu_gallery: "GALERÍA DESBLOQUEADA",
+    menu_locked: "BLOQUEADO",
+    menu_new: "¡NUEVO!",
+    menu_load_pack: "CARGAR PACK DE NIVELES",
+    menu_pack_path: "DESDE RUTA",
+    menu_editor: "EDITOR DE NIVELES",
+    menu_watch_last: "VER ÚLTIMA PARTIDA",
+    menu_load_replay: "CARGAR REPETICIÓN",
+    menu_achievements: "LOGROS",
+    menu_stats: "ESTADÍSTICAS",
+    menu_settings: "AJUSTES",
+    menu_switch_profile: "Cambiar de perfil",
+    menu_quality: "Calidad de efectos",
+    menu_ghost: "FANTASMA: {state}",
+    menu_ghost_hint: "Compite contra tu mejor partida",
+    on: "SÍ",
+    off: "NO",
+    pack_by: "por {author}",
+    pack_scores: "Puntuaciones del pack",
+    pack_remove: "Quitar pack",
+    pack_path_prompt: "Ruta del pack de niveles (p. ej. packs/mi-pack.json):",
+    pack_too_big: "Pack \"{name}\" cargado, pero es demasiado grande para conservarlo al recargar.",
+    pack_error: "Error en el pack de niveles: {message}",
+    pack_remove_confirm: "¿Quitar el pack \"{name}\"? Su progreso y puntuaciones se conservan.",
+    replay_missing_pack: "Error de repetición: el pack \"{pack}\" no está instalado.",
+    replay_missing_level: "Error de repetición: el nivel {level} no existe.",
+    replay_error: "Error de repetición: {message}",
+    profile_delete_confirm: "¿Borrar el perfil \"{name}\" y todo su progreso?",
+    profile_imported: "Perfil importado.",
+    profile_error: "Error de perfil: {message}",
+    reset_confirm: "¡ATENCIÓN!\n\n¿Estás seguro de que quieres BORRAR todo tu progreso y puntuaciones?\n\nEsta acción no se puede deshacer y la página se recargará.",
+    instructions: "Instrucciones: Corta zonas para revelar el fondo. ¡Evita los enemigos!",
+    level: "NIVEL",
+    score: "PUNTOS",
+    area: "AREA",
+    time: "Tiempo",
+    ghost: "FANTASMA",
+    infinite_lives: "VIDAS INF",
+    stage: "FASE {level}",
+    pause: "Pausar",
+    pause_title: "PAUSA",
+    pause_subtitle: "Juego detenido",
+    resume: "Reanudar",
+    quit: "Salir al Menú",
+    skip_simulation: "SALTAR SIMULACIÓN",
+    win_title: "Nivel Completado",
+    win_subtitle: "Presiona cualquier tecla...",
+    win_fullscreen: "Ver a pantalla completa",
+    win_system_ready: "SISTEMA LISTO",
+    next_level: "Siguiente Nivel",
+    finish_game: "Terminar Juego",
+    download_replay: "Descargar repetición",
+    save_replay: "GUARDAR REPETICIÓN",
+    ai_comment: "Comentario IA",
+    continue_title: "¿CONTINUAR?",
+    continue_yes: "SÍ (-{penalty}% Puntos)",
+    continue_no: "NO (RENDIRSE)",
+    continues_used: "CONTINUES USADOS: {count}",
+    record_title: "¡NUEVO RÉCORD!",
+    record_initials: "ESCRIBE TUS INICIALES",
+    record_save: "GUARDAR PUNTUACIÓN",
+    record_total_score: "PUNTUACIÓN TOTAL",
+    record_level_time: "NVL {level} TIEMPO {time}",
+    record_level_area: "NVL {level} AREA {area}%",
+    game_over: "GAME OVER",
+    retry: "Reintentar",
+    exit: "Salir",
+    ready: "LISTO?",
+    go: "YA!",
+    broken: "ROTO!",
+    item_SCORE: "PUNTOS",
+    item_LIFE: "VIDA",
+    item_FREEZE: "CONGELAR",
+    item_SLOW: "LENTO",
+    item_SHIELD: "ESCUDO",
+    item_CUT_THROUGH: "CORTE LIBRE",
+    level_background: "Fondo del nivel",
+    board_best_time: "MEJOR TIEMPO",
+    board_best_area: "MEJOR AREA",
+    board_device: "ESTE DISPOSITIVO",
+    board_online: "ONLINE",
+    board_name: "Nombre",
+    board_level: "Nvl",
+    board_combo: "Combo",
+    board_loading: "CARGANDO...",
+    board_around: "Cerca de ti",
+    board_entry: "{date} · {continues|# continue|# continues} · {livesLost|# vida perdida|# vidas perdidas}",
+    sync_local: "SOLO LOCAL",
+    sync_synced: "SINCRONIZADO",
+    sync_syncing: "SINCRONIZANDO...",
+    sync_offline: "SIN CONEXIÓN",
+    sync_pending: "{count} PENDIENTES",
+    sync_retry: "REINTENTAR",
+    sync_rejected: "TU PUNTUACIÓN NO SE PUDO VERIFICAR: SOLO SE GUARDÓ EN ESTE DISPOSITIVO",
+    footer: "Usa {move} para moverte. Corta para revelar. '{pause}' para pausar.",
+    settings_title: "AJUSTES",
+    settings_profile: "Perfil",
+    settings_played: "Jugados",
+    settings_cleared: "Superados",
+    settings_language: "Idioma",
+    settings_volume: "Volumen",
+    settings_reduced_effects: "Efectos reducidos",
+    settings_reduced_effects_hint: "Sin destello en pantalla al recibir daño",
+    settings_touch_layout: "Joystick táctil",
+    touch_LEFT: "Izquierda",
+    touch_RIGHT: "Derecha",
+    settings_controls: "Controles",
+    settings_controls_hint: "Pulsa una tecla para cambiarla. Esc siempre pausa y vuelve atrás.",
+    settings_keep_moving: "Movimiento continuo",
+    settings_keep_moving_hint: "Sigue avanzando al soltar la tecla, hasta una pared, un corte cerrado o un golpe",
+    preset_ZQSD: "ZQSD (AZERTY)",
+    preset_IJKL: "IJKL (zurdos)",
+    action_UP: "Arriba",
+    action_DOWN: "Abajo",
+    action_LEFT: "Izquierda",
+    action_RIGHT: "Derecha",
+    action_PAUSE: "Pausa",
+    controls_press_key: "Pulsa una tecla para {action}... (Esc para cancelar)",
+    controls_conflict: "{key} estaba asignada a {action}: se han intercambiado las teclas.",
+    controls_unbound: "Sin tecla asignada: {actions}",
+    settings_data: "Datos",
+    settings_data_hint: "Lleva todos los perfiles, la tabla de puntuaciones y los ajustes a otro dispositivo. Al importar se combina con el progreso que ya hay aquí.",
+    settings_export: "Exportar",
+    settings_import: "Importar",
+    settings_reset: "BORRAR DATOS",
+    settings_reset_hint: "Borrar progreso y recargar",
+    back: "VOLVER",
+    click_to_close: "HAZ CLIC PARA CERRAR",
+    lives: "VIDAS",
+    music_mute: "Silenciar música y efectos",
+    music_enable: "Activar música y efectos",
+    profiles_title: "PERFILES",
+    profile_unlocked: "{count|# desbloqueado|# desbloqueados}",
+    profile_new: "NUEVO JUGADOR",
+    profile_create: "Crear perfil",
+    profile_add: "AÑADIR",
+    profile_name_taken: "Ese nombre ya está en uso",
+    profile_delete: "Borrar perfil",
+    achievements_title: "LOGROS",
+    achievement_unlocked: "Logro desbloqueado",
+    achievement_title_FIRST_CLEAR: "Primeros pasos",
+    achievement_desc_FIRST_CLEAR: "Supera un nivel",
+    achievement_title_BY_THE_BOOK: "Según el manual",
+    achievement_desc_BY_THE_BOOK: "Supera el nivel 0 sin saltarte la simulación",
+    achievement_title_UNTOUCHABLE: "Intocable",
+    achievement_desc_UNTOUCHABLE: "Supera un nivel sin perder una vida",
+    achievement_title_SPEED_DEMON: "Demonio de la velocidad",
+    achievement_desc_SPEED_DEMON: "Supera un nivel en menos de 60 segundos",
+    achievement_title_COMBO_MASTER: "Maestro del combo",
+    achievement_desc_COMBO_MASTER: "Consigue un combo x{target}",
+    achievement_title_BIG_CUT: "Gran corte",
+    achievement_desc_BIG_CUT: "Captura el {target}% de un nivel de un solo corte",
+    achievement_title_PERFECTIONIST: "Perfeccionista",
+    achievement_desc_PERFECTIONIST: "Termina un nivel con el {target}% revelado",
+    achievement_title_COLLECTOR: "Coleccionista",
+    achievement_desc_COLLECTOR: "Recoge {target} potenciadores",
+    achievement_title_VETERAN: "Veterano",
+    achievement_desc_VETERAN: "Supera {target} niveles",
+    achievement_title_CHAMPION: "Campeón",
+    achievement_desc_CHAMPION: "Termina el juego",
+    achievement_title_IRON_WILL: "Voluntad de hierro",
+    achievement_desc_IRON_WILL: "Termina el juego sin usar ninguna continuación",
+    stats_title: "ESTADÍSTICAS",
+    stats_profile: "Perfil",
+    stats_play_time: "Tiempo de juego",
+    stats_played: "Jugados",
+    stats_cleared: "Superados",
+    stats_tiles: "Casillas",
+    stats_lives_lost: "Vidas perdidas",
+    stats_continues: "Continuaciones",
+    stats_spike: "Pico de dificultad",
+    stats_spike_level: "Nivel {level} · {name}",
+    stats_lives_per_attempt: "Vidas perdidas por intento",
+    stats_clear_time: "Tiempo medio para superarlo",
+    stats_clear_rate: "Porcentaje de éxito",
+    stats_lost_to: "Vidas perdidas contra",
+    stats_boss: "Jefe",
+    stats_minion: "Esbirro",
+    stats_capture_sizes: "Tamaño de las capturas",
+    replay: "REPETICIÓN",
+    replay_play: "Reproducir",
+    replay_restart: "Volver al inicio",
+    replay_exit: "Salir de la repetición",
+    editor_title: "EDITOR DE NIVELES",
+    editor_tool_REVEAL: "Revelar",
+    editor_tool_COVER: "Cubrir",
+    editor_tool_OBSTACLE: "Obstáculo",
+    editor_tool_BOSS: "Salida de jefe",
+    editor_tool_MINION: "Salida de esbirro",
+    editor_brush: "Pincel",
+    editor_pre_revealed: "YA REVELADO",
+    editor_drop_image: "SUELTA UNA IMAGEN AQUÍ",
+    editor_name: "Nombre",
+    editor_choose_image: "Elegir imagen",
+    editor_change_image: "Cambiar imagen",
+    editor_boss_speed: "Velocidad del jefe",
+    editor_goal: "Objetivo %",
+    editor_bosses: "Jefes",
+    editor_minions: "Esbirros",
+    editor_difficulty: "Dificultad",
+    editor_item_interval: "Objeto cada (s)",
+    editor_music: "Música",
+    editor_track: "Pista {number}",
+    editor_spawn_hint: "Los jefes van rotando entre sus puntos de salida (el centro si no hay ninguno). Los esbirros deben salir en casillas reveladas, por ejemplo el borde.",
+    editor_play_test: "Probar",
+    editor_play_test_title: "Prueba: {name}",
+    editor_back: "Volver al editor",
+    editor_level_clear: "NIVEL SUPERADO",
+    editor_save: "Guardar",
+    editor_export: "Exportar",
+    editor_open_saved: "Abrir nivel guardado...",
+    editor_new: "Nuevo",
+    editor_new_confirm: "¿Empezar un nivel nuevo? Se perderá el borrador actual.",
+    editor_saved: "\"{name}\" guardado en Mis niveles.",
+    editor_boss_spawn_tile: "Los jefes deben salir en casillas cubiertas.",
+    editor_minion_spawn_tile: "Los esbirros deben salir en casillas reveladas.",
+    editor_draft_too_big: "El borrador es demasiado grande para guardarlo solo (prueba con una imagen más pequeña).",
+    editor_image_unreadable: "No se pudo leer la imagen",
+    editor_not_an_image: "Ese archivo no es una imagen"
+  },
+  teasing: [
+    "¿Eso es todo lo que tienes?",
+    "Estás jugando con fuego...",
+    "Más rápido, más profundo.",
+    "No me decepciones ahora.",
+    "Te veo temblar...",
+    "Casi me tocas.",
+    "¿Te da miedo el éxito?",
+    "Arriésgate un poco más.",
+    "Qué técnica tan... interesante.",
+    "Me estoy aburriendo aquí dentro.",
+    "Cuidado con la retaguardia.",
+    "Demasiado lento para mi gusto."
+  ],
+  silverLines: {
+    CAPTURE: ["Bien cortado.", "Eso es, sigue así.", "Un trocito más."],
+    BIG_CAPTURE: ["¡{area} % de un solo corte! 😳", "¡Qué ambición!", "Vaya, eso ha dolido... al jefe."],
+    ITEM: ["Ooh, un regalito.", "¿Eso es para mí?", "Úsalo bien."],
+    NEAR_MISS: ["¡Por los pelos! 😅", "Uff, casi.", "Te ha rozado..."],
+    DAMAGE: ["¡Auch!", "Eso tuvo que doler.", "¡Mira por dónde vas!"],
+    LOW_LIVES: ["Última vida... sin presión. 😈", "Te queda {lives|# vida|# vidas}. Cuidadito."],
+    IDLE: ["¿Te has dormido?", "Holaaa, ¿sigues ahí?", "Quedarse quieto no revela nada."],
+    HALFWAY: ["¡Ya vas por la mitad!", "{area} %... esto se pone interesante."],
+    ALMOST_THERE: ["¡Ya casi! Solo un poco más...", "{area} %... huelo la victoria."]
+  },
+  commentary: {
+    WIN: [
+      "¡Increíble! Tus reflejos son de otro planeta. 🚀",
+      "¡GG! Eso fue quirúrgico. ¿Eres un robot? 🤖",
+      "¡Destrucción total! El nivel no tuvo oportunidad. 🔥"
+    ],
+    GAME_OVER: [
+      "¡Uff! Eso dolió de ver. Más suerte la próxima. 💀",
+      "¿Lag o falta de habilidad? Tú decides. 🤔",
+      "¡Casi! Pero en el arcade 'casi' no cuenta. ❌"
+    ]
+  },
+  commentaryTopics: {
+    WIN: {
+      NEW_BEST: ["¡{level} en {time} s, {delta} s menos que tu récord! 🚀", "¡Nuevo récord personal! {time} s. Ya no te reconozco. ⏱️"],
+      OFF_PACE: ["Superado... {delta} s más lento que tu récord. ¿Te dormiste? 🐢"],
+      FLAWLESS: ["Ni un rasguño. ¿Seguro que no eres un bot? 🤖", "Cero vidas perdidas. Me estás asustando. 😳"],
+      BIG_CUT: ["¡Un solo corte se llevó el {largestCapture} % de la pantalla! Qué ambición. 🔪"],
+      COMBO: ["¡Combo x{comboPeak}! Eso sí es ritmo. 🔥"],
+      NEAR_MISSES: ["{nearMisses|# roce|# roces} con la muerte y sigues aquí. 😅"],
+      CONTINUES: ["Lo lograste... con {continuesUsed|# continue|# continues}. Cuenta igual. 🪙"]
+    },
+    GAME_OVER: {
+      SO_CLOSE: ["¿Un {area} % revelado y lo dejas ahora? Duele. 💔"],
+      QUICK_DEATH: ["Fuera en {time} segundos. Todo un récord, a su manera. 💀"],
+      NEAR_MISSES: ["{nearMisses|# vez|# veces} lo esquivaste... y a la siguiente no. 😈"],
+      BIG_CUT: ["Un corte del {largestCapture} % y luego la avaricia. Clásico. 🔪"],
+      COMBO: ["Un combo x{comboPeak} no te salva de nada. 🎲"],
+      CONTINUES: ["Ya van {continuesUsed|# continue|# continues}. ¿Te quedan monedas? 🪙"]
+    }
+  }
+};
+
+export default es;
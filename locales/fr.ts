@@ -0,0 +1,293 @@
+import type { LocaleDefinition } from '../services/i18n';
+
+const fr: LocaleDefinition = {
+  code: 'FR',
+  name: 'Français',
+  intl: 'fr-FR',
+  messages: {
+    menu_start: "CHOISIR NIVEAU",
+    menu_scores: "MEILLEURS SCORES",
+    menu_credits: "DÉVELOPPÉ PAR SIILVEER GAMES",
+    menu_made_with: "FAIT AVEC REACT ET GEMINI.",
+    menu_continue: "CONTINUER NIV {level}",
+    menu_restart: "RECOMMENCER (NIV 0)",
+    menu_start_mission: "LANCER LA MISSION",
+    menu_gallery: "GALERIE DÉBLOQUÉE",
+    menu_locked: "VERROUILLÉ",
+    menu_new: "NOUVEAU !",
+    menu_load_pack: "CHARGER UN PACK",
+    menu_pack_path: "DEPUIS UN CHEMIN",
+    menu_editor: "ÉDITEUR DE NIVEAUX",
+    menu_watch_last: "REVOIR LA DERNIÈRE PARTIE",
+    menu_load_replay: "CHARGER UN REPLAY",
+    menu_achievements: "SUCCÈS",
+    menu_stats: "STATISTIQUES",
+    menu_settings: "PARAMÈTRES",
+    menu_switch_profile: "Changer de profil",
+    menu_quality: "Qualité des effets",
+    menu_ghost: "FANTÔME : {state}",
+    menu_ghost_hint: "Affronte ta meilleure partie",
+    on: "OUI",
+    off: "NON",
+    pack_by: "par {author}",
+    pack_scores: "Scores du pack",
+    pack_remove: "Retirer le pack",
+    pack_path_prompt: "Chemin du pack de niveaux (ex. packs/mon-pack.json) :",
+    pack_too_big: "Pack \"{name}\" chargé, mais trop gros pour être conservé après un rechargement.",
+    pack_error: "Erreur de pack de niveaux : {message}",
+    pack_remove_confirm: "Retirer le pack \"{name}\" ? Sa progression et ses scores sont conservés.",
+    replay_missing_pack: "Erreur de replay : le pack \"{pack}\" n'est pas installé.",
+    replay_missing_level: "Erreur de replay : le niveau {level} n'existe pas.",
+    replay_error: "Erreur de replay : {message}",
+    profile_delete_confirm: "Supprimer le profil \"{name}\" et toute sa progression ?",
+    profile_imported: "Profil importé.",
+    profile_error: "Erreur de profil : {message}",
+    reset_confirm: "ATTENTION !\n\nVeux-tu vraiment EFFACER toute ta progression et tes scores ?\n\nCette action est irréversible et la page va se recharger.",
+    instructions: "Instructions: Coupez les zones pour révéler le fond. Évitez les ennemis!",
+    level: "NIVEAU",
+    score: "SCORE",
+    area: "ZONE",
+    time: "Temps",
+    ghost: "FANTÔME",
+    infinite_lives: "VIES INF",
+    stage: "NIVEAU {level}",
+    pause: "Pause",
+    pause_title: "PAUSE",
+    pause_subtitle: "Jeu arrêté",
+    resume: "Reprendre",
+    quit: "Quitter",
+    skip_simulation: "PASSER LA SIMULATION",
+    win_title: "Niveau Terminé",
+    win_subtitle: "Appuyez sur une touche...",
+    win_fullscreen: "Voir en plein écran",
+    win_system_ready: "SYSTÈME PRÊT",
+    next_level: "Niveau Suivant",
+    finish_game: "Terminer le Jeu",
+    download_replay: "Télécharger le replay",
+    save_replay: "ENREGISTRER LE REPLAY",
+    ai_comment: "Commentaire IA",
+    continue_title: "CONTINUER ?",
+    continue_yes: "OUI (-{penalty}% Score)",
+    continue_no: "NON (ABANDONNER)",
+    continues_used: "CONTINUES UTILISÉS : {count}",
+    record_title: "NOUVEAU RECORD !",
+    record_initials: "ENTRE TES INITIALES",
+    record_save: "ENREGISTRER",
+    record_total_score: "SCORE TOTAL",
+    record_level_time: "NIV {level} TEMPS {time}",
+    record_level_area: "NIV {level} ZONE {area}%",
+    game_over: "GAME OVER",
+    retry: "Réessayer",
+    exit: "Quitter",
+    ready: "PRÊT?",
+    go: "ALLEZ!",
+    broken: "CASSÉ!",
+    item_SCORE: "POINTS",
+    item_LIFE: "VIE",
+    item_FREEZE: "GEL",
+    item_SLOW: "RALENTI",
+    item_SHIELD: "BOUCLIER",
+    item_CUT_THROUGH: "TRAVERSÉE",
+    level_background: "Fond du niveau",
+    board_best_time: "MEILLEUR TEMPS",
+    board_best_area: "MEILLEURE ZONE",
+    board_device: "CET APPAREIL",
+    board_online: "EN LIGNE",
+    board_name: "Nom",
+    board_level: "Niv",
+    board_combo: "Combo",
+    board_loading: "CHARGEMENT...",
+    board_around: "Autour de toi",
+    board_entry: "{date} · {continues|# continue|# continues} · {livesLost|# vie perdue|# vies perdues}",
+    sync_local: "LOCAL SEULEMENT",
+    sync_synced: "SYNCHRONISÉ",
+    sync_syncing: "SYNCHRONISATION...",
+    sync_offline: "HORS LIGNE",
+    sync_pending: "{count} EN ATTENTE",
+    sync_retry: "RÉESSAYER",
+    sync_rejected: "SCORE NON VÉRIFIÉ : ENREGISTRÉ SUR CET APPAREIL UNIQUEMENT",
+    footer: "Utilisez {move} pour bouger. Coupez pour révéler. '{pause}' pour pause.",
+    settings_title: "PARAMÈTRES",
+    settings_profile: "Profil",
+    settings_played: "Joués",
+    settings_cleared: "Réussis",
+    settings_language: "Langue",
+    settings_volume: "Volume",
+    settings_reduced_effects: "Effets réduits",
+    settings_reduced_effects_hint: "Pas de flash à l'écran quand tu es touché",
+    settings_touch_layout: "Joystick tactile",
+    touch_LEFT: "Gauche",
+    touch_RIGHT: "Droite",
+    settings_controls: "Commandes",
+    settings_controls_hint: "Clique sur une touche pour la changer. Échap met toujours en pause et revient en arrière.",
+    settings_keep_moving: "Mouvement continu",
+    settings_keep_moving_hint: "Continue d'avancer après avoir relâché, jusqu'à un mur, une coupe fermée ou un coup",
+    preset_ZQSD: "ZQSD (AZERTY)",
+    preset_IJKL: "IJKL (gauchers)",
+    action_UP: "Haut",
+    action_DOWN: "Bas",
+    action_LEFT: "Gauche",
+    action_RIGHT: "Droite",
+    action_PAUSE: "Pause",
+    controls_press_key: "Appuie sur une touche pour {action}... (Échap pour annuler)",
+    controls_conflict: "{key} servait pour {action} : les touches ont été échangées.",
+    controls_unbound: "Aucune touche pour : {actions}",
+    settings_data: "Données",
+    settings_data_hint: "Transfère tous les profils, le tableau des scores et les paramètres vers un autre appareil. L'import fusionne avec la progression déjà présente.",
+    settings_export: "Exporter",
+    settings_import: "Importer",
+    settings_reset: "EFFACER LES DONNÉES",
+    settings_reset_hint: "Effacer la progression et recharger",
+    back: "RETOUR",
+    click_to_close: "CLIQUEZ POUR FERMER",
+    lives: "VIES",
+    music_mute: "Couper la musique et les sons",
+    music_enable: "Activer la musique et les sons",
+    profiles_title: "PROFILS",
+    profile_unlocked: "{count|# débloqué|# débloqués}",
+    profile_new: "NOUVEAU JOUEUR",
+    profile_create: "Créer un profil",
+    profile_add: "AJOUTER",
+    profile_name_taken: "Ce nom est déjà pris",
+    profile_delete: "Supprimer le profil",
+    achievements_title: "SUCCÈS",
+    achievement_unlocked: "Succès débloqué",
+    achievement_title_FIRST_CLEAR: "Premiers pas",
+    achievement_desc_FIRST_CLEAR: "Terminer un niveau",
+    achievement_title_BY_THE_BOOK: "Dans les règles",
+    achievement_desc_BY_THE_BOOK: "Terminer le niveau 0 sans passer la simulation",
+    achievement_title_UNTOUCHABLE: "Intouchable",
+    achievement_desc_UNTOUCHABLE: "Terminer un niveau sans perdre de vie",
+    achievement_title_SPEED_DEMON: "Bolide",
+    achievement_desc_SPEED_DEMON: "Terminer un niveau en moins de 60 secondes",
+    achievement_title_COMBO_MASTER: "Maître du combo",
+    achievement_desc_COMBO_MASTER: "Atteindre un combo x{target}",
+    achievement_title_BIG_CUT: "Grosse découpe",
+    achievement_desc_BIG_CUT: "Capturer {target} % d'un niveau en une seule découpe",
+    achievement_title_PERFECTIONIST: "Perfectionniste",
+    achievement_desc_PERFECTIONIST: "Finir un niveau avec {target} % révélés",
+    achievement_title_COLLECTOR: "Collectionneur",
+    achievement_desc_COLLECTOR: "Ramasser {target} bonus",
+    achievement_title_VETERAN: "Vétéran",
+    achievement_desc_VETERAN: "Terminer {target} niveaux",
+    achievement_title_CHAMPION: "Champion",
+    achievement_desc_CHAMPION: "Finir le jeu",
+    achievement_title_IRON_WILL: "Volonté de fer",
+    achievement_desc_IRON_WILL: "Finir le jeu sans utiliser de continue",
+    stats_title: "STATISTIQUES",
+    stats_profile: "Profil",
+    stats_play_time: "Temps de jeu",
+    stats_played: "Joués",
+    stats_cleared: "Terminés",
+    stats_tiles: "Cases",
+    stats_lives_lost: "Vies perdues",
+    stats_continues: "Continues",
+    stats_spike: "Pic de difficulté",
+    stats_spike_level: "Niveau {level} · {name}",
+    stats_lives_per_attempt: "Vies perdues par essai",
+    stats_clear_time: "Temps moyen de réussite",
+    stats_clear_rate: "Taux de réussite",
+    stats_lost_to: "Vies perdues contre",
+    stats_boss: "Boss",
+    stats_minion: "Sbire",
+    stats_capture_sizes: "Taille des captures",
+    replay: "REPLAY",
+    replay_play: "Lecture",
+    replay_restart: "Revenir au début",
+    replay_exit: "Quitter le replay",
+    editor_title: "ÉDITEUR DE NIVEAUX",
+    editor_tool_REVEAL: "Révéler",
+    editor_tool_COVER: "Couvrir",
+    editor_tool_OBSTACLE: "Obstacle",
+    editor_tool_BOSS: "Départ de boss",
+    editor_tool_MINION: "Départ de sbire",
+    editor_brush: "Pinceau",
+    editor_pre_revealed: "DÉJÀ RÉVÉLÉ",
+    editor_drop_image: "DÉPOSEZ UNE IMAGE ICI",
+    editor_name: "Nom",
+    editor_choose_image: "Choisir une image",
+    editor_change_image: "Changer d'image",
+    editor_boss_speed: "Vitesse des boss",
+    editor_goal: "Objectif %",
+    editor_bosses: "Boss",
+    editor_minions: "Sbires",
+    editor_difficulty: "Difficulté",
+    editor_item_interval: "Bonus toutes les (s)",
+    editor_music: "Musique",
+    editor_track: "Piste {number}",
+    editor_spawn_hint: "Les boss partent tour à tour de leurs points de départ (du centre s'il n'y en a pas). Les sbires doivent partir de cases révélées, par exemple le bord.",
+    editor_play_test: "Tester",
+    editor_play_test_title: "Test : {name}",
+    editor_back: "Retour à l'éditeur",
+    editor_level_clear: "NIVEAU TERMINÉ",
+    editor_save: "Enregistrer",
+    editor_export: "Exporter",
+    editor_open_saved: "Ouvrir un niveau enregistré...",
+    editor_new: "Nouveau",
+    editor_new_confirm: "Commencer un nouveau niveau ? Le brouillon actuel sera perdu.",
+    editor_saved: "« {name} » enregistré dans Mes niveaux.",
+    editor_boss_spawn_tile: "Les boss doivent partir de cases couvertes.",
+    editor_minion_spawn_tile: "Les sbires doivent partir de cases révélées.",
+    editor_draft_too_big: "Brouillon trop lourd pour l'enregistrement automatique (essayez une image plus petite).",
+    editor_image_unreadable: "Impossible de lire l'image",
+    editor_not_an_image: "Ce fichier n'est pas une image"
+  },
+  teasing: [
+    "C'est tout ce que tu as ?",
+    "Tu joues avec le feu...",
+    "Plus vite, plus loin.",
+    "Ne me déçois pas maintenant.",
+    "Je te vois trembler...",
+    "Tu m'as presque touchée.",
+    "Le succès te fait peur ?",
+    "Prends un peu plus de risques.",
+    "Quelle technique... intéressante.",
+    "Je m'ennuie là-dedans.",
+    "Attention à tes arrières.",
+    "Trop lent à mon goût."
+  ],
+  silverLines: {
+    CAPTURE: ["Belle coupe.", "C'est ça, continue.", "Encore un morceau."],
+    BIG_CAPTURE: ["{area} % d'un seul coup ! 😳", "Quelle gourmandise !", "Aïe, le boss l'a senti passer."],
+    ITEM: ["Oh, un cadeau.", "C'est pour moi ?", "Utilise-le bien."],
+    NEAR_MISS: ["De justesse ! 😅", "Ouf, presque.", "Ça t'a frôlé..."],
+    DAMAGE: ["Aïe !", "Ça a dû faire mal.", "Regarde où tu vas !"],
+    LOW_LIVES: ["Dernière vie... aucune pression. 😈", "Plus que {lives|# vie|# vies}. Prudence."],
+    IDLE: ["Tu t'es endormi ?", "Allôôô, tu es là ?", "Rester immobile ne révèle rien."],
+    HALFWAY: ["À mi-chemin !", "{area} %... ça devient intéressant."],
+    ALMOST_THERE: ["Presque ! Encore un petit effort...", "{area} %... je sens la victoire."]
+  },
+  commentary: {
+    WIN: [
+      "Incroyable! Tes réflexes viennent d'une autre planète. 🚀",
+      "GG! C'était chirurgical. Es-tu un robot? 🤖",
+      "Destruction totale! Le niveau n'avait aucune chance. 🔥"
+    ],
+    GAME_OVER: [
+      "Aïe! Ça faisait mal à voir. Plus de chance la prochaine fois. 💀",
+      "Lag ou manque de talent? À toi de décider. 🤔",
+      "Presque! Mais 'presque' ne compte pas ici. ❌"
+    ]
+  },
+  commentaryTopics: {
+    WIN: {
+      NEW_BEST: ["{level} en {time} s, {delta} s de mieux que ton record ! 🚀", "Nouveau record perso : {time} s. Qui es-tu ? ⏱️"],
+      OFF_PACE: ["Réussi... {delta} s plus lent que ton record. Une sieste ? 🐢"],
+      FLAWLESS: ["Pas une égratignure. Tu es sûr de ne pas être un bot ? 🤖", "Aucune vie perdue. Tu me fais peur. 😳"],
+      BIG_CUT: ["Une seule coupe a pris {largestCapture} % de l'écran. Gourmand ! 🔪"],
+      COMBO: ["Combo x{comboPeak} ! Ça, c'est du rythme. 🔥"],
+      NEAR_MISSES: ["{nearMisses|# frôlement|# frôlements} et tu es encore là. 😅"],
+      CONTINUES: ["Tu y es arrivé... avec {continuesUsed|# continue|# continues}. Ça compte quand même. 🪙"]
+    },
+    GAME_OVER: {
+      SO_CLOSE: ["{area} % révélés et tu lâches maintenant ? Aïe. 💔"],
+      QUICK_DEATH: ["Éliminé en {time} secondes. Un record, en quelque sorte. 💀"],
+      NEAR_MISSES: ["Tu l'as esquivé {nearMisses|une fois|# fois}... puis plus. 😈"],
+      BIG_CUT: ["Une coupe de {largestCapture} %, puis la gourmandise. Classique. 🔪"],
+      COMBO: ["Un combo x{comboPeak} ne te sauvera pas. 🎲"],
+      CONTINUES: ["Déjà {continuesUsed|# continue|# continues}. Plus de pièces ? 🪙"]
+    }
+  }
+};
+
+export default fr;
@@ -0,0 +1,293 @@
+import type { LocaleDefinition } from '../services/i18n';
+
+const pt: LocaleDefinition = {
+  code: 'PT',
+  name: 'Português',
+  intl: 'pt-BR',
+  messages: {
+    menu_start: "ESCOLHA A FASE",
+    menu_scores: "MELHORES PONTUAÇÕES",
+    menu_credits: "DESENVOLVIDO POR SIILVEER GAMES",
+    menu_made_with: "FEITO COM REACT E GEMINI.",
+    menu_continue: "CONTINUAR NÍV {level}",
+    menu_restart: "REINICIAR (NÍV 0)",
+    menu_start_mission: "INICIAR MISSÃO",
+    menu_gallery: "GALERIA DESBLOQUEADA",
+    menu_locked: "BLOQUEADO",
+    menu_new: "NOVO!",
+    menu_load_pack: "CARREGAR PACOTE DE FASES",
+    menu_pack_path: "DE UM CAMINHO",
+    menu_editor: "EDITOR DE FASES",
+    menu_watch_last: "VER ÚLTIMA PARTIDA",
+    menu_load_replay: "CARREGAR REPLAY",
+    menu_achievements: "CONQUISTAS",
+    menu_stats: "ESTATÍSTICAS",
+    menu_settings: "CONFIGURAÇÕES",
+    menu_switch_profile: "Trocar de perfil",
+    menu_quality: "Qualidade dos efeitos",
+    menu_ghost: "FANTASMA: {state}",
+    menu_ghost_hint: "Corra contra a sua melhor partida",
+    on: "SIM",
+    off: "NÃO",
+    pack_by: "por {author}",
+    pack_scores: "Pontuações do pacote",
+    pack_remove: "Remover pacote",
+    pack_path_prompt: "Caminho do pacote de fases (ex. packs/meu-pacote.json):",
+    pack_too_big: "Pacote \"{name}\" carregado, mas é grande demais para ser mantido depois de recarregar.",
+    pack_error: "Erro no pacote de fases: {message}",
+    pack_remove_confirm: "Remover o pacote \"{name}\"? O progresso e as pontuações são mantidos.",
+    replay_missing_pack: "Erro de replay: o pacote \"{pack}\" não está instalado.",
+    replay_missing_level: "Erro de replay: a fase {level} não existe.",
+    replay_error: "Erro de replay: {message}",
+    profile_delete_confirm: "Apagar o perfil \"{name}\" e todo o seu progresso?",
+    profile_imported: "Perfil importado.",
+    profile_error: "Erro de perfil: {message}",
+    reset_confirm: "ATENÇÃO!\n\nTem certeza de que quer APAGAR todo o seu progresso e pontuações?\n\nIsso não pode ser desfeito e a página será recarregada.",
+    instructions: "Instruções: Corte áreas para revelar o fundo. Evite os inimigos!",
+    level: "FASE",
+    score: "PONTOS",
+    area: "ÁREA",
+    time: "Tempo",
+    ghost: "FANTASMA",
+    infinite_lives: "VIDAS INF",
+    stage: "FASE {level}",
+    pause: "Pausar",
+    pause_title: "PAUSA",
+    pause_subtitle: "Jogo parado",
+    resume: "Continuar",
+    quit: "Sair para o Menu",
+    skip_simulation: "PULAR SIMULAÇÃO",
+    win_title: "Fase Concluída",
+    win_subtitle: "Pressione qualquer tecla...",
+    win_fullscreen: "Ver em tela cheia",
+    win_system_ready: "SISTEMA PRONTO",
+    next_level: "Próxima Fase",
+    finish_game: "Terminar o Jogo",
+    download_replay: "Baixar replay",
+    save_replay: "SALVAR REPLAY",
+    ai_comment: "Comentário IA",
+    continue_title: "CONTINUAR?",
+    continue_yes: "SIM (-{penalty}% Pontos)",
+    continue_no: "NÃO (DESISTIR)",
+    continues_used: "CONTINUES USADOS: {count}",
+    record_title: "NOVO RECORDE!",
+    record_initials: "DIGITE SUAS INICIAIS",
+    record_save: "SALVAR PONTUAÇÃO",
+    record_total_score: "PONTUAÇÃO TOTAL",
+    record_level_time: "FASE {level} TEMPO {time}",
+    record_level_area: "FASE {level} ÁREA {area}%",
+    game_over: "GAME OVER",
+    retry: "Tentar de novo",
+    exit: "Sair",
+    ready: "PRONTO?",
+    go: "JÁ!",
+    broken: "QUEBROU!",
+    item_SCORE: "PONTOS",
+    item_LIFE: "VIDA",
+    item_FREEZE: "CONGELAR",
+    item_SLOW: "LENTO",
+    item_SHIELD: "ESCUDO",
+    item_CUT_THROUGH: "CORTE LIVRE",
+    level_background: "Fundo da fase",
+    board_best_time: "MELHOR TEMPO",
+    board_best_area: "MELHOR ÁREA",
+    board_device: "ESTE APARELHO",
+    board_online: "ONLINE",
+    board_name: "Nome",
+    board_level: "Fase",
+    board_combo: "Combo",
+    board_loading: "CARREGANDO...",
+    board_around: "Perto de você",
+    board_entry: "{date} · {continues|# continue|# continues} · {livesLost|# vida perdida|# vidas perdidas}",
+    sync_local: "SÓ LOCAL",
+    sync_synced: "SINCRONIZADO",
+    sync_syncing: "SINCRONIZANDO...",
+    sync_offline: "OFFLINE",
+    sync_pending: "{count} PENDENTES",
+    sync_retry: "TENTAR DE NOVO",
+    sync_rejected: "SUA PONTUAÇÃO NÃO FOI VERIFICADA: FOI SALVA SÓ NESTE DISPOSITIVO",
+    footer: "Use {move} para se mover. Corte para revelar. '{pause}' para pausar.",
+    settings_title: "CONFIGURAÇÕES",
+    settings_profile: "Perfil",
+    settings_played: "Jogadas",
+    settings_cleared: "Concluídas",
+    settings_language: "Idioma",
+    settings_volume: "Volume",
+    settings_reduced_effects: "Efeitos reduzidos",
+    settings_reduced_effects_hint: "Sem clarão na tela ao levar dano",
+    settings_touch_layout: "Joystick de toque",
+    touch_LEFT: "Esquerda",
+    touch_RIGHT: "Direita",
+    settings_controls: "Controles",
+    settings_controls_hint: "Clique numa tecla para trocá-la. Esc sempre pausa e volta.",
+    settings_keep_moving: "Movimento contínuo",
+    settings_keep_moving_hint: "Continua andando ao soltar a tecla, até uma parede, um corte fechado ou um golpe",
+    preset_ZQSD: "ZQSD (AZERTY)",
+    preset_IJKL: "IJKL (canhotos)",
+    action_UP: "Cima",
+    action_DOWN: "Baixo",
+    action_LEFT: "Esquerda",
+    action_RIGHT: "Direita",
+    action_PAUSE: "Pausa",
+    controls_press_key: "Pressione uma tecla para {action}... (Esc para cancelar)",
+    controls_conflict: "{key} era usada para {action}: as teclas foram trocadas.",
+    controls_unbound: "Nenhuma tecla para: {actions}",
+    settings_data: "Dados",
+    settings_data_hint: "Leve todos os perfis, a tabela de pontuações e as configurações para outro aparelho. Importar combina com o progresso que já está aqui.",
+    settings_export: "Exportar",
+    settings_import: "Importar",
+    settings_reset: "APAGAR DADOS",
+    settings_reset_hint: "Apagar progresso e recarregar",
+    back: "VOLTAR",
+    click_to_close: "CLIQUE PARA FECHAR",
+    lives: "VIDAS",
+    music_mute: "Silenciar música e efeitos",
+    music_enable: "Ativar música e efeitos",
+    profiles_title: "PERFIS",
+    profile_unlocked: "{count|# desbloqueado|# desbloqueados}",
+    profile_new: "NOVO JOGADOR",
+    profile_create: "Criar perfil",
+    profile_add: "ADICIONAR",
+    profile_name_taken: "Esse nome já está em uso",
+    profile_delete: "Apagar perfil",
+    achievements_title: "CONQUISTAS",
+    achievement_unlocked: "Conquista desbloqueada",
+    achievement_title_FIRST_CLEAR: "Primeiros passos",
+    achievement_desc_FIRST_CLEAR: "Conclua um nível",
+    achievement_title_BY_THE_BOOK: "Como manda o figurino",
+    achievement_desc_BY_THE_BOOK: "Conclua o nível 0 sem pular a simulação",
+    achievement_title_UNTOUCHABLE: "Intocável",
+    achievement_desc_UNTOUCHABLE: "Conclua um nível sem perder uma vida",
+    achievement_title_SPEED_DEMON: "Demônio da velocidade",
+    achievement_desc_SPEED_DEMON: "Conclua um nível em menos de 60 segundos",
+    achievement_title_COMBO_MASTER: "Mestre do combo",
+    achievement_desc_COMBO_MASTER: "Alcance um combo x{target}",
+    achievement_title_BIG_CUT: "Grande corte",
+    achievement_desc_BIG_CUT: "Capture {target}% de um nível num único corte",
+    achievement_title_PERFECTIONIST: "Perfeccionista",
+    achievement_desc_PERFECTIONIST: "Termine um nível com {target}% revelado",
+    achievement_title_COLLECTOR: "Colecionador",
+    achievement_desc_COLLECTOR: "Colete {target} power-ups",
+    achievement_title_VETERAN: "Veterano",
+    achievement_desc_VETERAN: "Conclua {target} níveis",
+    achievement_title_CHAMPION: "Campeão",
+    achievement_desc_CHAMPION: "Zere o jogo",
+    achievement_title_IRON_WILL: "Vontade de ferro",
+    achievement_desc_IRON_WILL: "Zere o jogo sem usar nenhum continue",
+    stats_title: "ESTATÍSTICAS",
+    stats_profile: "Perfil",
+    stats_play_time: "Tempo de jogo",
+    stats_played: "Jogados",
+    stats_cleared: "Concluídos",
+    stats_tiles: "Casas",
+    stats_lives_lost: "Vidas perdidas",
+    stats_continues: "Continues",
+    stats_spike: "Pico de dificuldade",
+    stats_spike_level: "Nível {level} · {name}",
+    stats_lives_per_attempt: "Vidas perdidas por tentativa",
+    stats_clear_time: "Tempo médio de conclusão",
+    stats_clear_rate: "Taxa de conclusão",
+    stats_lost_to: "Vidas perdidas para",
+    stats_boss: "Chefe",
+    stats_minion: "Lacaio",
+    stats_capture_sizes: "Tamanho das capturas",
+    replay: "REPLAY",
+    replay_play: "Reproduzir",
+    replay_restart: "Voltar ao início",
+    replay_exit: "Sair do replay",
+    editor_title: "EDITOR DE NÍVEIS",
+    editor_tool_REVEAL: "Revelar",
+    editor_tool_COVER: "Cobrir",
+    editor_tool_OBSTACLE: "Obstáculo",
+    editor_tool_BOSS: "Início de chefe",
+    editor_tool_MINION: "Início de lacaio",
+    editor_brush: "Pincel",
+    editor_pre_revealed: "JÁ REVELADO",
+    editor_drop_image: "SOLTE UMA IMAGEM AQUI",
+    editor_name: "Nome",
+    editor_choose_image: "Escolher imagem",
+    editor_change_image: "Trocar imagem",
+    editor_boss_speed: "Velocidade do chefe",
+    editor_goal: "Meta %",
+    editor_bosses: "Chefes",
+    editor_minions: "Lacaios",
+    editor_difficulty: "Dificuldade",
+    editor_item_interval: "Item a cada (s)",
+    editor_music: "Música",
+    editor_track: "Faixa {number}",
+    editor_spawn_hint: "Os chefes alternam entre os seus pontos de início (o centro se não houver nenhum). Os lacaios precisam começar em casas reveladas, como a borda.",
+    editor_play_test: "Testar",
+    editor_play_test_title: "Teste: {name}",
+    editor_back: "Voltar ao editor",
+    editor_level_clear: "NÍVEL CONCLUÍDO",
+    editor_save: "Salvar",
+    editor_export: "Exportar",
+    editor_open_saved: "Abrir nível salvo...",
+    editor_new: "Novo",
+    editor_new_confirm: "Começar um nível novo? O rascunho atual será perdido.",
+    editor_saved: "\"{name}\" salvo em Meus níveis.",
+    editor_boss_spawn_tile: "Os chefes precisam começar em casas cobertas.",
+    editor_minion_spawn_tile: "Os lacaios precisam começar em casas reveladas.",
+    editor_draft_too_big: "Rascunho grande demais para o salvamento automático (tente uma imagem menor).",
+    editor_image_unreadable: "Não foi possível ler a imagem",
+    editor_not_an_image: "Esse arquivo não é uma imagem"
+  },
+  teasing: [
+    "É só isso que você tem?",
+    "Você está brincando com fogo...",
+    "Mais rápido, mais fundo.",
+    "Não me decepcione agora.",
+    "Estou vendo você tremer...",
+    "Quase me tocou.",
+    "Tem medo do sucesso?",
+    "Arrisque um pouco mais.",
+    "Que técnica... interessante.",
+    "Estou ficando entediada aqui dentro.",
+    "Cuidado com a retaguarda.",
+    "Lento demais para o meu gosto."
+  ],
+  silverLines: {
+    CAPTURE: ["Belo corte.", "Isso, continue assim.", "Só mais um pedacinho."],
+    BIG_CAPTURE: ["{area}% num corte só! 😳", "Que ambição!", "Nossa, o chefe sentiu essa."],
+    ITEM: ["Ooh, um presentinho.", "Isso é pra mim?", "Use bem."],
+    NEAR_MISS: ["Por um triz! 😅", "Ufa, quase.", "Essa passou raspando..."],
+    DAMAGE: ["Ai!", "Essa deve ter doído.", "Olha por onde anda!"],
+    LOW_LIVES: ["Última vida... sem pressão. 😈", "Resta {lives|# vida|# vidas}. Cuidado."],
+    IDLE: ["Dormiu?", "Alôôô, ainda está aí?", "Ficar parado não revela nada."],
+    HALFWAY: ["Já está na metade!", "{area}%... agora está ficando interessante."],
+    ALMOST_THERE: ["Quase lá! Só mais um pouco...", "{area}%... sinto o cheiro da vitória."]
+  },
+  commentary: {
+    WIN: [
+      "Incrível! Seus reflexos são de outro planeta. 🚀",
+      "GG! Isso foi cirúrgico. Você é um robô? 🤖",
+      "Destruição total! A fase não teve chance. 🔥"
+    ],
+    GAME_OVER: [
+      "Ui! Doeu só de ver. Mais sorte na próxima. 💀",
+      "Lag ou falta de habilidade? Você decide. 🤔",
+      "Quase! Mas no arcade 'quase' não conta. ❌"
+    ]
+  },
+  commentaryTopics: {
+    WIN: {
+      NEW_BEST: ["{level} em {time} s, {delta} s abaixo do seu recorde! 🚀", "Novo recorde pessoal: {time} s. Quem é você? ⏱️"],
+      OFF_PACE: ["Passou... {delta} s mais lento que o seu recorde. Tirou um cochilo? 🐢"],
+      FLAWLESS: ["Nem um arranhão. Tem certeza de que não é um bot? 🤖", "Nenhuma vida perdida. Você está me assustando. 😳"],
+      BIG_CUT: ["Um corte só levou {largestCapture}% da tela. Que gula! 🔪"],
+      COMBO: ["Combo x{comboPeak}! Isso que é ritmo. 🔥"],
+      NEAR_MISSES: ["{nearMisses|# raspão|# raspões} com a morte e você continua aqui. 😅"],
+      CONTINUES: ["Você conseguiu... com {continuesUsed|# continue|# continues}. Vale do mesmo jeito. 🪙"]
+    },
+    GAME_OVER: {
+      SO_CLOSE: ["{area}% revelado e você desiste agora? Dói. 💔"],
+      QUICK_DEATH: ["Fora em {time} segundos. Um recorde, à sua maneira. 💀"],
+      NEAR_MISSES: ["Você desviou {nearMisses|uma vez|# vezes}... e na seguinte, não. 😈"],
+      BIG_CUT: ["Um corte de {largestCapture}% e depois a ganância. Clássico. 🔪"],
+      COMBO: ["Um combo x{comboPeak} não te salva de nada. 🎲"],
+      CONTINUES: ["Já são {continuesUsed|# continue|# continues}. Ainda tem fichas? 🪙"]
+    }
+  }
+};
+
+export default pt;
@@ -0,0 +1,151 @@
+// Local stand-in for the remote leaderboard, for development and tests.
+//
+//   npm run leaderboard-server            (listens on http://localhost:8787)
+//   VITE_LEADERBOARD_URL=http://localhost:8787 npm run dev
+//
+// Boards live in memory; set LEADERBOARD_FILE to keep them between restarts.
+// Set LEADERBOARD_FAIL_RATE (0..1) to make submissions fail at random and
+// exercise the game's offline queue.
+//
+// Submissions are verified by re-simulating their run proof with the game's
+// own code (scripts/loadVerifier.mjs) against the core levels and the packs in
+// public/packs; entries that do not match get 422. LEADERBOARD_VERIFY=0 turns
+// verification off.
+//
+// API (board = "score", "time-<levelId>" or "area-<levelId>"):
+//   POST /boards/:packId/:board                          body: ScoreEntry -> 201 { rank }
+//   GET  /boards/:packId/:board/top?limit=10             -> { entries }
+//   GET  /boards/:packId/:board/around?player=ABC&radius=2 -> { entries } (with rank)
+//   GET  /health
+
+import http from 'node:http';
+import fs from 'node:fs';
+import { loadVerifier, listPackFiles, PUBLIC_PACKS_DIR } from './loadVerifier.mjs';
+
+const PORT = Number(process.env.PORT ?? 8787);
+const FILE = process.env.LEADERBOARD_FILE;
+const FAIL_RATE = Number(process.env.LEADERBOARD_FAIL_RATE ?? 0);
+const MAX_ENTRIES = 100; // Per board
+const MAX_LIMIT = 100;
+const MAX_BODY = 512 * 1024; // Run proofs of long runs
+const verifier = process.env.LEADERBOARD_VERIFY === '0'
+  ? null
+  : await loadVerifier({ packFiles: listPackFiles(PUBLIC_PACKS_DIR) });
+
+// Same ordering as services/leaderboard.ts (BOARD_ORDER)
+const timeOf = (e) => e.time ?? Infinity;
+const ORDER = {
+  score: (a, b) => b.score - a.score,
+  time: (a, b) => (timeOf(a) - timeOf(b)) || b.score - a.score,
+  area: (a, b) => ((b.area ?? 0) - (a.area ?? 0)) || (timeOf(a) - timeOf(b))
+};
+
+const boards = FILE && fs.existsSync(FILE) ? JSON.parse(fs.readFileSync(FILE, 'utf8')) : {};
+
+const persist = () => {
+  if (FILE) fs.writeFileSync(FILE, JSON.stringify(boards));
+};
+
+const isNumber = (v) => typeof v === 'number' && Number.isFinite(v);
+const isOptionalNumber = (v) => v === undefined || isNumber(v);
+
+const validateEntry = (entry, kind) => {
+  if (!entry || typeof entry !== 'object') return 'Entry must be an object';
+  if (typeof entry.playerName !== 'string' || !/^[A-Z0-9 ]{1,3}$/.test(entry.playerName)) return 'playerName must be 1-3 characters';
+  if (!isNumber(entry.score) || entry.score < 0) return 'score must be a positive number';
+  if (!Number.isInteger(entry.level)) return 'level must be an integer';
+  if (typeof entry.date !== 'string') return 'date is required';
+  for (const key of ['continuesUsed', 'livesLost', 'maxCombo', 'time', 'area']) {
+    if (!isOptionalNumber(entry[key])) return `${key} must be a number`;
+  }
+  if (kind === 'time' && !isNumber(entry.time)) return 'time is required on time boards';
+  if (kind === 'area' && !isNumber(entry.area)) return 'area is required on area boards';
+  return null;
+};
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type'
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  let data = '';
+  const onData = chunk => {
+    data += chunk;
+    if (data.length <= MAX_BODY) return;
+    // Stop reading and drop the connection instead of buffering the rest
+    req.off('data', onData);
+    req.destroy();
+    reject(new Error('Body too large'));
+  };
+  req.on('data', onData);
+  req.on('end', () => resolve(data));
+  req.on('error', reject);
+});
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url ?? '/', `http://localhost:${PORT}`);
+  if (req.method === 'OPTIONS') return send(res, 204);
+  if (url.pathname === '/health') return send(res, 200, { ok: true });
+
+  const match = url.pathname.match(/^\/boards\/([^/]+)\/(score|time-\d+|area-\d+)(?:\/(top|around))?$/);
+  if (!match) return send(res, 404, { error: 'Not found' });
+
+  const [, packId, boardName, view] = match;
+  const kind = boardName.split('-')[0];
+  const key = `${decodeURIComponent(packId)}/${boardName}`;
+  const board = boards[key] ?? [];
+
+  if (req.method === 'POST' && !view) {
+    if (Math.random() < FAIL_RATE) return send(res, 503, { error: 'Simulated outage' });
+    let entry;
+    try {
+      entry = JSON.parse(await readBody(req));
+    } catch {
+      return send(res, 400, { error: 'Body must be JSON' });
+    }
+    const error = validateEntry(entry, kind);
+    if (error) return send(res, 400, { error });
+    if (verifier) {
+      const levelId = kind === 'score' ? undefined : Number(boardName.split('-')[1]);
+      const result = verifier.verify(entry, { packId: decodeURIComponent(packId), kind: kind.toUpperCase(), levelId });
+      if (!result.ok) {
+        console.log(`${key}: rejected ${entry.playerName} ${entry.score} (${result.errors.join('; ')})`);
+        return send(res, 422, { error: result.errors.join('; ') });
+      }
+    }
+    delete entry.proof; // Only needed for verification
+    const next = [...board, entry].sort(ORDER[kind]).slice(0, MAX_ENTRIES);
+    boards[key] = next;
+    persist();
+    const rank = next.indexOf(entry) + 1; // 0 when it did not make the board
+    console.log(`${key}: ${entry.playerName} ${entry.score} -> #${rank || '-'}`);
+    return send(res, 201, { rank });
+  }
+
+  if (req.method === 'GET' && view === 'top') {
+    const limit = Math.min(MAX_LIMIT, Math.max(1, Number(url.searchParams.get('limit') ?? 10) || 10));
+    return send(res, 200, { entries: board.slice(0, limit) });
+  }
+
+  if (req.method === 'GET' && view === 'around') {
+    const player = (url.searchParams.get('player') ?? '').toUpperCase();
+    const radius = Math.min(10, Math.max(0, Number(url.searchParams.get('radius') ?? 2) || 0));
+    const index = board.findIndex(e => e.playerName === player);
+    if (index < 0) return send(res, 200, { entries: [] });
+    const start = Math.max(0, index - radius);
+    const entries = board.slice(start, index + radius + 1).map((e, i) => ({ ...e, rank: start + i + 1 }));
+    return send(res, 200, { entries });
+  }
+
+  return send(res, 405, { error: 'Method not allowed' });
+});
+
+server.listen(PORT, () => {
+  console.log(`Leaderboard server listening on http://localhost:${PORT}${verifier ? '' : ' (verification off)'}`);
+});
@@ -0,0 +1,51 @@
+// Loads the game's score verifier (services/scoreVerifier.ts) in Node through
+// Vite's SSR module loader, so scripts re-simulate runs with exactly the code
+// the game runs.
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { createServer } from 'vite';
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+export const PUBLIC_PACKS_DIR = path.join(ROOT, 'public', 'packs');
+
+export const listPackFiles = (dir) =>
+  fs.existsSync(dir) ? fs.readdirSync(dir).filter(f => f.endsWith('.json')).map(f => path.join(dir, f)) : [];
+
+/**
+ * Resolves to { verify(entry, board), packs, close() }. The core levels are
+ * always known; other packs are read from `packFiles`.
+ */
+export const loadVerifier = async ({ packFiles = [] } = {}) => {
+  const vite = await createServer({
+    root: ROOT,
+    configFile: false,
+    logLevel: 'error',
+    appType: 'custom',
+    server: { middlewareMode: true, hmr: false }
+  });
+
+  const [{ verifyScoreEntry }, { CORE_PACK }, { parseLevelPack }] = await Promise.all([
+    vite.ssrLoadModule('/services/scoreVerifier.ts'),
+    vite.ssrLoadModule('/constants.ts'),
+    vite.ssrLoadModule('/services/levelPacks.ts')
+  ]);
+
+  const packs = new Map([[CORE_PACK.id, CORE_PACK]]);
+  for (const file of packFiles) {
+    const pack = parseLevelPack(JSON.parse(fs.readFileSync(file, 'utf8')), pathToFileURL(file).href);
+    packs.set(pack.id, pack);
+  }
+
+  return {
+    packs,
+    verify: (entry, board) => {
+      const pack = packs.get(board.packId);
+      if (!pack) return { ok: false, errors: [`Unknown pack "${board.packId}"`] };
+      return verifyScoreEntry(entry, board, pack.levels);
+    },
+    close: () => vite.close()
+  };
+};
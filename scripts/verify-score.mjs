@@ -0,0 +1,48 @@
+// Re-simulates submitted scores from their run proofs.
+//
+//   npm run verify-score -- submissions.json [--pack path/to/pack.json ...]
+//
+// The file holds one { "board": BoardRef, "entry": ScoreEntry } object or an
+// array of them; the game's offline queue (localStorage key
+// SIILVEER_PANIIC_SUBMISSIONS) can be pasted as is. Packs in public/packs are
+// always loaded. Exits with 1 when any entry fails.
+
+import fs from 'node:fs';
+import { loadVerifier, listPackFiles, PUBLIC_PACKS_DIR } from './loadVerifier.mjs';
+
+const args = process.argv.slice(2);
+const packFiles = listPackFiles(PUBLIC_PACKS_DIR);
+const inputs = [];
+for (let i = 0; i < args.length; i++) {
+  if (args[i] === '--pack') packFiles.push(args[++i]);
+  else inputs.push(args[i]);
+}
+
+if (inputs.length !== 1) {
+  console.error('Usage: npm run verify-score -- <submissions.json> [--pack <pack.json>]');
+  process.exit(2);
+}
+
+const data = JSON.parse(fs.readFileSync(inputs[0], 'utf8'));
+const submissions = Array.isArray(data) ? data : [data];
+
+const verifier = await loadVerifier({ packFiles });
+let failed = 0;
+try {
+  submissions.forEach(({ board, entry }, i) => {
+    const label = `#${i + 1} ${board?.packId}/${board?.kind}${board?.levelId !== undefined ? `-${board.levelId}` : ''} ${entry?.playerName} ${entry?.score}`;
+    const result = board && entry ? verifier.verify(entry, board) : { ok: false, errors: ['Missing board or entry'] };
+    if (result.ok) {
+      console.log(`OK    ${label}`);
+    } else {
+      failed++;
+      console.log(`FAIL  ${label}`);
+      result.errors.forEach(error => console.log(`      - ${error}`));
+    }
+  });
+} finally {
+  await verifier.close();
+}
+
+console.log(`${submissions.length - failed}/${submissions.length} verified`);
+process.exit(failed > 0 ? 1 : 0);
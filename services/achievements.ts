@@ -0,0 +1,142 @@
+import { AchievementRecord, Language } from '../types';
+import { CORE_PACK_ID } from '../constants';
+import { t } from './i18n';
+
+/**
+ * Achievements.
+ *
+ * Gameplay reports what happened as AchievementEvents (captures and items from
+ * GameCanvas, level and run results from App). Every achievement turns events
+ * into a progress value and unlocks once it reaches its target. Pure: the
+ * caller keeps the records in the active profile. Titles and descriptions
+ * live in the locales, under the achievement's id.
+ */
+export type AchievementEvent =
+  | { type: 'CAPTURE'; combo: number; area: number } // area: percentage revealed by this cut
+  | { type: 'ITEM' }
+  | { type: 'LEVEL_COMPLETE'; packId: string; levelId: number; time: number; area: number; livesLost: number; skipped: boolean }
+  | { type: 'GAME_COMPLETE'; packId: string; continuesUsed: number }; // Last level of a pack cleared
+
+export type AchievementId =
+  | 'FIRST_CLEAR' | 'BY_THE_BOOK' | 'UNTOUCHABLE' | 'SPEED_DEMON' | 'COMBO_MASTER' | 'BIG_CUT'
+  | 'PERFECTIONIST' | 'COLLECTOR' | 'VETERAN' | 'CHAMPION' | 'IRON_WILL';
+
+export interface Achievement {
+  id: AchievementId;
+  target: number;
+  track: (event: AchievementEvent, progress: number) => number; // Progress after the event
+}
+
+type LevelComplete = Extract<AchievementEvent, { type: 'LEVEL_COMPLETE' }>;
+type GameComplete = Extract<AchievementEvent, { type: 'GAME_COMPLETE' }>;
+
+// A skipped level was not actually played, so it never counts
+const isClear = (event: AchievementEvent): event is LevelComplete => event.type === 'LEVEL_COMPLETE' && !event.skipped;
+const isCoreWin = (event: AchievementEvent): event is GameComplete => event.type === 'GAME_COMPLETE' && event.packId === CORE_PACK_ID;
+
+const once = (test: (event: AchievementEvent) => boolean) =>
+  (event: AchievementEvent, progress: number) => test(event) ? 1 : progress;
+const count = (test: (event: AchievementEvent) => boolean) =>
+  (event: AchievementEvent, progress: number) => test(event) ? progress + 1 : progress;
+const best = (measure: (event: AchievementEvent) => number | undefined) =>
+  (event: AchievementEvent, progress: number) => Math.max(progress, measure(event) ?? 0);
+
+export const ACHIEVEMENTS: Achievement[] = [
+  {
+    id: 'FIRST_CLEAR', target: 1,
+    track: once(isClear)
+  },
+  {
+    id: 'BY_THE_BOOK', target: 1,
+    track: once(e => isClear(e) && e.packId === CORE_PACK_ID && e.levelId === 0)
+  },
+  {
+    id: 'UNTOUCHABLE', target: 1,
+    track: once(e => isClear(e) && e.livesLost === 0)
+  },
+  {
+    id: 'SPEED_DEMON', target: 1,
+    track: once(e => isClear(e) && e.time < 60)
+  },
+  {
+    id: 'COMBO_MASTER', target: 10,
+    track: best(e => e.type === 'CAPTURE' ? e.combo : undefined)
+  },
+  {
+    id: 'BIG_CUT', target: 30,
+    track: best(e => e.type === 'CAPTURE' ? Math.floor(e.area) : undefined)
+  },
+  {
+    id: 'PERFECTIONIST', target: 95,
+    track: best(e => isClear(e) ? Math.floor(e.area) : undefined)
+  },
+  {
+    id: 'COLLECTOR', target: 50,
+    track: count(e => e.type === 'ITEM')
+  },
+  {
+    id: 'VETERAN', target: 25,
+    track: count(isClear)
+  },
+  {
+    id: 'CHAMPION', target: 1,
+    track: once(isCoreWin)
+  },
+  {
+    id: 'IRON_WILL', target: 1,
+    track: once(e => isCoreWin(e) && e.continuesUsed === 0)
+  }
+];
+
+export const achievementTitle = (language: Language, achievement: Achievement) =>
+  t(language, `achievement_title_${achievement.id}`);
+
+export const achievementDescription = (language: Language, achievement: Achievement) =>
+  t(language, `achievement_desc_${achievement.id}`, { target: achievement.target });
+
+export const getAchievementRecord = (records: Record<string, AchievementRecord>, id: string): AchievementRecord =>
+  records[id] ?? { progress: 0 };
+
+/**
+ * Applies one event. Returns the same records object when nothing changed, so
+ * the frequent events (captures, items) do not rewrite the profile for nothing.
+ */
+export const applyAchievementEvent = (
+  records: Record<string, AchievementRecord>, event: AchievementEvent
+): { records: Record<string, AchievementRecord>; unlocked: Achievement[] } => {
+  let next = records;
+  const unlocked: Achievement[] = [];
+  ACHIEVEMENTS.forEach(achievement => {
+    const current = getAchievementRecord(records, achievement.id);
+    if (current.unlockedAt) return;
+    const progress = Math.min(achievement.target, achievement.track(event, current.progress));
+    if (progress === current.progress) return;
+    const record: AchievementRecord = { progress };
+    if (progress >= achievement.target) {
+      record.unlockedAt = new Date().toISOString();
+      unlocked.push(achievement);
+    }
+    next = { ...next, [achievement.id]: record };
+  });
+  return { records: next, unlocked };
+};
+
+/**
+ * Joins two sets of records (profile import): the higher progress wins and the
+ * earlier unlock date is kept.
+ */
+export const mergeAchievements = (
+  current: Record<string, AchievementRecord>, incoming: Record<string, AchievementRecord>
+): Record<string, AchievementRecord> => {
+  const merged = { ...current };
+  Object.entries(incoming).forEach(([id, record]) => {
+    const existing = merged[id];
+    if (!existing) {
+      merged[id] = record;
+      return;
+    }
+    const dates = [existing.unlockedAt, record.unlockedAt].filter((d): d is string => !!d).sort();
+    merged[id] = { progress: Math.max(existing.progress, record.progress), ...(dates[0] ? { unlockedAt: dates[0] } : {}) };
+  });
+  return merged;
+};
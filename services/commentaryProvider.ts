@@ -0,0 +1,69 @@
+import { CommentaryRequest } from '../types';
+import { pickCommentary } from './commentaryTemplates';
+
+/**
+ * Commentary providers: where Silver's end-of-level lines come from.
+ *
+ * The static provider picks from the built-in lines and always works; the
+ * Gemini provider (services/geminiService.ts) writes a line for the actual
+ * result and falls back to the static one when there is no key or network.
+ */
+export interface CommentaryProvider {
+  name: string;
+  getCommentary: (request: CommentaryRequest) => Promise<string>;
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Built-in lines, filled in with the run's facts (services/commentaryTemplates.ts).
+ * The short delay keeps the "..." from flashing.
+ */
+export const createStaticCommentary = (delayMs = 500, random: () => number = Math.random): CommentaryProvider => ({
+  name: 'static',
+  getCommentary: async (request) => {
+    await wait(delayMs);
+    return pickCommentary(request, random);
+  }
+});
+
+/**
+ * Uses `primary`, and `fallback` whenever it fails or the browser is offline.
+ */
+export const withFallback = (primary: CommentaryProvider, fallback: CommentaryProvider): CommentaryProvider => ({
+  name: primary.name,
+  getCommentary: async (request) => {
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) return fallback.getCommentary(request);
+    try {
+      return await primary.getCommentary(request);
+    } catch (err) {
+      console.warn(`Commentary: ${primary.name} failed, using ${fallback.name}`, err);
+      return fallback.getCommentary(request);
+    }
+  }
+});
+
+export interface MockCommentaryProvider extends CommentaryProvider {
+  requests: CommentaryRequest[]; // Every request received, oldest first
+}
+
+/**
+ * Scripted provider for tests: answers from `lines` in turn (or through a
+ * function), records every request and can be made to fail.
+ */
+export const createMockCommentary = (
+  lines: string[] | ((request: CommentaryRequest) => string) = ['MOCK COMMENTARY'],
+  options: { delayMs?: number; fail?: boolean } = {}
+): MockCommentaryProvider => {
+  const requests: CommentaryRequest[] = [];
+  return {
+    name: 'mock',
+    requests,
+    getCommentary: async (request) => {
+      requests.push(request);
+      if (options.delayMs) await wait(options.delayMs);
+      if (options.fail) throw new Error('Mock commentary failure');
+      return typeof lines === 'function' ? lines(request) : lines[(requests.length - 1) % lines.length];
+    }
+  };
+};
@@ -0,0 +1,82 @@
+import { CommentaryRequest, CommentaryTopic } from '../types';
+import { getLocale, renderTemplate, TemplateValues } from './i18n';
+
+/**
+ * Offline commentary that talks about the actual run.
+ *
+ * Each topic has a condition on the run's facts; Silver picks one line among
+ * the topics that apply (lines live in each locale's commentaryTopics) and
+ * falls back to the generic lines when nothing stands out or no telemetry was
+ * sent. Templates are rendered by services/i18n.ts.
+ */
+
+type Facts = {
+  status: CommentaryRequest['status'];
+  area: number;
+  time: number;
+  largestCapture: number;
+  comboPeak: number;
+  nearMisses: number;
+  livesLost: number;
+  continuesUsed: number;
+  bestTime?: number;
+};
+
+// Every topic that applies adds its lines to the pick
+const TOPICS: { topic: CommentaryTopic; when: (facts: Facts) => boolean }[] = [
+  { topic: 'NEW_BEST', when: f => f.status === 'WIN' && f.bestTime !== undefined && f.time < f.bestTime },
+  { topic: 'OFF_PACE', when: f => f.status === 'WIN' && f.bestTime !== undefined && f.time > f.bestTime + 10 },
+  { topic: 'FLAWLESS', when: f => f.livesLost === 0 },
+  { topic: 'BIG_CUT', when: f => f.largestCapture >= 20 },
+  { topic: 'COMBO', when: f => f.comboPeak >= 4 },
+  { topic: 'NEAR_MISSES', when: f => f.nearMisses >= 3 },
+  { topic: 'CONTINUES', when: f => f.continuesUsed >= (f.status === 'WIN' ? 1 : 2) },
+  { topic: 'SO_CLOSE', when: f => f.area >= 60 },
+  { topic: 'QUICK_DEATH', when: f => f.time < 20 }
+];
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+/**
+ * Topics that apply to the request, in TOPICS order (empty without telemetry).
+ */
+export const findCommentaryTopics = (request: CommentaryRequest): CommentaryTopic[] => {
+  if (!request.telemetry) return [];
+  const facts: Facts = {
+    status: request.status,
+    area: request.stats.areaRevealed,
+    time: request.stats.timeElapsed,
+    continuesUsed: request.continuesUsed ?? 0,
+    bestTime: request.bestTime,
+    ...request.telemetry
+  };
+  const lines = getLocale(request.language).commentaryTopics[request.status] ?? {};
+  return TOPICS.filter(t => lines[t.topic]?.length && t.when(facts)).map(t => t.topic);
+};
+
+export const pickCommentary = (request: CommentaryRequest, random: () => number = Math.random): string => {
+  const { status, stats, language, telemetry } = request;
+  const topics = findCommentaryTopics(request);
+  const locale = getLocale(language);
+  const lines = topics.flatMap(topic => locale.commentaryTopics[status]?.[topic] ?? []);
+  if (lines.length === 0) {
+    const generic = locale.commentary[status];
+    return generic[Math.floor(random() * generic.length)];
+  }
+
+  const values: TemplateValues = {
+    level: request.levelName,
+    area: Math.floor(stats.areaRevealed),
+    time: round1(stats.timeElapsed),
+    score: stats.score,
+    largestCapture: Math.floor(telemetry!.largestCapture),
+    comboPeak: telemetry!.comboPeak,
+    nearMisses: telemetry!.nearMisses,
+    livesLost: telemetry!.livesLost,
+    continuesUsed: request.continuesUsed ?? 0,
+    ...(request.bestTime !== undefined
+      ? { best: round1(request.bestTime), delta: round1(Math.abs(stats.timeElapsed - request.bestTime)) }
+      : {})
+  };
+  return renderTemplate(lines[Math.floor(random() * lines.length)], values, language);
+};
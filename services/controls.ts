@@ -0,0 +1,135 @@
+import { ControlAction, KeyBindings } from '../types';
+
+/**
+ * Keyboard bindings.
+ *
+ * Keys are stored as lower-cased KeyboardEvent.key values, so they follow the
+ * player's keyboard layout: on AZERTY the key labelled Z reports 'z'. Every
+ * action has BINDING_SLOTS slots; '' is an empty slot. Escape is reserved for
+ * pause and back and can never be bound.
+ */
+
+export const CONTROL_ACTIONS: ControlAction[] = ['UP', 'DOWN', 'LEFT', 'RIGHT', 'PAUSE'];
+
+export const MOVE_ACTIONS: Record<Exclude<ControlAction, 'PAUSE'>, { x: number; y: number }> = {
+  UP: { x: 0, y: -1 },
+  DOWN: { x: 0, y: 1 },
+  LEFT: { x: -1, y: 0 },
+  RIGHT: { x: 1, y: 0 }
+};
+
+export const BINDING_SLOTS = 2;
+
+export const RESERVED_KEYS = ['escape'];
+
+export type BindingPreset = 'WASD' | 'ZQSD' | 'IJKL';
+
+export const BINDING_PRESETS: Record<BindingPreset, KeyBindings> = {
+  WASD: {
+    UP: ['arrowup', 'w'],
+    DOWN: ['arrowdown', 's'],
+    LEFT: ['arrowleft', 'a'],
+    RIGHT: ['arrowright', 'd'],
+    PAUSE: ['p', '']
+  },
+  // AZERTY keyboards
+  ZQSD: {
+    UP: ['arrowup', 'z'],
+    DOWN: ['arrowdown', 's'],
+    LEFT: ['arrowleft', 'q'],
+    RIGHT: ['arrowright', 'd'],
+    PAUSE: ['p', '']
+  },
+  // Left-handed: movement under the right hand, with the numeric keypad as an alternative
+  IJKL: {
+    UP: ['i', '8'],
+    DOWN: ['k', '5'],
+    LEFT: ['j', '4'],
+    RIGHT: ['l', '6'],
+    PAUSE: ['enter', '']
+  }
+};
+
+export const DEFAULT_BINDINGS = BINDING_PRESETS.WASD;
+
+export const findAction = (bindings: KeyBindings, key: string): ControlAction | undefined => {
+  if (!key) return undefined;
+  return CONTROL_ACTIONS.find(action => bindings[action].includes(key));
+};
+
+/**
+ * Puts `key` in a slot. When the key already belonged to another slot the two
+ * slots swap keys, so nothing is silently lost; `conflict` names the action
+ * the key was taken from.
+ */
+export const bindKey = (
+  bindings: KeyBindings,
+  action: ControlAction,
+  slot: number,
+  key: string
+): { bindings: KeyBindings; conflict?: ControlAction } => {
+  const next = Object.fromEntries(
+    CONTROL_ACTIONS.map(a => [a, [...bindings[a]]])
+  ) as KeyBindings;
+  const previous = next[action][slot];
+  if (previous === key) return { bindings: next };
+
+  let conflict: ControlAction | undefined;
+  CONTROL_ACTIONS.forEach(other => {
+    const index = next[other].indexOf(key);
+    if (index === -1) return;
+    next[other][index] = previous;
+    if (other !== action) conflict = other;
+  });
+  next[action][slot] = key;
+  return { bindings: next, conflict };
+};
+
+// Actions left without any key, which the settings screen warns about
+export const unboundActions = (bindings: KeyBindings) =>
+  CONTROL_ACTIONS.filter(action => bindings[action].every(key => !key));
+
+const KEY_LABELS: Record<string, string> = {
+  arrowup: '↑',
+  arrowdown: '↓',
+  arrowleft: '←',
+  arrowright: '→',
+  ' ': 'SPACE',
+  escape: 'ESC',
+  '': '—'
+};
+
+export const keyLabel = (key: string) => KEY_LABELS[key] ?? key.toUpperCase();
+
+// Readable summary of the movement keys, e.g. "↑←↓→ / WASD"
+export const describeMovement = (bindings: KeyBindings) =>
+  Array.from({ length: BINDING_SLOTS }, (_, slot) =>
+    (['UP', 'LEFT', 'DOWN', 'RIGHT'] as ControlAction[]).map(action => bindings[action][slot])
+  )
+    .filter(keys => keys.every(Boolean))
+    .map(keys => keys.map(keyLabel).join(''))
+    .join(' / ');
+
+const isBindableKey = (key: unknown): key is string =>
+  typeof key === 'string' && !RESERVED_KEYS.includes(key.toLowerCase());
+
+/**
+ * Saved bindings are trusted per action: a malformed action falls back to its
+ * default keys, and a key bound twice keeps only its first slot.
+ */
+export const sanitizeBindings = (value: unknown): KeyBindings => {
+  const saved = typeof value === 'object' && value !== null ? value as Record<string, unknown> : {};
+  const seen = new Set<string>();
+  const bindings = {} as KeyBindings;
+  CONTROL_ACTIONS.forEach(action => {
+    const keys = saved[action];
+    const source = Array.isArray(keys) && keys.every(isBindableKey) ? keys : DEFAULT_BINDINGS[action];
+    bindings[action] = Array.from({ length: BINDING_SLOTS }, (_, slot) => {
+      const key = (source[slot] ?? '').toLowerCase();
+      if (!key || seen.has(key)) return '';
+      seen.add(key);
+      return key;
+    });
+  });
+  return bindings;
+};
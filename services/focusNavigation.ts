@@ -0,0 +1,96 @@
+import { Point } from '../types';
+
+/**
+ * Moves the focus between on-screen controls by direction, so menus work
+ * with a gamepad without each screen knowing about it.
+ *
+ * The next control is the nearest one on the requested side of the focused
+ * one, favouring those in line with it. The element it lands on gets
+ * PAD_FOCUS_ATTRIBUTE, which index.html outlines: browsers do not always show
+ * a focus ring for focus they did not see come from the keyboard.
+ */
+export const PAD_FOCUS_ATTRIBUTE = 'data-pad-focus';
+
+const FOCUSABLE = [
+  'button:not([disabled])',
+  'a[href]',
+  'input:not([disabled]):not([type="hidden"])',
+  'select:not([disabled])',
+  '[tabindex]:not([tabindex="-1"])'
+].join(', ');
+
+const OFF_AXIS_WEIGHT = 2; // How much being out of line counts against a candidate
+
+const isVisible = (element: HTMLElement) => {
+  const rect = element.getBoundingClientRect();
+  return rect.width > 0 && rect.height > 0 && getComputedStyle(element).visibility !== 'hidden';
+};
+
+const focusableElements = () =>
+  [...document.querySelectorAll<HTMLElement>(FOCUSABLE)].filter(isVisible);
+
+const centerOf = (element: HTMLElement) => {
+  const rect = element.getBoundingClientRect();
+  return { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 };
+};
+
+const focusElement = (element: HTMLElement) => {
+  element.focus();
+  element.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+  element.setAttribute(PAD_FOCUS_ATTRIBUTE, '');
+  element.addEventListener('blur', () => element.removeAttribute(PAD_FOCUS_ATTRIBUTE), { once: true });
+};
+
+const focusedElement = (candidates: HTMLElement[]) => {
+  const active = document.activeElement;
+  return active instanceof HTMLElement && candidates.includes(active) ? active : null;
+};
+
+export const moveFocus = (direction: Point) => {
+  const candidates = focusableElements();
+  const current = focusedElement(candidates);
+  if (!current) {
+    if (candidates.length > 0) focusElement(candidates[0]);
+    return;
+  }
+
+  // Sliders take left and right for themselves
+  if (current instanceof HTMLInputElement && current.type === 'range' && direction.x !== 0) {
+    if (direction.x > 0) current.stepUp(); else current.stepDown();
+    current.dispatchEvent(new Event('input', { bubbles: true }));
+    return;
+  }
+
+  const from = centerOf(current);
+  let best: HTMLElement | null = null;
+  let bestScore = Infinity;
+  for (const candidate of candidates) {
+    if (candidate === current) continue;
+    const to = centerOf(candidate);
+    const dx = to.x - from.x;
+    const dy = to.y - from.y;
+    const along = dx * direction.x + dy * direction.y;
+    if (along <= 0) continue;
+    const across = Math.abs(dx * direction.y - dy * direction.x);
+    const score = along + across * OFF_AXIS_WEIGHT;
+    if (score < bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  }
+  if (best) focusElement(best);
+};
+
+// Presses the focused control, or focuses the first one when there is none yet
+export const activateFocus = () => {
+  const candidates = focusableElements();
+  const current = focusedElement(candidates);
+  if (current) current.click();
+  else if (candidates.length > 0) focusElement(candidates[0]);
+};
+
+// Back is Escape: the screens that have one already listen for it. Sent from the
+// focused element like a real key press, so listeners can read its target
+export const goBack = () => {
+  (document.activeElement ?? document.body).dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape', bubbles: true }));
+};
@@ -0,0 +1,520 @@
+import {
+  GRID_WIDTH, GRID_HEIGHT, SIM_TICK_MS, PLAYER_SPEED_MS,
+  INVULNERABILITY_TIME, MINION_STEP_MS,
+  COMBO_TIMEOUT_MS, IDLE_TIMEOUT_MS, SCORE_PER_TILE,
+  ITEM_LIFETIME, ITEM_SPAWN_INTERVAL_MS, MAX_ITEMS, MAX_LIVES, ITEM_SCORE_BONUS,
+  ITEM_WEIGHTS, FREEZE_DURATION, SLOW_DURATION, SHIELD_DURATION
+} from '../constants';
+import {
+  LevelConfig, Point, SimulationState, SimulationEvent, TileType, Enemy, Item, ItemType
+} from '../types';
+import { createRng, Rng } from './rng';
+
+/**
+ * Headless, deterministic game simulation.
+ *
+ * Everything that decides the outcome of a level (grid, player, enemies, items,
+ * combo, score) lives here and advances in fixed `tickMs` steps driven only by
+ * the input passed to `step` and the seeded RNG. No DOM, no Date.now(), so it
+ * runs the same in the browser and in Node. GameCanvas only renders the state.
+ */
+export interface GameSimulation {
+  step: (input: Point) => SimulationEvent[];
+  canPlayerStep: () => boolean; // Whether a direction given to the next step moves the player
+  getState: () => Readonly<SimulationState>;
+  snapshot: () => SimulationState;
+  readonly tickMs: number;
+}
+
+export interface SimulationOptions {
+  seed: number;
+  tickMs?: number;
+  initialScore?: number; // Score carried over from previous levels
+  initialState?: SimulationState; // Resume from a snapshot
+}
+
+const PLAYFIELD_TILES = (GRID_WIDTH - 2) * (GRID_HEIGHT - 2);
+
+// Boss velocities are expressed in tiles per 60fps frame
+const FRAME_MS = 1000 / 60;
+
+const DIRECTIONS: Point[] = [{ x: 1, y: 0 }, { x: -1, y: 0 }, { x: 0, y: 1 }, { x: 0, y: -1 }];
+
+export const createInitialState = (level: LevelConfig, seed: number, initialScore: number = 0): SimulationState => {
+  const rng = createRng(seed);
+
+  const grid: TileType[][] = [];
+  for (let y = 0; y < GRID_HEIGHT; y++) {
+    const row: TileType[] = [];
+    for (let x = 0; x < GRID_WIDTH; x++) {
+      const border = x === 0 || y === 0 || x === GRID_WIDTH - 1 || y === GRID_HEIGHT - 1;
+      // Pack levels may start with parts of the picture already revealed, or with obstacles
+      const masked = level.mask?.[y]?.[x];
+      row.push(border || masked === '0' ? 0 : masked === 'X' ? 3 : 1);
+    }
+    grid.push(row);
+  }
+
+  const bosses: Enemy[] = Array.from({ length: level.enemyCount }, (_, i) => {
+    const a = rng.next() * Math.PI * 2;
+    const s = level.bossSpeed * (1 + i * 0.1);
+    const spawnPoint = level.bossSpawns?.length ? level.bossSpawns[i % level.bossSpawns.length] : null;
+    const spawn = spawnPoint
+      ? findCoveredTile(grid, spawnPoint.x + 0.5, spawnPoint.y + 0.5)
+      : findCoveredTile(grid, GRID_WIDTH / 2, GRID_HEIGHT / 2);
+    return {
+      x: spawn.x,
+      y: spawn.y,
+      vx: Math.cos(a) * s,
+      vy: Math.sin(a) * s,
+      type: 'BOSS',
+      changeDirTimer: 1500 + rng.next() * 2000
+    };
+  });
+
+  // Minions start on the border corners away from the player (who spawns top-left)
+  const minionSpawns: Point[] = [
+    { x: GRID_WIDTH - 1, y: GRID_HEIGHT - 1 },
+    { x: GRID_WIDTH - 1, y: 0 },
+    { x: 0, y: GRID_HEIGHT - 1 }
+  ];
+  const customSpawns = (level.minionSpawns ?? []).filter(p => grid[p.y]?.[p.x] === 0);
+  const minions: Enemy[] = Array.from({ length: level.minionCount ?? 0 }, (_, i) => {
+    const spawn = customSpawns.length > 0
+      ? customSpawns[i % customSpawns.length]
+      : minionSpawns[i % minionSpawns.length];
+    return { x: spawn.x, y: spawn.y, vx: 0, vy: 0, type: 'MINION', changeDirTimer: MINION_STEP_MS };
+  });
+
+  const enemies = [...bosses, ...minions];
+
+  return {
+    levelId: level.id,
+    seed,
+    rngState: rng.getState(),
+    tick: 0,
+    time: 0,
+    status: 'PLAYING',
+    grid,
+    player: { x: 0, y: 0, lives: 3, isDrawing: false, invulnerableUntil: 0, lastMoveTime: -PLAYER_SPEED_MS },
+    enemies,
+    items: [],
+    itemSpawnTimer: level.itemSpawnIntervalMs ?? ITEM_SPAWN_INTERVAL_MS,
+    powerUps: { freezeUntil: 0, slowUntil: 0, shieldUntil: 0, cutThroughArmed: false, trailImmune: false },
+    trail: [],
+    combo: { count: 1, lastActionTime: 0, lastMoveTime: 0 },
+    stats: { areaRevealed: calculateRevealed(grid), timeElapsed: 0, score: initialScore }
+  };
+};
+
+// Closest covered tile to (cx, cy), so bosses never start on a masked-out area
+const findCoveredTile = (grid: TileType[][], cx: number, cy: number): Point => {
+  if (grid[Math.floor(cy)][Math.floor(cx)] === 1) return { x: cx, y: cy };
+  let best = { x: cx, y: cy };
+  let bestDist = Infinity;
+  for (let y = 1; y < GRID_HEIGHT - 1; y++) {
+    for (let x = 1; x < GRID_WIDTH - 1; x++) {
+      const dist = Math.hypot(x + 0.5 - cx, y + 0.5 - cy);
+      if (grid[y][x] === 1 && dist < bestDist) {
+        bestDist = dist;
+        best = { x: x + 0.5, y: y + 0.5 };
+      }
+    }
+  }
+  return best;
+};
+
+/**
+ * Percentage of the playfield (border and obstacles excluded) that is no longer covered.
+ */
+export const calculateRevealed = (grid: TileType[][]): number => {
+  let revealed = 0;
+  let obstacles = 0;
+  for (let y = 1; y < GRID_HEIGHT - 1; y++) {
+    for (let x = 1; x < GRID_WIDTH - 1; x++) {
+      if (grid[y][x] === 0) revealed++;
+      else if (grid[y][x] === 3) obstacles++;
+    }
+  }
+  return (revealed / Math.max(1, PLAYFIELD_TILES - obstacles)) * 100;
+};
+
+export const createGameSimulation = (level: LevelConfig, options: SimulationOptions): GameSimulation => {
+  const tickMs = options.tickMs ?? SIM_TICK_MS;
+  const state: SimulationState = options.initialState
+    ? cloneState(options.initialState)
+    : createInitialState(level, options.seed, options.initialScore);
+  const rng: Rng = createRng(state.seed, state.rngState);
+
+  const itemSpawnInterval = level.itemSpawnIntervalMs ?? ITEM_SPAWN_INTERVAL_MS;
+  const itemWeights: Record<ItemType, number> = { ...ITEM_WEIGHTS, ...level.itemWeights };
+
+  let events: SimulationEvent[] = [];
+
+  const step = (input: Point): SimulationEvent[] => {
+    if (state.status !== 'PLAYING') return [];
+    events = [];
+
+    state.tick++;
+    state.time += tickMs;
+    state.stats.timeElapsed = state.time / 1000;
+
+    if (input.x !== 0 || input.y !== 0) {
+      state.combo.lastMoveTime = state.time;
+    }
+
+    updatePlayer(input);
+    updateCombo();
+    updateItems();
+
+    if (state.time >= state.powerUps.freezeUntil) {
+      // Slow time halves the enemies' clock
+      const enemyDt = state.time < state.powerUps.slowUntil ? tickMs / 2 : tickMs;
+      state.enemies.forEach(e => {
+        if (e.type === 'BOSS') updateBoss(e, enemyDt);
+        else updateMinion(e, enemyDt);
+      });
+    }
+
+    state.rngState = rng.getState();
+    return events;
+  };
+
+  // Grid movement: one tile every PLAYER_SPEED_MS while a direction is held.
+  const updatePlayer = (dir: Point) => {
+    const p = state.player;
+    if (dir.x === 0 && dir.y === 0) return;
+    if (state.time - (p.lastMoveTime ?? 0) < PLAYER_SPEED_MS) return;
+    p.lastMoveTime = state.time;
+
+    const nx = Math.max(0, Math.min(GRID_WIDTH - 1, p.x + dir.x));
+    const ny = Math.max(0, Math.min(GRID_HEIGHT - 1, p.y + dir.y));
+    if (nx === p.x && ny === p.y) return;
+
+    const grid = state.grid;
+    const tile = grid[ny][nx];
+
+    // Can't walk back over your own trail or through obstacles
+    if (tile === 2 || tile === 3) return;
+
+    p.x = nx;
+    p.y = ny;
+
+    if (tile === 1) {
+      // Leaving safe ground (or extending the cut)
+      if (!p.isDrawing && state.powerUps.cutThroughArmed) {
+        state.powerUps.cutThroughArmed = false;
+        state.powerUps.trailImmune = true;
+      }
+      p.isDrawing = true;
+      grid[ny][nx] = 2;
+      state.trail.push({ x: nx, y: ny });
+      collectItemAt(nx, ny);
+    } else if (p.isDrawing) {
+      // Back on safe ground: close the cut
+      captureArea();
+    }
+  };
+
+  // An active combo ends when its window runs out or the player stands still.
+  const updateCombo = () => {
+    const combo = state.combo;
+    if (combo.count <= 1 || state.status !== 'PLAYING') return;
+
+    if (state.time - combo.lastMoveTime > IDLE_TIMEOUT_MS) {
+      breakCombo('IDLE');
+    } else if (state.time - combo.lastActionTime > COMBO_TIMEOUT_MS) {
+      breakCombo('TIMEOUT');
+    }
+  };
+
+  const breakCombo = (reason: 'IDLE' | 'DAMAGE' | 'TIMEOUT') => {
+    if (state.combo.count <= 1) return;
+    state.combo.count = 1;
+    events.push({ type: 'COMBO_BROKEN', reason, x: state.player.x, y: state.player.y });
+  };
+
+  // Items appear on covered tiles, fade out after ITEM_LIFETIME and vanish
+  // if the area around them gets captured.
+  const updateItems = () => {
+    state.items.forEach(item => { item.life -= tickMs; });
+    state.items = state.items.filter(item => item.life > 0 && state.grid[item.y][item.x] !== 0);
+
+    // An interval of 0 turns items off for the level
+    if (itemSpawnInterval <= 0) return;
+    state.itemSpawnTimer -= tickMs;
+    if (state.itemSpawnTimer > 0) return;
+    state.itemSpawnTimer = itemSpawnInterval;
+    if (state.items.length >= MAX_ITEMS) return;
+
+    // A few random attempts at finding a free covered tile
+    for (let attempt = 0; attempt < 20; attempt++) {
+      const x = 1 + Math.floor(rng.next() * (GRID_WIDTH - 2));
+      const y = 1 + Math.floor(rng.next() * (GRID_HEIGHT - 2));
+      if (state.grid[y][x] !== 1 || state.items.some(i => i.x === x && i.y === y)) continue;
+      const type = pickItemType();
+      if (type) state.items.push({ x, y, life: ITEM_LIFETIME, maxLife: ITEM_LIFETIME, type });
+      return;
+    }
+  };
+
+  const pickItemType = (): ItemType | null => {
+    const types = (Object.keys(itemWeights) as ItemType[])
+      // An extra life is pointless with infinite or maxed-out lives
+      .filter(t => t !== 'LIFE' || (level.id !== 0 && state.player.lives < MAX_LIVES))
+      .filter(t => itemWeights[t] > 0);
+    if (types.length === 0) return null;
+    const total = types.reduce((sum, t) => sum + itemWeights[t], 0);
+    let roll = rng.next() * total;
+    for (const t of types) {
+      roll -= itemWeights[t];
+      if (roll < 0) return t;
+    }
+    return types[types.length - 1];
+  };
+
+  const collectItemAt = (x: number, y: number) => {
+    const item = state.items.find(i => i.x === x && i.y === y);
+    if (!item) return;
+    state.items = state.items.filter(i => i !== item);
+    applyItem(item);
+    events.push({ type: 'ITEM', item: item.type, x, y });
+  };
+
+  const applyItem = (item: Item) => {
+    const powerUps = state.powerUps;
+    switch (item.type) {
+      case 'SCORE':
+        state.stats.score += ITEM_SCORE_BONUS * state.combo.count;
+        break;
+      case 'LIFE':
+        state.player.lives = Math.min(MAX_LIVES, state.player.lives + 1);
+        break;
+      case 'FREEZE':
+        powerUps.freezeUntil = state.time + FREEZE_DURATION;
+        break;
+      case 'SLOW':
+        powerUps.slowUntil = state.time + SLOW_DURATION;
+        break;
+      case 'SHIELD':
+        powerUps.shieldUntil = state.time + SHIELD_DURATION;
+        break;
+      case 'CUT_THROUGH':
+        powerUps.cutThroughArmed = true;
+        break;
+    }
+  };
+
+  // Bosses drift through the covered region and bounce off safe ground.
+  const updateBoss = (e: Enemy, dt: number) => {
+    const k = dt / FRAME_MS;
+
+    e.changeDirTimer -= dt;
+    if (e.changeDirTimer <= 0) {
+      const speed = Math.hypot(e.vx, e.vy);
+      const a = rng.next() * Math.PI * 2;
+      e.vx = Math.cos(a) * speed;
+      e.vy = Math.sin(a) * speed;
+      e.changeDirTimer = 1500 + rng.next() * 2000;
+    }
+
+    // A boss stranded on safe ground (e.g. sealed on top of a closing trail)
+    // keeps going until it is back under cover instead of bouncing in place.
+    const stranded = tileAt(e.x, e.y) === 0;
+
+    // Obstacles and an immune trail are as solid as safe ground
+    const isWall = (x: number, y: number) => {
+      const tile = tileAt(x, y);
+      return tile === 0 || tile === 3 || (tile === 2 && state.powerUps.trailImmune);
+    };
+
+    const nx = e.x + e.vx * k;
+    if (!stranded && isWall(nx, e.y)) e.vx = -e.vx;
+    else e.x = nx;
+
+    const ny = e.y + e.vy * k;
+    if (!stranded && isWall(e.x, ny)) e.vy = -e.vy;
+    else e.y = ny;
+
+    e.x = Math.max(0, Math.min(GRID_WIDTH - 0.01, e.x));
+    e.y = Math.max(0, Math.min(GRID_HEIGHT - 0.01, e.y));
+
+    if (tileAt(e.x, e.y) === 2 && !state.powerUps.trailImmune) damagePlayer(e);
+  };
+
+  // Minions hop along safe tiles, greedily closing in on the player.
+  const updateMinion = (e: Enemy, dt: number) => {
+    e.changeDirTimer -= dt;
+    if (e.changeDirTimer <= 0) {
+      e.changeDirTimer += MINION_STEP_MS;
+
+      const p = state.player;
+      const options = DIRECTIONS.filter(d => tileAt(e.x + d.x, e.y + d.y) === 0);
+      // Avoid turning straight back unless it is a dead end
+      const forward = options.filter(d => d.x !== -e.vx || d.y !== -e.vy);
+      const candidates = forward.length > 0 ? forward : options;
+
+      if (candidates.length > 0) {
+        let next = candidates[0];
+        if (rng.next() < 0.2) {
+          next = candidates[Math.floor(rng.next() * candidates.length)];
+        } else {
+          let best = Infinity;
+          candidates.forEach(d => {
+            const dist = Math.abs(e.x + d.x - p.x) + Math.abs(e.y + d.y - p.y);
+            if (dist < best) {
+              best = dist;
+              next = d;
+            }
+          });
+        }
+        e.x += next.x;
+        e.y += next.y;
+        e.vx = next.x;
+        e.vy = next.y;
+      }
+    }
+
+    if (e.x === state.player.x && e.y === state.player.y) damagePlayer(e);
+  };
+
+  const tileAt = (x: number, y: number): TileType | undefined => state.grid[Math.floor(y)]?.[Math.floor(x)];
+
+  // Costs a life, collapses the current trail and sends the player back to
+  // where the cut started.
+  const damagePlayer = (source: Enemy) => {
+    const p = state.player;
+    if (state.time < p.invulnerableUntil || state.time < state.powerUps.shieldUntil) return;
+
+    // Simulation Zero is the tutorial: infinite lives
+    const lifeLost = level.id !== 0;
+    if (lifeLost) p.lives--;
+    p.invulnerableUntil = state.time + INVULNERABILITY_TIME;
+    breakCombo('DAMAGE');
+
+    if (state.trail.length > 0) {
+      const first = state.trail[0];
+      const origin = DIRECTIONS
+        .map(d => ({ x: first.x + d.x, y: first.y + d.y }))
+        .find(pt => tileAt(pt.x, pt.y) === 0);
+      state.trail.forEach(t => { state.grid[t.y][t.x] = 1; });
+      state.trail = [];
+      state.powerUps.trailImmune = false;
+      p.isDrawing = false;
+      if (origin) {
+        p.x = origin.x;
+        p.y = origin.y;
+      }
+    }
+
+    events.push({ type: 'DAMAGE', lives: p.lives, lifeLost, source: source.type, x: p.x, y: p.y });
+
+    if (p.lives <= 0) {
+      state.status = 'GAME_OVER';
+      events.push({ type: 'GAME_OVER' });
+    }
+  };
+
+  // Seals the trail and reveals every region no enemy can reach.
+  const captureArea = () => {
+    const grid = state.grid;
+
+    state.trail.forEach(t => { grid[t.y][t.x] = 0; });
+    const trailTiles = state.trail.length;
+    state.trail = [];
+    state.powerUps.trailImmune = false;
+    state.player.isDrawing = false;
+
+    // Flood fill from every boss through covered tiles
+    const reachable: boolean[][] = grid.map(row => row.map(() => false));
+    const stack: Point[] = [];
+    state.enemies.filter(e => e.type === 'BOSS').forEach(e => {
+      const ex = Math.floor(e.x);
+      const ey = Math.floor(e.y);
+      // Seed the neighbours too, in case the boss sits on the sealed trail
+      [{ x: 0, y: 0 }, ...DIRECTIONS].forEach(d => {
+        const sx = ex + d.x;
+        const sy = ey + d.y;
+        if (grid[sy]?.[sx] === 1 && !reachable[sy][sx]) {
+          reachable[sy][sx] = true;
+          stack.push({ x: sx, y: sy });
+        }
+      });
+    });
+
+    while (stack.length > 0) {
+      const { x, y } = stack.pop()!;
+      const neighbours = [[x + 1, y], [x - 1, y], [x, y + 1], [x, y - 1]];
+      for (const [cx, cy] of neighbours) {
+        if (grid[cy]?.[cx] === 1 && !reachable[cy][cx]) {
+          reachable[cy][cx] = true;
+          stack.push({ x: cx, y: cy });
+        }
+      }
+    }
+
+    // Everything cut off from the enemies becomes revealed
+    let captured = trailTiles;
+    let sumX = 0;
+    let sumY = 0;
+    for (let y = 0; y < GRID_HEIGHT; y++) {
+      for (let x = 0; x < GRID_WIDTH; x++) {
+        if (grid[y][x] === 1 && !reachable[y][x]) {
+          grid[y][x] = 0;
+          captured++;
+          sumX += x;
+          sumY += y;
+        }
+      }
+    }
+
+    // Chained captures inside the combo window raise the multiplier
+    const combo = state.combo;
+    const chained = combo.lastActionTime > 0 && state.time - combo.lastActionTime <= COMBO_TIMEOUT_MS;
+    combo.count = chained ? combo.count + 1 : 1;
+    combo.lastActionTime = state.time;
+
+    const points = captured * SCORE_PER_TILE * combo.count;
+    state.stats.score += points;
+
+    const fillTiles = captured - trailTiles;
+    const areaBefore = state.stats.areaRevealed;
+    state.stats.areaRevealed = calculateRevealed(grid);
+    events.push({
+      type: 'CAPTURE',
+      tiles: captured,
+      points,
+      combo: combo.count,
+      area: state.stats.areaRevealed - areaBefore,
+      x: fillTiles > 0 ? sumX / fillTiles : state.player.x,
+      y: fillTiles > 0 ? sumY / fillTiles : state.player.y
+    });
+
+    if (state.stats.areaRevealed >= level.minRevealPercent) {
+      state.status = 'LEVEL_COMPLETE';
+      events.push({ type: 'LEVEL_COMPLETE' });
+    }
+  };
+
+  return {
+    step,
+    canPlayerStep: () => state.time + tickMs - (state.player.lastMoveTime ?? 0) >= PLAYER_SPEED_MS,
+    getState: () => state,
+    snapshot: () => cloneState(state),
+    tickMs
+  };
+};
+
+/**
+ * Distance in tiles from the player to the closest enemy.
+ */
+export const getNearestEnemyDistance = (state: SimulationState): number => {
+  const p = state.player;
+  let nearest = Infinity;
+  state.enemies.forEach(e => {
+    nearest = Math.min(nearest, Math.hypot(e.x - p.x, e.y - p.y));
+  });
+  return nearest;
+};
+
+const cloneState = (state: SimulationState): SimulationState => JSON.parse(JSON.stringify(state));
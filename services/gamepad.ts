@@ -0,0 +1,117 @@
+import { PadButton, Point, RumbleKind } from '../types';
+
+/**
+ * Gamepad input through the Gamepad API, which has no events for buttons or
+ * sticks: every connected pad is polled once per animation frame.
+ *
+ * The D-pad and the left stick both give one of the four grid directions
+ * (the stick snaps to its dominant axis once past the deadzone). Handlers
+ * only hear about changes, so an idle pad never overrides the keyboard.
+ * Buttons follow the standard mapping, which is what browsers report for
+ * Xbox, PlayStation and most other controllers.
+ */
+export const STICK_DEADZONE = 0.4;
+export const NAV_REPEAT_DELAY_MS = 400; // Holding a direction in menus repeats after this...
+export const NAV_REPEAT_MS = 150; // ...and then this often
+
+const BUTTONS: Record<PadButton, number> = { A: 0, B: 1, START: 9 };
+const DPAD: [number, Point][] = [
+  [12, { x: 0, y: -1 }],
+  [13, { x: 0, y: 1 }],
+  [14, { x: -1, y: 0 }],
+  [15, { x: 1, y: 0 }]
+];
+
+const RUMBLE: Record<RumbleKind, GamepadEffectParameters> = {
+  DAMAGE: { duration: 250, strongMagnitude: 0.9, weakMagnitude: 0.5 },
+  CAPTURE: { duration: 80, strongMagnitude: 0, weakMagnitude: 0.35 }
+};
+
+const NO_DIRECTION: Point = { x: 0, y: 0 };
+
+export interface GamepadHandlers {
+  onDirection: (direction: Point) => void; // Every change of the held direction, {0, 0} on release
+  onNavigate: (direction: Point) => void; // Menu steps: on press, then repeated while held
+  onButton: (button: PadButton) => void; // On press
+}
+
+export interface GamepadInput {
+  rumble: (kind: RumbleKind) => void;
+  dispose: () => void;
+}
+
+export const readDirection = (pad: Gamepad): Point => {
+  const dpad = DPAD.find(([index]) => pad.buttons[index]?.pressed);
+  if (dpad) return dpad[1];
+  const [x = 0, y = 0] = pad.axes;
+  if (Math.hypot(x, y) < STICK_DEADZONE) return NO_DIRECTION;
+  return Math.abs(x) > Math.abs(y) ? { x: Math.sign(x), y: 0 } : { x: 0, y: Math.sign(y) };
+};
+
+const sameDirection = (a: Point, b: Point) => a.x === b.x && a.y === b.y;
+
+const connectedPads = () =>
+  (typeof navigator !== 'undefined' && navigator.getGamepads ? [...navigator.getGamepads()] : [])
+    .filter((pad): pad is Gamepad => !!pad && pad.connected);
+
+/**
+ * `getHandlers` is read on every event, so the caller can keep it on a ref
+ * and never has to restart polling.
+ */
+export const createGamepadInput = (
+  getHandlers: () => GamepadHandlers,
+  now: () => number = () => performance.now()
+): GamepadInput => {
+  let frame = 0;
+  let direction = NO_DIRECTION;
+  let nextRepeat = 0;
+  let lastPad: number | null = null; // The pad that rumbles: the last one used
+  // Buttons held at the previous poll, per pad; unknown pads start with everything held
+  // so a button that is already down when polling starts does not count as a press
+  const held = new Map<number, Set<PadButton>>();
+
+  const poll = () => {
+    frame = requestAnimationFrame(poll);
+    const pads = connectedPads();
+    if (pads.length === 0) return;
+    const handlers = getHandlers();
+
+    pads.forEach(pad => {
+      const pressed = new Set((Object.keys(BUTTONS) as PadButton[]).filter(button => pad.buttons[BUTTONS[button]]?.pressed));
+      const before = held.get(pad.index) ?? pressed;
+      held.set(pad.index, pressed);
+      pressed.forEach(button => {
+        if (before.has(button)) return;
+        lastPad = pad.index;
+        handlers.onButton(button);
+      });
+    });
+
+    const active = pads.find(pad => !sameDirection(readDirection(pad), NO_DIRECTION));
+    const next = active ? readDirection(active) : NO_DIRECTION;
+    const time = now();
+    if (!sameDirection(next, direction)) {
+      direction = next;
+      handlers.onDirection(next);
+      if (active) {
+        lastPad = active.index;
+        handlers.onNavigate(next);
+        nextRepeat = time + NAV_REPEAT_DELAY_MS;
+      }
+    } else if (active && time >= nextRepeat) {
+      handlers.onNavigate(next);
+      nextRepeat = time + NAV_REPEAT_MS;
+    }
+  };
+
+  frame = requestAnimationFrame(poll);
+
+  return {
+    rumble: kind => {
+      const pad = connectedPads().find(p => p.index === lastPad);
+      // Not every browser or pad can vibrate
+      pad?.vibrationActuator?.playEffect('dual-rumble', RUMBLE[kind]).catch(() => {});
+    },
+    dispose: () => cancelAnimationFrame(frame)
+  };
+};
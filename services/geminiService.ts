@@ -1,32 +1,93 @@
-import { GameStats, Language } from "../types";
-import { 
-  COMMENTARY_WIN_ES, COMMENTARY_LOSE_ES,
-  COMMENTARY_WIN_EN, COMMENTARY_LOSE_EN,
-  COMMENTARY_WIN_FR, COMMENTARY_LOSE_FR
-} from "../constants";
+import { GoogleGenAI } from '@google/genai';
+import { CommentaryRequest } from '../types';
+import { CommentaryProvider, createStaticCommentary, withFallback } from './commentaryProvider';
+import { getLocale } from './i18n';
 
 /**
- * Generates a commentary based on the player's performance.
+ * Gemini commentary: Silver reacts to the actual result of the level.
+ *
+ * Requests time out quickly (the line shows on the result screen) and answers
+ * are cached by prompt. Numbers in the prompt are rounded, so similar results
+ * share a cached line instead of costing a request each.
  */
-export const getGameCommentary = async (
-  status: 'WIN' | 'GAME_OVER',
-  stats: GameStats,
-  levelName: string,
-  language: Language
-): Promise<string> => {
-  // Simulate async delay for realism
-  await new Promise(resolve => setTimeout(resolve, 500));
-
-  let list: string[] = [];
-
-  if (language === 'ES') {
-      list = status === 'WIN' ? COMMENTARY_WIN_ES : COMMENTARY_LOSE_ES;
-  } else if (language === 'FR') {
-      list = status === 'WIN' ? COMMENTARY_WIN_FR : COMMENTARY_LOSE_FR;
-  } else {
-      list = status === 'WIN' ? COMMENTARY_WIN_EN : COMMENTARY_LOSE_EN;
-  }
-
-  const randomIndex = Math.floor(Math.random() * list.length);
-  return list[randomIndex];
-};
\ No newline at end of file
+export const GEMINI_MODEL = 'gemini-2.5-flash';
+const TIMEOUT_MS = 6000;
+const MAX_CACHED = 50;
+
+const roundTo = (value: number, step: number) => Math.round(value / step) * step;
+
+// Run facts, when the caller sent them
+const describeRun = ({ telemetry, continuesUsed, bestTime }: CommentaryRequest): string[] => {
+  if (!telemetry) return [];
+  return [
+    `Their biggest single cut took about ${roundTo(telemetry.largestCapture, 5)}% of the picture,`,
+    `their best combo was x${telemetry.comboPeak}, they had ${telemetry.nearMisses} near misses with enemies,`,
+    `lost ${telemetry.livesLost} lives on this level and used ${continuesUsed ?? 0} continues in the run so far.`,
+    ...(bestTime !== undefined ? [`Their previous best time on this level was about ${roundTo(bestTime, 10)} seconds.`] : []),
+    'Mention one of these facts if it is remarkable.'
+  ];
+};
+
+export const buildCommentaryPrompt = (request: CommentaryRequest) => {
+  const { status, stats, levelName, language } = request;
+  const locale = getLocale(language);
+  return [
+    'You are Silver, the cocky, teasing host of the retro arcade game "Siilveer Paniic",',
+    'where the player cuts lines across the screen to reveal a hidden picture while dodging enemies.',
+    status === 'WIN'
+      ? `The player just cleared the level "${levelName}".`
+      : `The player just lost all their lives on the level "${levelName}".`,
+    `They revealed about ${roundTo(stats.areaRevealed, 5)}% of the picture in about ${roundTo(stats.timeElapsed, 10)} seconds,`,
+    `with a score of about ${roundTo(stats.score, 500)} points.`,
+    ...describeRun(request),
+    `Reply with one short, playful line (max 15 words, one emoji allowed) in ${locale.name} (${locale.intl}). No quotes.`
+  ].join(' ');
+};
+
+export const createGeminiCommentary = (
+  apiKey: string, { model = GEMINI_MODEL, timeoutMs = TIMEOUT_MS } = {}
+): CommentaryProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+  const cache = new Map<string, string>();
+
+  return {
+    name: 'gemini',
+    getCommentary: async (request) => {
+      const prompt = buildCommentaryPrompt(request);
+      const cached = cache.get(prompt);
+      if (cached) return cached;
+
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), timeoutMs);
+      try {
+        const response = await ai.models.generateContent({
+          model,
+          contents: prompt,
+          config: {
+            abortSignal: controller.signal,
+            maxOutputTokens: 60,
+            temperature: 1,
+            thinkingConfig: { thinkingBudget: 0 } // A one-liner needs no reasoning, and it keeps the answer fast
+          }
+        });
+        const text = response.text?.trim();
+        if (!text) throw new Error('Gemini returned no commentary');
+        cache.set(prompt, text);
+        if (cache.size > MAX_CACHED) cache.delete(cache.keys().next().value!);
+        return text;
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+  };
+};
+
+/**
+ * Gemini (with the static lines as fallback) when GEMINI_API_KEY is set,
+ * otherwise the static lines alone.
+ */
+export const createCommentaryProvider = (): CommentaryProvider => {
+  const apiKey = import.meta.env.GEMINI_API_KEY?.trim();
+  const fallback = createStaticCommentary();
+  return apiKey ? withFallback(createGeminiCommentary(apiKey), fallback) : fallback;
+};
@@ -0,0 +1,44 @@
+import { LevelConfig, Replay } from '../types';
+
+const GHOSTS_KEY = 'SIILVEER_PANIIC_GHOSTS';
+
+// Best clear per level, keyed by LevelConfig.id (prefixed with the pack id for packs)
+type GhostTable = Record<string, Replay>;
+
+const ghostKey = (packId: string | undefined, levelId: number) =>
+  packId ? `${packId}:${levelId}` : String(levelId);
+
+const readGhosts = (): GhostTable => {
+  try {
+    const stored = localStorage.getItem(GHOSTS_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    // A corrupted table only costs us the ghosts
+    return {};
+  }
+};
+
+export const loadGhost = (level: LevelConfig): Replay | null =>
+  readGhosts()[ghostKey(level.packId, level.id)] ?? null;
+
+/**
+ * Stores the replay as the level's ghost if it is a clear faster than the current one.
+ * Returns true when it became the new best.
+ */
+export const saveGhostIfBest = (replay: Replay): boolean => {
+  if (replay.result !== 'LEVEL_COMPLETE') return false;
+
+  const ghosts = readGhosts();
+  const key = ghostKey(replay.packId, replay.levelId);
+  const current = ghosts[key];
+  if (current && current.totalTicks <= replay.totalTicks) return false;
+
+  ghosts[key] = replay;
+  try {
+    localStorage.setItem(GHOSTS_KEY, JSON.stringify(ghosts));
+  } catch {
+    // Storage full: keep playing without saving the ghost
+    return false;
+  }
+  return true;
+};
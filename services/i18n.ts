@@ -0,0 +1,125 @@
+import { CommentaryRequest, CommentaryTopic, Language, SilverTrigger } from '../types';
+import en from '../locales/en';
+
+/**
+ * Localization: one file per language in locales/, picked up automatically.
+ *
+ * English (locales/en.ts) is the reference: its message keys are the only
+ * valid ones, so a typo in a key or in another locale fails to compile, and
+ * whatever a locale leaves out is shown in English. Adding a language only
+ * takes a new file that default-exports a LocaleDefinition.
+ *
+ * Messages use the same placeholders as the commentary templates: {name}
+ * inserts a value, {name|one|other} picks the plural form ('#' is the number).
+ */
+export type MessageKey = keyof typeof en.messages;
+export type TemplateValues = Record<string, string | number>;
+
+type CommentaryStatus = CommentaryRequest['status'];
+
+export interface LocaleDefinition {
+  code: Language; // Upper case, e.g. 'EN'; stored in profiles
+  name: string; // In the language itself
+  intl: string; // BCP 47 tag for number, date and plural formatting
+  messages: Partial<Record<MessageKey, string>>;
+  teasing?: string[];
+  silverLines?: Partial<Record<SilverTrigger, string[]>>;
+  commentary?: Partial<Record<CommentaryStatus, string[]>>;
+  // Not filled in from English: without them the generic lines of the language are used
+  commentaryTopics?: Partial<Record<CommentaryStatus, Partial<Record<CommentaryTopic, string[]>>>>;
+}
+
+export interface Locale extends Required<LocaleDefinition> {
+  messages: Record<MessageKey, string>;
+  silverLines: Record<SilverTrigger, string[]>;
+  commentary: Record<CommentaryStatus, string[]>;
+}
+
+export const DEFAULT_LANGUAGE: Language = 'EN';
+
+const REFERENCE: Locale = en;
+
+const definitions: LocaleDefinition[] = Object.values(
+  import.meta.glob<{ default: LocaleDefinition }>('../locales/*.ts', { eager: true })
+).map(module => module.default);
+
+const DEFINITIONS = new Map(definitions.map(locale => [locale.code, locale]));
+
+// Menu order: the reference first, then by code
+export const LANGUAGES: Language[] = [
+  DEFAULT_LANGUAGE, ...[...DEFINITIONS.keys()].filter(code => code !== DEFAULT_LANGUAGE).sort()
+];
+
+export const isLanguage = (value: unknown): value is Language =>
+  typeof value === 'string' && DEFINITIONS.has(value);
+
+const withFallback = <T>(lines: T[] | undefined, fallback: T[]) => lines?.length ? lines : fallback;
+
+const resolved = new Map<Language, Locale>();
+
+export const getLocale = (language: Language): Locale => {
+  const cached = resolved.get(language);
+  if (cached) return cached;
+
+  const definition = DEFINITIONS.get(language);
+  if (!definition) return REFERENCE;
+  const silverLines = { ...REFERENCE.silverLines };
+  (Object.keys(silverLines) as SilverTrigger[]).forEach(trigger => {
+    silverLines[trigger] = withFallback(definition.silverLines?.[trigger], REFERENCE.silverLines[trigger]);
+  });
+  const locale: Locale = {
+    ...definition,
+    messages: { ...REFERENCE.messages, ...definition.messages },
+    teasing: withFallback(definition.teasing, REFERENCE.teasing),
+    silverLines,
+    commentary: {
+      WIN: withFallback(definition.commentary?.WIN, REFERENCE.commentary.WIN),
+      GAME_OVER: withFallback(definition.commentary?.GAME_OVER, REFERENCE.commentary.GAME_OVER)
+    },
+    commentaryTopics: definition.commentaryTopics ?? {}
+  };
+  resolved.set(language, locale);
+  return locale;
+};
+
+/**
+ * The first browser language we have a locale for (by primary subtag, so
+ * 'pt-BR' picks Portuguese), English otherwise.
+ */
+export const detectLanguage = (
+  preferred: readonly string[] = typeof navigator !== 'undefined' ? navigator.languages ?? [navigator.language] : []
+): Language => {
+  for (const tag of preferred) {
+    const code = tag?.split('-')[0].toUpperCase();
+    if (isLanguage(code)) return code;
+  }
+  return DEFAULT_LANGUAGE;
+};
+
+export const formatNumber = (language: Language, value: number, options?: Intl.NumberFormatOptions) =>
+  value.toLocaleString(getLocale(language).intl, options ?? { maximumFractionDigits: 1 });
+
+/**
+ * Score dates are stored as 'YYYY-MM-DD'; anything else is shown as stored.
+ */
+export const formatDate = (language: Language, date: string) => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date);
+  if (!match) return date;
+  const [, year, month, day] = match.map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(getLocale(language).intl, { dateStyle: 'medium' });
+};
+
+export const renderTemplate = (template: string, values: TemplateValues, language: Language): string => {
+  const { intl } = getLocale(language);
+  const format = (value: string | number) => typeof value === 'number' ? formatNumber(language, value) : value;
+  return template.replace(/\{(\w+)(?:\|([^|}]*)\|([^}]*))?\}/g, (match, name: string, one?: string, other?: string) => {
+    const value = values[name];
+    if (value === undefined) return match; // Left visible so a typo shows up
+    if (one === undefined || other === undefined) return format(value);
+    const isOne = typeof value === 'number' && new Intl.PluralRules(intl).select(value) === 'one';
+    return (isOne ? one : other).replace(/#/g, format(value));
+  });
+};
+
+export const t = (language: Language, key: MessageKey, values: TemplateValues = {}) =>
+  renderTemplate(getLocale(language).messages[key], values, language);
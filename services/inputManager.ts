@@ -0,0 +1,91 @@
+import { Point } from '../types';
+
+/**
+ * Turns held keys and buttons into the one direction the simulation reads
+ * each tick.
+ *
+ * Every source (a keyboard key, the gamepad, the touch joystick) presses and
+ * releases under its own id. The most recent press that is still held wins,
+ * so pressing a second direction and then letting go of the first keeps the
+ * player moving the new way instead of stopping.
+ *
+ * The player only moves on grid steps (one tile every PLAYER_SPEED_MS), so a
+ * press is also queued until the next step: a tap too short to be held when
+ * the step comes still turns the player.
+ *
+ * In keep-moving mode the player carries on in the last direction after
+ * every key is released, until stop() (a wall, a closed cut or a hit).
+ */
+export interface InputManager {
+  press: (id: string, direction: Point) => void;
+  release: (id: string) => void;
+  releaseAll: () => void;
+  stop: () => void;
+  setKeepMoving: (keepMoving: boolean) => void;
+  next: (canStep: boolean) => Point; // Once per simulation tick; canStep: the player moves on this tick
+  getDirection: () => Point;
+}
+
+const NO_DIRECTION: Point = { x: 0, y: 0 };
+
+const sameDirection = (a: Point, b: Point) => a.x === b.x && a.y === b.y;
+
+/**
+ * `onChange` hears about every change of the direction the player is being
+ * steered in (not about queued taps).
+ */
+export const createInputManager = (
+  onChange: (direction: Point) => void = () => {},
+  keepMoving: boolean = false
+): InputManager => {
+  let held: { id: string; direction: Point }[] = []; // Oldest first
+  let queued: Point | null = null;
+  let kept = NO_DIRECTION; // Last direction stepped in, for keep-moving mode
+  let current = NO_DIRECTION;
+
+  const active = () => held.length > 0 ? held[held.length - 1].direction : keepMoving ? kept : NO_DIRECTION;
+
+  const notify = () => {
+    const next = active();
+    if (sameDirection(next, current)) return;
+    current = next;
+    onChange(next);
+  };
+
+  return {
+    press: (id, direction) => {
+      const existing = held.find(entry => entry.id === id);
+      if (existing && sameDirection(existing.direction, direction)) return; // Key repeat
+      held = [...held.filter(entry => entry.id !== id), { id, direction }];
+      queued = direction;
+      notify();
+    },
+    release: id => {
+      held = held.filter(entry => entry.id !== id);
+      notify();
+    },
+    releaseAll: () => {
+      held = [];
+      queued = null;
+      notify();
+    },
+    stop: () => {
+      kept = NO_DIRECTION;
+      notify();
+    },
+    setKeepMoving: value => {
+      keepMoving = value;
+      kept = NO_DIRECTION;
+      notify();
+    },
+    next: canStep => {
+      if (!canStep) return queued ?? active();
+      const direction = queued ?? active();
+      queued = null;
+      if (direction.x !== 0 || direction.y !== 0) kept = direction;
+      notify();
+      return direction;
+    },
+    getDirection: () => current
+  };
+};
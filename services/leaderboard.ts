@@ -0,0 +1,115 @@
+import { BoardRecord, BoardRef, Language, LeaderboardKind, LevelBoards, RankedEntry, RunDetails, ScoreEntry } from '../types';
+import { t } from './i18n';
+
+/**
+ * Leaderboard rules.
+ *
+ * Every board is a sorted list of at most MAX_SCORES entries. Total score is
+ * ranked per pack; fastest clear (TIME) and widest reveal (AREA) are ranked
+ * per level.
+ */
+export const MAX_SCORES = 10;
+
+const timeOf = (entry: ScoreEntry) => entry.time ?? Infinity;
+
+// Best first. Ties fall back to a second criterion so the order is stable.
+export const BOARD_ORDER: Record<LeaderboardKind, (a: ScoreEntry, b: ScoreEntry) => number> = {
+  SCORE: (a, b) => b.score - a.score,
+  TIME: (a, b) => (timeOf(a) - timeOf(b)) || b.score - a.score,
+  AREA: (a, b) => ((b.area ?? 0) - (a.area ?? 0)) || (timeOf(a) - timeOf(b))
+};
+
+export const createLevelBoards = (): LevelBoards => ({ time: [], area: [] });
+
+export const insertEntry = (table: ScoreEntry[], entry: ScoreEntry, kind: LeaderboardKind = 'SCORE'): ScoreEntry[] =>
+  [...table, entry].sort(BOARD_ORDER[kind]).slice(0, MAX_SCORES);
+
+export const qualifiesFor = (table: ScoreEntry[], entry: ScoreEntry, kind: LeaderboardKind = 'SCORE'): boolean => {
+  if (kind === 'SCORE' && entry.score <= 0) return false;
+  if (kind === 'TIME' && entry.time === undefined) return false;
+  if (kind === 'AREA' && !entry.area) return false;
+  return table.length < MAX_SCORES || BOARD_ORDER[kind](entry, table[table.length - 1]) < 0;
+};
+
+export interface RunSummary extends RunDetails {
+  score: number;
+  continuesUsed: number;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export const formatRunTime = (seconds?: number) => {
+  if (seconds === undefined) return '--';
+  const m = Math.floor(seconds / 60);
+  const s = (seconds % 60).toFixed(1).padStart(4, '0');
+  return `${m}:${s}`;
+};
+
+/**
+ * Score board entry for a finished run, credited to the last level reached.
+ */
+export const createRunEntry = (playerName: string, run: RunSummary, levelId: number): ScoreEntry => ({
+  playerName: playerName.toUpperCase().substring(0, 3),
+  score: run.score,
+  level: levelId,
+  date: new Date().toISOString().split('T')[0],
+  continuesUsed: run.continuesUsed,
+  livesLost: run.livesLost,
+  maxCombo: run.maxCombo,
+  time: round2(run.levels.reduce((sum, l) => sum + l.time, 0))
+});
+
+/**
+ * Every board the run made it onto: the pack's score board, then for each
+ * level played its fastest clear and its widest reveal (cleared or not).
+ */
+export const findRecords = (
+  run: RunSummary,
+  levelId: number,
+  scores: ScoreEntry[],
+  levelBoards: Record<string, LevelBoards>
+): BoardRecord[] => {
+  const total = createRunEntry('', run, levelId);
+  const records: BoardRecord[] = [];
+  if (qualifiesFor(scores, total, 'SCORE')) records.push({ kind: 'SCORE', entry: total });
+
+  const playedIds = Array.from(new Set(run.levels.map(l => l.levelId)));
+  playedIds.forEach(id => {
+    const boards = levelBoards[id] ?? createLevelBoards();
+    const attempts = run.levels.filter(l => l.levelId === id);
+    const toEntry = (attempt: typeof attempts[number]): ScoreEntry =>
+      ({ ...total, level: id, time: round2(attempt.time), area: Math.round(attempt.area * 10) / 10 });
+
+    const fastest = attempts.filter(a => a.cleared).sort((a, b) => a.time - b.time)[0];
+    if (fastest) {
+      const entry = toEntry(fastest);
+      if (qualifiesFor(boards.time, entry, 'TIME')) records.push({ kind: 'TIME', entry });
+    }
+    const widest = [...attempts].sort((a, b) => b.area - a.area)[0];
+    const entry = toEntry(widest);
+    if (qualifiesFor(boards.area, entry, 'AREA')) records.push({ kind: 'AREA', entry });
+  });
+  return records;
+};
+
+/**
+ * The player's best position on a board with `radius` entries on either side.
+ */
+export const rankAround = (board: ScoreEntry[], playerName: string, radius: number): RankedEntry[] => {
+  const index = board.findIndex(e => e.playerName === playerName.toUpperCase());
+  if (index < 0) return [];
+  return board
+    .slice(Math.max(0, index - radius), index + radius + 1)
+    .map((entry, i) => ({ ...entry, rank: Math.max(0, index - radius) + i + 1 }));
+};
+
+export const boardOf = (packId: string, record: BoardRecord): BoardRef =>
+  record.kind === 'SCORE' ? { packId, kind: 'SCORE' } : { packId, kind: record.kind, levelId: record.entry.level };
+
+export const describeRecord = (record: BoardRecord, language: Language) => {
+  switch (record.kind) {
+    case 'SCORE': return t(language, 'record_total_score');
+    case 'TIME': return t(language, 'record_level_time', { level: record.entry.level, time: formatRunTime(record.entry.time) });
+    case 'AREA': return t(language, 'record_level_area', { level: record.entry.level, area: record.entry.area ?? 0 });
+  }
+};
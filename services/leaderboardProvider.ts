@@ -0,0 +1,124 @@
+import { BoardRef, LevelBoards, RankedEntry, ScoreEntry } from '../types';
+import { MAX_SCORES, createLevelBoards, insertEntry, rankAround } from './leaderboard';
+
+/**
+ * Where leaderboards are read from and submitted to.
+ *
+ * The local provider works on the boards kept in the save document. The HTTP
+ * provider talks to a remote server (see scripts/leaderboard-server.mjs for the
+ * API) and is enabled by setting VITE_LEADERBOARD_URL.
+ */
+export interface LeaderboardProvider {
+  readonly remote: boolean;
+  submit: (board: BoardRef, entry: ScoreEntry) => Promise<void>;
+  fetchTop: (board: BoardRef, limit?: number) => Promise<ScoreEntry[]>;
+  fetchAround: (board: BoardRef, playerName: string, radius?: number) => Promise<RankedEntry[]>;
+}
+
+// HTTP errors carry the status so the queue can tell rejected entries from outages
+export type LeaderboardRequestError = Error & { status?: number };
+
+export const AROUND_RADIUS = 2;
+
+// --- Local ---
+
+export interface LocalBoardTables {
+  scores: Record<string, ScoreEntry[]>;
+  levelBoards: Record<string, Record<string, LevelBoards>>;
+}
+
+const readBoard = (tables: LocalBoardTables, board: BoardRef): ScoreEntry[] => {
+  if (board.kind === 'SCORE') return tables.scores[board.packId] ?? [];
+  const boards = tables.levelBoards[board.packId]?.[board.levelId ?? 0];
+  return (board.kind === 'TIME' ? boards?.time : boards?.area) ?? [];
+};
+
+const writeBoard = (tables: LocalBoardTables, board: BoardRef, entries: ScoreEntry[]): LocalBoardTables => {
+  if (board.kind === 'SCORE') return { ...tables, scores: { ...tables.scores, [board.packId]: entries } };
+  const levels = tables.levelBoards[board.packId] ?? {};
+  const levelId = board.levelId ?? 0;
+  const boards = levels[levelId] ?? createLevelBoards();
+  return {
+    ...tables,
+    levelBoards: {
+      ...tables.levelBoards,
+      [board.packId]: { ...levels, [levelId]: board.kind === 'TIME' ? { ...boards, time: entries } : { ...boards, area: entries } }
+    }
+  };
+};
+
+/**
+ * `getTables` returns the current boards; `update` receives the change so the
+ * caller can fold it into its own state (App keeps the boards in the save document).
+ */
+export const createLocalLeaderboard = (
+  getTables: () => LocalBoardTables,
+  update: (change: (prev: LocalBoardTables) => LocalBoardTables) => void
+): LeaderboardProvider => ({
+  remote: false,
+  submit: async (board, entry) => {
+    update(prev => writeBoard(prev, board, insertEntry(readBoard(prev, board), entry, board.kind)));
+  },
+  fetchTop: async (board, limit = MAX_SCORES) => readBoard(getTables(), board).slice(0, limit),
+  fetchAround: async (board, playerName, radius = AROUND_RADIUS) =>
+    rankAround(readBoard(getTables(), board), playerName, radius)
+});
+
+// --- HTTP ---
+
+const REQUEST_TIMEOUT_MS = 8000;
+
+// score | time-3 | area-3
+export const boardPath = (board: BoardRef) =>
+  `${encodeURIComponent(board.packId)}/${board.kind === 'SCORE' ? 'score' : `${board.kind.toLowerCase()}-${board.levelId ?? 0}`}`;
+
+export const createHttpLeaderboard = (baseUrl: string): LeaderboardProvider => {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  const request = async (path: string, init?: RequestInit): Promise<any> => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+    let response: Response;
+    try {
+      response = await fetch(`${root}/${path}`, {
+        ...init,
+        headers: init?.body ? { 'Content-Type': 'application/json' } : undefined,
+        signal: controller.signal
+      });
+    } catch {
+      throw new Error('Leaderboard server unreachable');
+    } finally {
+      clearTimeout(timer);
+    }
+    if (!response.ok) {
+      const error: LeaderboardRequestError = new Error(`Leaderboard server error (HTTP ${response.status})`);
+      error.status = response.status;
+      throw error;
+    }
+    return response.status === 204 ? null : response.json();
+  };
+
+  return {
+    remote: true,
+    submit: async (board, entry) => {
+      await request(`boards/${boardPath(board)}`, { method: 'POST', body: JSON.stringify(entry) });
+    },
+    fetchTop: async (board, limit = MAX_SCORES) => {
+      const data = await request(`boards/${boardPath(board)}/top?limit=${limit}`);
+      return Array.isArray(data?.entries) ? data.entries : [];
+    },
+    fetchAround: async (board, playerName, radius = AROUND_RADIUS) => {
+      const query = `player=${encodeURIComponent(playerName.toUpperCase())}&radius=${radius}`;
+      const data = await request(`boards/${boardPath(board)}/around?${query}`);
+      return Array.isArray(data?.entries) ? data.entries : [];
+    }
+  };
+};
+
+/**
+ * The remote provider configured for this build, or null when scores stay local.
+ */
+export const createRemoteLeaderboard = (): LeaderboardProvider | null => {
+  const url = import.meta.env.VITE_LEADERBOARD_URL;
+  return url ? createHttpLeaderboard(url) : null;
+};
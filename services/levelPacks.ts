@@ -0,0 +1,311 @@
+import { GRID_WIDTH, GRID_HEIGHT, ITEM_WEIGHTS, CORE_PACK_ID, CUSTOM_PACK_ID } from '../constants';
+import { LevelConfig, LevelPack, ItemType, Point } from '../types';
+
+/**
+ * Level packs are JSON files describing a set of levels:
+ *
+ * {
+ *   "format": "siilveer-level-pack",
+ *   "version": 1,
+ *   "id": "my-pack",
+ *   "name": "My Pack",
+ *   "author": "optional",
+ *   "levels": [{
+ *     "name": "First Date",
+ *     "image": "images/first.png",       // relative to the pack file, absolute or data: URL
+ *     "bossSpeed": 0.1,
+ *     "enemyCount": 2,                   // bosses
+ *     "minionCount": 1,                  // optional, border patrollers
+ *     "minRevealPercent": 80,
+ *     "difficulty": 3,                   // optional, 0-10
+ *     "itemSpawnIntervalMs": 5000,       // optional, 0 disables items
+ *     "itemWeights": { "SHIELD": 4 },    // optional, overrides ITEM_WEIGHTS
+ *     "musicTrack": 1,                   // optional, 0-2
+ *     "mask": ["000...", "01X...", ...], // optional, GRID_HEIGHT rows of GRID_WIDTH chars,
+ *                                        // '0' = pre-revealed, '1' = covered, 'X' = obstacle
+ *     "bossSpawns": [{ "x": 30, "y": 20 }],   // optional, covered tiles
+ *     "minionSpawns": [{ "x": 59, "y": 44 }]  // optional, revealed tiles
+ *   }]
+ * }
+ */
+export const LEVEL_PACK_FORMAT = 'siilveer-level-pack';
+export const LEVEL_PACK_VERSION = 1;
+export const MUSIC_TRACK_COUNT = 3;
+
+const PACKS_KEY = 'SIILVEER_PANIIC_PACKS';
+
+const isNumberIn = (value: unknown, min: number, max: number): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+
+const isIntegerIn = (value: unknown, min: number, max: number): value is number =>
+  Number.isInteger(value) && isNumberIn(value, min, max);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// A pack level as it is in the JSON, once parseLevelPack has checked it
+interface PackLevelJson {
+  name: string;
+  image: string;
+  bossSpeed: number;
+  enemyCount: number;
+  minionCount?: number;
+  minRevealPercent: number;
+  difficulty?: number;
+  itemSpawnIntervalMs?: number;
+  itemWeights?: Partial<Record<ItemType, number>>;
+  musicTrack?: number;
+  mask?: string[];
+  bossSpawns?: Point[];
+  minionSpawns?: Point[];
+}
+
+const RESERVED_PACK_IDS: Record<string, string> = {
+  [CORE_PACK_ID]: 'the built-in levels',
+  [CUSTOM_PACK_ID]: 'the levels made in the editor'
+};
+
+/**
+ * Validates raw pack JSON and turns it into a LevelPack. Relative image paths are
+ * resolved against `baseUrl`. Throws an Error listing every problem found.
+ */
+export const parseLevelPack = (data: unknown, baseUrl: string): LevelPack => {
+  const errors: string[] = [];
+
+  if (!isObject(data)) {
+    throw new Error('Level pack must be a JSON object');
+  }
+  if (data.format !== LEVEL_PACK_FORMAT) errors.push(`"format" must be "${LEVEL_PACK_FORMAT}"`);
+  if (data.version !== LEVEL_PACK_VERSION) errors.push(`"version" must be ${LEVEL_PACK_VERSION}`);
+  if (typeof data.id !== 'string' || !/^[a-z0-9-_]{1,40}$/i.test(data.id)) {
+    errors.push('"id" must be 1-40 letters, digits, "-" or "_"');
+  } else if (data.id in RESERVED_PACK_IDS) {
+    errors.push(`"id" cannot be "${data.id}", it is reserved for ${RESERVED_PACK_IDS[data.id]}`);
+  }
+  if (typeof data.name !== 'string' || data.name.trim() === '') errors.push('"name" is required');
+  if (!Array.isArray(data.levels) || data.levels.length === 0) {
+    errors.push('"levels" must be a non-empty array');
+  }
+
+  const levels: LevelConfig[] = [];
+  (Array.isArray(data.levels) ? data.levels : []).forEach((raw: unknown, i: number) => {
+    const at = `levels[${i}]`;
+    if (!isObject(raw)) {
+      errors.push(`${at} must be an object`);
+      return;
+    }
+
+    const levelErrors: string[] = [];
+    if (typeof raw.name !== 'string' || raw.name.trim() === '') levelErrors.push(`${at}.name is required`);
+    if (typeof raw.image !== 'string' || raw.image === '') levelErrors.push(`${at}.image is required`);
+    if (!isNumberIn(raw.bossSpeed, 0.01, 1)) levelErrors.push(`${at}.bossSpeed must be a number between 0.01 and 1`);
+    if (!isIntegerIn(raw.enemyCount, 1, 10)) levelErrors.push(`${at}.enemyCount must be an integer between 1 and 10`);
+    if (!isNumberIn(raw.minRevealPercent, 1, 99)) levelErrors.push(`${at}.minRevealPercent must be between 1 and 99`);
+    if (raw.minionCount !== undefined && !isIntegerIn(raw.minionCount, 0, 3)) {
+      levelErrors.push(`${at}.minionCount must be an integer between 0 and 3`);
+    }
+    if (raw.difficulty !== undefined && !isNumberIn(raw.difficulty, 0, 10)) {
+      levelErrors.push(`${at}.difficulty must be between 0 and 10`);
+    }
+    if (raw.itemSpawnIntervalMs !== undefined && !isNumberIn(raw.itemSpawnIntervalMs, 0, 600000)) {
+      levelErrors.push(`${at}.itemSpawnIntervalMs must be between 0 and 600000`);
+    }
+    if (raw.itemWeights !== undefined) {
+      const weights = raw.itemWeights;
+      const valid = weights && typeof weights === 'object' && Object.entries(weights).every(
+        ([type, weight]) => type in ITEM_WEIGHTS && isNumberIn(weight, 0, 100)
+      );
+      if (!valid) {
+        levelErrors.push(`${at}.itemWeights must map item types (${Object.keys(ITEM_WEIGHTS).join(', ')}) to weights 0-100`);
+      }
+    }
+    if (raw.musicTrack !== undefined && !isIntegerIn(raw.musicTrack, 0, MUSIC_TRACK_COUNT - 1)) {
+      levelErrors.push(`${at}.musicTrack must be an integer between 0 and ${MUSIC_TRACK_COUNT - 1}`);
+    }
+    if (raw.mask !== undefined) {
+      const error = validateMask(raw.mask, raw.minRevealPercent);
+      if (error) levelErrors.push(`${at}.mask ${error}`);
+    }
+    (['bossSpawns', 'minionSpawns'] as const).forEach(key => {
+      if (raw[key] !== undefined && !isPointList(raw[key])) {
+        levelErrors.push(`${at}.${key} must be a list of { "x", "y" } grid positions`);
+      }
+    });
+
+    errors.push(...levelErrors);
+    if (levelErrors.length > 0) return;
+
+    const level = raw as unknown as PackLevelJson;
+    levels.push({
+      // Pack levels are numbered from 1; id 0 is reserved for the tutorial
+      id: i + 1,
+      packId: data.id as string,
+      name: level.name.trim(),
+      imageUrl: resolveUrl(level.image, baseUrl),
+      difficulty: level.difficulty ?? Math.min(10, i + 1),
+      bossSpeed: level.bossSpeed,
+      minRevealPercent: level.minRevealPercent,
+      enemyCount: level.enemyCount,
+      minionCount: level.minionCount,
+      itemSpawnIntervalMs: level.itemSpawnIntervalMs,
+      itemWeights: level.itemWeights,
+      musicTrack: level.musicTrack,
+      mask: level.mask,
+      bossSpawns: level.bossSpawns,
+      minionSpawns: level.minionSpawns
+    });
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid level pack:\n- ${errors.join('\n- ')}`);
+  }
+
+  return {
+    id: data.id as string,
+    name: (data.name as string).trim(),
+    author: typeof data.author === 'string' ? data.author : undefined,
+    levels
+  };
+};
+
+const validateMask = (mask: unknown, minRevealPercent: unknown): string | null => {
+  if (!Array.isArray(mask) || mask.length !== GRID_HEIGHT) {
+    return `must be an array of ${GRID_HEIGHT} rows`;
+  }
+  let revealed = 0;
+  let obstacles = 0;
+  for (let y = 0; y < mask.length; y++) {
+    const row = mask[y];
+    if (typeof row !== 'string' || row.length !== GRID_WIDTH) {
+      return `row ${y} must be a string of ${GRID_WIDTH} characters`;
+    }
+    if (!/^[01X]*$/.test(row)) {
+      return `row ${y} may only contain "0" (revealed), "1" (covered) and "X" (obstacle)`;
+    }
+    // The border is always revealed, only the playfield counts
+    if (y > 0 && y < GRID_HEIGHT - 1) {
+      for (let x = 1; x < GRID_WIDTH - 1; x++) {
+        if (row[x] === '0') revealed++;
+        else if (row[x] === 'X') obstacles++;
+      }
+    }
+  }
+  const playfield = (GRID_WIDTH - 2) * (GRID_HEIGHT - 2) - obstacles;
+  if (revealed >= playfield) return 'leaves nothing to reveal';
+  const percent = (revealed / playfield) * 100;
+  if (typeof minRevealPercent === 'number' && percent >= minRevealPercent) {
+    return `already reveals ${percent.toFixed(1)}% of the picture, more than minRevealPercent`;
+  }
+  return null;
+};
+
+const isPointList = (value: unknown): value is Point[] =>
+  Array.isArray(value) && value.every(p =>
+    p && isIntegerIn(p.x, 0, GRID_WIDTH - 1) && isIntegerIn(p.y, 0, GRID_HEIGHT - 1)
+  );
+
+const resolveUrl = (path: string, baseUrl: string) => {
+  if (path.startsWith('data:')) return path;
+  try {
+    return new URL(path, baseUrl).href;
+  } catch {
+    return path;
+  }
+};
+
+const parseJson = (text: string) => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new Error('Level pack is not valid JSON');
+  }
+};
+
+/**
+ * Loads a pack picked from disk. Relative images resolve against the game's own URL.
+ */
+export const loadLevelPackFromFile = async (file: File): Promise<LevelPack> =>
+  parseLevelPack(parseJson(await file.text()), document.baseURI);
+
+/**
+ * Loads a pack from a path relative to the game (e.g. "packs/neon.json").
+ */
+export const loadLevelPackFromPath = async (path: string): Promise<LevelPack> => {
+  const url = new URL(path, document.baseURI).href;
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch {
+    throw new Error(`Could not reach ${path}`);
+  }
+  if (!response.ok) throw new Error(`Could not load ${path} (HTTP ${response.status})`);
+  return parseLevelPack(parseJson(await response.text()), url);
+};
+
+// --- Writing packs ---
+
+/**
+ * Turns levels back into the JSON pack format. Images must be absolute or data: URLs
+ * for the file to work from anywhere.
+ */
+export const serializeLevelPack = (pack: LevelPack): string => JSON.stringify(toPackJson(pack), null, 2);
+
+const toPackJson = (pack: LevelPack) => ({
+  format: LEVEL_PACK_FORMAT,
+  version: LEVEL_PACK_VERSION,
+  id: pack.id,
+  name: pack.name,
+  author: pack.author,
+  levels: pack.levels.map(level => ({
+    name: level.name,
+    image: level.imageUrl,
+    bossSpeed: level.bossSpeed,
+    enemyCount: level.enemyCount,
+    minionCount: level.minionCount,
+    minRevealPercent: level.minRevealPercent,
+    difficulty: level.difficulty,
+    itemSpawnIntervalMs: level.itemSpawnIntervalMs,
+    itemWeights: level.itemWeights,
+    musicTrack: level.musicTrack,
+    mask: level.mask,
+    bossSpawns: level.bossSpawns,
+    minionSpawns: level.minionSpawns
+  }))
+});
+
+export const downloadLevelPack = (pack: LevelPack) => {
+  const blob = new Blob([serializeLevelPack(pack)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${pack.id}.json`;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+// --- Installed packs (kept so they survive reloads) ---
+
+/**
+ * Stored packs go through parseLevelPack again, like a pack file would; the
+ * ones that no longer pass (edited storage, older builds) are dropped.
+ */
+export const loadInstalledPacks = (): LevelPack[] => {
+  let stored: unknown;
+  try {
+    stored = JSON.parse(localStorage.getItem(PACKS_KEY) ?? '[]');
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(stored)) return [];
+  return stored.flatMap(pack => {
+    try {
+      return [parseLevelPack(toPackJson(pack), document.baseURI)];
+    } catch {
+      return [];
+    }
+  });
+};
+
+export const saveInstalledPacks = (packs: LevelPack[]) => {
+  localStorage.setItem(PACKS_KEY, JSON.stringify(packs));
+};
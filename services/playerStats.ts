@@ -0,0 +1,133 @@
+import { Enemy, LevelStats, PlayerStats } from '../types';
+
+/**
+ * Lifetime statistics of a profile.
+ *
+ * Pure updaters for App's gameplay handlers, plus the derived per-level
+ * numbers the stats screen charts. Only live runs are recorded; replays and
+ * editor play-tests never reach these.
+ */
+
+// Upper bounds (percentage of the level, exclusive) of the capture size histogram; the last bucket is open
+export const CAPTURE_SIZE_BUCKETS = [1, 2, 5, 10, 20];
+
+export const createPlayerStats = (): PlayerStats => ({
+  levelsPlayed: 0,
+  levelsCompleted: 0,
+  timePlayed: 0,
+  tilesRevealed: 0,
+  livesLost: 0,
+  continuesUsed: 0,
+  deathsBy: { BOSS: 0, MINION: 0 },
+  captureSizes: CAPTURE_SIZE_BUCKETS.map(() => 0).concat(0),
+  levels: {}
+});
+
+export const createLevelStats = (): LevelStats => ({ attempts: 0, clears: 0, gameOvers: 0, livesLost: 0, clearTime: 0 });
+
+const updateLevel = (
+  stats: PlayerStats, packId: string, levelId: number, update: (prev: LevelStats) => LevelStats
+): PlayerStats['levels'] => {
+  const pack = stats.levels[packId] ?? {};
+  return { ...stats.levels, [packId]: { ...pack, [levelId]: update(pack[levelId] ?? createLevelStats()) } };
+};
+
+export const captureSizeBucket = (area: number) => {
+  const index = CAPTURE_SIZE_BUCKETS.findIndex(limit => area < limit);
+  return index < 0 ? CAPTURE_SIZE_BUCKETS.length : index;
+};
+
+export const recordLevelStart = (stats: PlayerStats, packId: string, levelId: number): PlayerStats => ({
+  ...stats,
+  levelsPlayed: stats.levelsPlayed + 1,
+  levels: updateLevel(stats, packId, levelId, l => ({ ...l, attempts: l.attempts + 1 }))
+});
+
+export const recordCapture = (stats: PlayerStats, tiles: number, area: number): PlayerStats => ({
+  ...stats,
+  tilesRevealed: stats.tilesRevealed + tiles,
+  captureSizes: stats.captureSizes.map((n, i) => i === captureSizeBucket(area) ? n + 1 : n)
+});
+
+// Only for hits that cost a life: tutorial hits are not deaths
+export const recordDamage = (stats: PlayerStats, packId: string, levelId: number, source: Enemy['type']): PlayerStats => ({
+  ...stats,
+  livesLost: stats.livesLost + 1,
+  deathsBy: { ...stats.deathsBy, [source]: stats.deathsBy[source] + 1 },
+  levels: updateLevel(stats, packId, levelId, l => ({ ...l, livesLost: l.livesLost + 1 }))
+});
+
+export const recordGameOver = (stats: PlayerStats, packId: string, levelId: number, time: number): PlayerStats => ({
+  ...stats,
+  timePlayed: stats.timePlayed + time,
+  levels: updateLevel(stats, packId, levelId, l => ({ ...l, gameOvers: l.gameOvers + 1 }))
+});
+
+// A skipped level counts as completed (it unlocks the next one) but sets no clear time
+export const recordLevelClear = (
+  stats: PlayerStats, packId: string, levelId: number, time: number, skipped: boolean
+): PlayerStats => ({
+  ...stats,
+  levelsCompleted: stats.levelsCompleted + 1,
+  timePlayed: stats.timePlayed + time,
+  levels: skipped
+    ? stats.levels
+    : updateLevel(stats, packId, levelId, l => ({
+        ...l,
+        clears: l.clears + 1,
+        clearTime: l.clearTime + time,
+        bestTime: l.bestTime === undefined ? time : Math.min(l.bestTime, time)
+      }))
+});
+
+export const recordContinue = (stats: PlayerStats): PlayerStats => ({
+  ...stats,
+  continuesUsed: stats.continuesUsed + 1
+});
+
+export const formatPlayTime = (seconds: number) => {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  return h > 0 ? `${h}h ${m}m` : `${m}m ${Math.floor(seconds % 60)}s`;
+};
+
+/**
+ * Derived numbers for one level; null where there is nothing to average yet.
+ */
+export const summarizeLevel = (level: LevelStats | undefined) => ({
+  attempts: level?.attempts ?? 0,
+  averageClearTime: level && level.clears > 0 ? level.clearTime / level.clears : null,
+  livesLostPerAttempt: level && level.attempts > 0 ? level.livesLost / level.attempts : null,
+  clearRate: level && level.attempts > 0 ? level.clears / level.attempts : null
+});
+
+/**
+ * Joins the stats of the same profile from two devices: every counter keeps the
+ * higher value, every level the record with more attempts.
+ */
+export const mergePlayerStats = (current: PlayerStats, incoming: PlayerStats): PlayerStats => {
+  const levels: PlayerStats['levels'] = { ...current.levels };
+  Object.entries(incoming.levels).forEach(([packId, pack]) => {
+    const merged = { ...(levels[packId] ?? {}) };
+    Object.entries(pack).forEach(([levelId, level]) => {
+      // Whole records, so averages stay consistent
+      const existing = merged[levelId];
+      if (!existing || level.attempts > existing.attempts) merged[levelId] = level;
+    });
+    levels[packId] = merged;
+  });
+  return {
+    levelsPlayed: Math.max(current.levelsPlayed, incoming.levelsPlayed),
+    levelsCompleted: Math.max(current.levelsCompleted, incoming.levelsCompleted),
+    timePlayed: Math.max(current.timePlayed, incoming.timePlayed),
+    tilesRevealed: Math.max(current.tilesRevealed, incoming.tilesRevealed),
+    livesLost: Math.max(current.livesLost, incoming.livesLost),
+    continuesUsed: Math.max(current.continuesUsed, incoming.continuesUsed),
+    deathsBy: {
+      BOSS: Math.max(current.deathsBy.BOSS, incoming.deathsBy.BOSS),
+      MINION: Math.max(current.deathsBy.MINION, incoming.deathsBy.MINION)
+    },
+    captureSizes: current.captureSizes.map((n, i) => Math.max(n, incoming.captureSizes[i] ?? 0)),
+    levels
+  };
+};
@@ -0,0 +1,123 @@
+import { LevelConfig, Point, Replay, ReplayInput, SimulationState } from '../types';
+import { createGameSimulation, GameSimulation } from './gameSimulation';
+
+export const REPLAY_VERSION = 1;
+
+/**
+ * Records the input of a live run as a compact list of direction changes.
+ * Combined with the seed and level this is enough to re-simulate the run exactly.
+ */
+export interface ReplayRecorder {
+  record: (tick: number, input: Point) => void;
+  finish: (state: SimulationState) => Replay;
+}
+
+export const createReplayRecorder = (level: LevelConfig, seed: number, initialScore: number): ReplayRecorder => {
+  const inputs: ReplayInput[] = [];
+  let last: Point = { x: 0, y: 0 };
+
+  return {
+    record: (tick, input) => {
+      if (input.x === last.x && input.y === last.y) return;
+      last = { x: input.x, y: input.y };
+      inputs.push([tick, input.x, input.y]);
+    },
+    finish: (state) => ({
+      version: REPLAY_VERSION,
+      packId: level.packId,
+      levelId: level.id,
+      seed,
+      initialScore,
+      inputs: [...inputs],
+      totalTicks: state.tick,
+      result: state.status,
+      stats: { ...state.stats },
+      recordedAt: new Date().toISOString()
+    })
+  };
+};
+
+/**
+ * Direction held at the given tick (binary search, so scrubbing stays cheap).
+ */
+export const getReplayInput = (replay: Replay, tick: number): Point => {
+  const { inputs } = replay;
+  let lo = 0;
+  let hi = inputs.length - 1;
+  let found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (inputs[mid][0] <= tick) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  if (found < 0) return { x: 0, y: 0 };
+  return { x: inputs[found][1], y: inputs[found][2] };
+};
+
+/**
+ * Creates a simulation for the replay and fast-forwards it headlessly to `untilTick`.
+ */
+export const simulateReplay = (replay: Replay, level: LevelConfig, untilTick: number = replay.totalTicks): GameSimulation => {
+  const sim = createGameSimulation(level, { seed: replay.seed, initialScore: replay.initialScore });
+  const target = Math.min(untilTick, replay.totalTicks);
+  while (sim.getState().tick < target && sim.getState().status === 'PLAYING') {
+    sim.step(getReplayInput(replay, sim.getState().tick + 1));
+  }
+  return sim;
+};
+
+export const serializeReplay = (replay: Replay): string => JSON.stringify(replay);
+
+/**
+ * Parses and validates a replay file. Throws with a readable message on bad input.
+ */
+export const parseReplay = (text: string): Replay => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Replay file is not valid JSON');
+  }
+
+  if (!data || typeof data !== 'object') throw new Error('Replay file is empty');
+  if (data.version !== REPLAY_VERSION) throw new Error(`Unsupported replay version: ${data.version}`);
+
+  const numeric = ['levelId', 'seed', 'initialScore', 'totalTicks'];
+  for (const key of numeric) {
+    if (typeof data[key] !== 'number' || !Number.isFinite(data[key])) {
+      throw new Error(`Replay field "${key}" must be a number`);
+    }
+  }
+
+  if (data.packId !== undefined && typeof data.packId !== 'string') {
+    throw new Error('Replay field "packId" must be a string');
+  }
+
+  const validInputs = Array.isArray(data.inputs) && data.inputs.every((i: unknown) =>
+    Array.isArray(i) && i.length === 3 && i.every(n => Number.isInteger(n)) &&
+    Math.abs(i[1]) + Math.abs(i[2]) <= 1
+  );
+  if (!validInputs) throw new Error('Replay inputs are malformed');
+
+  const stats = data.stats;
+  if (!stats || ['areaRevealed', 'timeElapsed', 'score'].some(k => typeof stats[k] !== 'number')) {
+    throw new Error('Replay stats are missing');
+  }
+
+  return data as Replay;
+};
+
+export const downloadReplay = (replay: Replay) => {
+  const blob = new Blob([serializeReplay(replay)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  const pack = replay.packId ? `${replay.packId}-` : '';
+  a.download = `siilveer-replay-${pack}lvl${replay.levelId}-${replay.recordedAt.slice(0, 10)}.json`;
+  a.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,28 @@
+/**
+ * Small seeded PRNG (mulberry32) so a level run can be reproduced exactly.
+ * The whole generator state is a single uint32, which keeps snapshots serializable.
+ */
+export interface Rng {
+  next: () => number; // Float in [0, 1)
+  getState: () => number;
+}
+
+export const createRng = (seed: number, state: number = seed): Rng => {
+  let s = state >>> 0;
+
+  return {
+    next: () => {
+      s = (s + 0x6D2B79F5) >>> 0;
+      let t = s;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    },
+    getState: () => s
+  };
+};
+
+/**
+ * Random seed for a fresh run. Not deterministic on purpose.
+ */
+export const randomSeed = (): number => Math.floor(Math.random() * 4294967296);
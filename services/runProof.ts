@@ -0,0 +1,79 @@
+import { Replay, ReplayInput, RunProof, RunProofAttempt } from '../types';
+import { REPLAY_VERSION } from './replay';
+
+/**
+ * Run proofs: the seed and input of every level attempt of a run, attached to
+ * remote score submissions so they can be re-simulated (services/scoreVerifier.ts).
+ *
+ * Inputs are stored as one string of direction changes: the tick delta since
+ * the previous change in base 36 (lowercase digits) followed by one uppercase
+ * letter for the direction held from then on. "1R3hD" = right on tick 1,
+ * down 125 ticks later.
+ */
+export const RUN_PROOF_VERSION = 1;
+
+const DIRECTION_CODES: Record<string, [number, number]> = {
+  N: [0, 0],
+  U: [0, -1],
+  D: [0, 1],
+  L: [-1, 0],
+  R: [1, 0]
+};
+
+const codeFor = (dx: number, dy: number) =>
+  Object.keys(DIRECTION_CODES).find(code => DIRECTION_CODES[code][0] === dx && DIRECTION_CODES[code][1] === dy) ?? 'N';
+
+export const encodeInputs = (inputs: ReplayInput[]): string => {
+  let lastTick = 0;
+  return inputs.map(([tick, dx, dy]) => {
+    const delta = tick - lastTick;
+    lastTick = tick;
+    return `${delta.toString(36)}${codeFor(dx, dy)}`;
+  }).join('');
+};
+
+/**
+ * Throws on malformed input strings.
+ */
+export const decodeInputs = (encoded: string): ReplayInput[] => {
+  if (!/^([0-9a-z]+[NUDLR])*$/.test(encoded)) throw new Error('Run proof inputs are malformed');
+  const inputs: ReplayInput[] = [];
+  let tick = 0;
+  for (const [, delta, code] of encoded.matchAll(/([0-9a-z]+)([NUDLR])/g)) {
+    tick += parseInt(delta, 36);
+    const [dx, dy] = DIRECTION_CODES[code];
+    inputs.push([tick, dx, dy]);
+  }
+  return inputs;
+};
+
+/**
+ * Builds the proof of a run from the replays of its level attempts, in order.
+ */
+export const createRunProof = (packId: string | undefined, replays: Replay[]): RunProof => ({
+  version: RUN_PROOF_VERSION,
+  packId,
+  attempts: replays.map(replay => ({
+    levelId: replay.levelId,
+    seed: replay.seed,
+    ticks: replay.totalTicks,
+    inputs: encodeInputs(replay.inputs)
+  }))
+});
+
+/**
+ * Turns one attempt back into a replay that can be simulated. The initial score
+ * is not part of the proof: the verifier derives it from the previous attempts.
+ */
+export const attemptToReplay = (proof: RunProof, attempt: RunProofAttempt, initialScore: number): Replay => ({
+  version: REPLAY_VERSION,
+  packId: proof.packId,
+  levelId: attempt.levelId,
+  seed: attempt.seed,
+  initialScore,
+  inputs: decodeInputs(attempt.inputs),
+  totalTicks: attempt.ticks,
+  result: 'PLAYING', // Unknown until simulated
+  stats: { areaRevealed: 0, timeElapsed: 0, score: initialScore },
+  recordedAt: ''
+});
@@ -0,0 +1,531 @@
+import { CORE_PACK_ID, MOCK_SCORES } from '../constants';
+import {
+  SaveData, ScoreEntry, GameSettings, PlayerStats, PlayerProfile, Language, EffectsQuality, LeaderboardKind, LevelBoards,
+  AchievementRecord, LevelStats, TouchLayout
+} from '../types';
+import { BOARD_ORDER, MAX_SCORES, createLevelBoards } from './leaderboard';
+import { mergeAchievements } from './achievements';
+import { detectLanguage, isLanguage } from './i18n';
+import { DEFAULT_BINDINGS, sanitizeBindings } from './controls';
+import { createPlayerStats, createLevelStats, mergePlayerStats } from './playerStats';
+
+/**
+ * Versioned save data.
+ *
+ * Profiles (progress, personal bests, language, stats, achievements), the device-wide score
+ * table and device settings live in a single JSON document. Older
+ * documents are upgraded step by step through MIGRATIONS, and every section is
+ * validated on its own: a damaged section falls back to its defaults without
+ * taking the rest of the profile with it.
+ */
+export const SAVE_SCHEMA_VERSION = 4;
+
+const SAVE_KEY = 'SIILVEER_PANIIC_SAVE';
+const BACKUP_KEY = 'SIILVEER_PANIIC_SAVE_BACKUP'; // Last document that loaded cleanly
+
+// Keys used before the save document existed (schema 0)
+const LEGACY_UNLOCKS_KEY = 'SIILVEER_PANIIC_UNLOCKS';
+const LEGACY_SCORES_KEY = 'SIILVEER_PANIIC_SCORES';
+const LEGACY_QUALITY_KEY = 'SIILVEER_PANIIC_QUALITY';
+const LEGACY_GHOST_KEY = 'SIILVEER_PANIIC_GHOST';
+const LEGACY_VERSION_KEY = 'SIILVEER_DATA_VERSION';
+
+const QUALITIES: EffectsQuality[] = ['LOW', 'MEDIUM', 'HIGH'];
+const TOUCH_LAYOUTS: TouchLayout[] = ['LEFT', 'RIGHT'];
+
+export const MAX_PROFILE_NAME = 12;
+const MAX_CONTINUE_HISTORY = 20;
+const DEFAULT_PROFILE_NAME = 'PLAYER';
+
+const createProfileId = () => `p-${Date.now().toString(36)}-${Math.floor(Math.random() * 1e6).toString(36)}`;
+
+export const createProfile = (name: string, language: Language = detectLanguage()): PlayerProfile => ({
+  id: createProfileId(),
+  name: name.trim().slice(0, MAX_PROFILE_NAME) || DEFAULT_PROFILE_NAME,
+  language,
+  unlocks: { [CORE_PACK_ID]: [0] }, // Only Level 0 is unlocked
+  bests: {},
+  continueHistory: [],
+  stats: createPlayerStats(),
+  achievements: {}
+});
+
+export const createDefaultSave = (): SaveData => {
+  const profile = createProfile(DEFAULT_PROFILE_NAME);
+  return {
+    schemaVersion: SAVE_SCHEMA_VERSION,
+    activeProfileId: profile.id,
+    profiles: [profile],
+    scores: { [CORE_PACK_ID]: MOCK_SCORES },
+    levelBoards: {},
+    settings: {
+      quality: 'HIGH',
+      ghostEnabled: true,
+      keyBindings: DEFAULT_BINDINGS,
+      volume: 1,
+      reducedEffects: false,
+      touchLayout: 'RIGHT',
+      keepMoving: false
+    }
+  };
+};
+
+export const getActiveProfile = (data: SaveData): PlayerProfile =>
+  data.profiles.find(p => p.id === data.activeProfileId) ?? data.profiles[0];
+
+export const recordContinues = (history: number[], continuesUsed: number) =>
+  [...history, continuesUsed].slice(-MAX_CONTINUE_HISTORY);
+
+// Save problems never stop the game, they only show up in the console
+const reportSaveProblem = (message: string, err?: unknown) => {
+  if (err === undefined) console.warn(`Save data: ${message}`);
+  else console.warn(`Save data: ${message}`, err);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// --- Migrations ---
+
+/**
+ * MIGRATIONS[n] turns a schema n document into schema n + 1. They must never
+ * drop progress: when in doubt, keep the old value.
+ */
+const MIGRATIONS: Record<number, (data: unknown) => unknown> = {
+  // 0 -> 1: gather the loose keys into the save document
+  0: () => {
+    const unlocks: Record<string, unknown> = {};
+    const scores: Record<string, unknown> = {};
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (!key) continue;
+      if (key === LEGACY_UNLOCKS_KEY) unlocks[CORE_PACK_ID] = readLegacyJson(key);
+      else if (key.startsWith(`${LEGACY_UNLOCKS_KEY}:`)) unlocks[key.slice(LEGACY_UNLOCKS_KEY.length + 1)] = readLegacyJson(key);
+      else if (key === LEGACY_SCORES_KEY) scores[CORE_PACK_ID] = readLegacyJson(key);
+      else if (key.startsWith(`${LEGACY_SCORES_KEY}:`)) scores[key.slice(LEGACY_SCORES_KEY.length + 1)] = readLegacyJson(key);
+    }
+    return {
+      schemaVersion: 1,
+      unlocks,
+      scores,
+      settings: {
+        quality: localStorage.getItem(LEGACY_QUALITY_KEY),
+        ghostEnabled: localStorage.getItem(LEGACY_GHOST_KEY) !== '0'
+      },
+      stats: {}
+    };
+  },
+  // 1 -> 2: the single player becomes the first profile; language and stats move into it
+  1: (data) => {
+    const doc = isRecord(data) ? data : {};
+    const settings = isRecord(doc.settings) ? doc.settings : {};
+    const profile = createProfile(DEFAULT_PROFILE_NAME, isLanguage(settings.language) ? settings.language : undefined);
+    return {
+      schemaVersion: 2,
+      activeProfileId: profile.id,
+      profiles: [{ ...profile, unlocks: doc.unlocks, stats: doc.stats }],
+      scores: doc.scores,
+      settings: doc.settings
+    };
+  },
+  // 2 -> 3: per-level time and area boards
+  2: (data) => ({ ...(isRecord(data) ? data : {}), schemaVersion: 3, levelBoards: {} }),
+  // 3 -> 4: achievements, per profile
+  3: (data) => {
+    const doc = isRecord(data) ? data : {};
+    return {
+      ...doc,
+      schemaVersion: 4,
+      profiles: Array.isArray(doc.profiles)
+        ? doc.profiles.map((p: unknown) => isRecord(p) ? { ...p, achievements: {} } : p)
+        : doc.profiles
+    };
+  }
+};
+
+const readLegacyJson = (key: string): unknown => {
+  try {
+    return JSON.parse(localStorage.getItem(key) ?? 'null');
+  } catch {
+    reportSaveProblem(`ignoring corrupted "${key}"`);
+    return null;
+  }
+};
+
+const migrate = (data: unknown): unknown => {
+  let current = data;
+  let version = isRecord(current) && typeof current.schemaVersion === 'number' ? current.schemaVersion : 0;
+  while (version < SAVE_SCHEMA_VERSION) {
+    const step = MIGRATIONS[version];
+    if (!step) throw new Error(`No save migration from schema ${version}`);
+    current = step(current);
+    version++;
+  }
+  return current;
+};
+
+// --- Validation (one section at a time) ---
+
+const sanitizeUnlocks = (value: unknown): Record<string, number[]> => {
+  if (!isRecord(value)) return { [CORE_PACK_ID]: [0] };
+  const unlocks: Record<string, number[]> = {};
+  Object.entries(value).forEach(([packId, ids]) => {
+    if (Array.isArray(ids)) unlocks[packId] = ids.filter((id): id is number => Number.isInteger(id));
+  });
+  // The tutorial is always available
+  const core = unlocks[CORE_PACK_ID] ?? [];
+  unlocks[CORE_PACK_ID] = core.includes(0) ? core : [0, ...core];
+  return unlocks;
+};
+
+const isOptionalNumber = (value: unknown) =>
+  value === undefined || (typeof value === 'number' && Number.isFinite(value));
+
+const isScoreEntry = (entry: unknown): entry is ScoreEntry =>
+  isRecord(entry) &&
+  typeof entry.playerName === 'string' &&
+  typeof entry.score === 'number' && Number.isFinite(entry.score) &&
+  typeof entry.level === 'number' &&
+  typeof entry.date === 'string' &&
+  ['continuesUsed', 'livesLost', 'maxCombo', 'time', 'area'].every(key => isOptionalNumber(entry[key]));
+
+const sanitizeScoreTables = (value: unknown): Record<string, ScoreEntry[]> => {
+  if (!isRecord(value)) return {};
+  const tables: Record<string, ScoreEntry[]> = {};
+  Object.entries(value).forEach(([packId, entries]) => {
+    if (Array.isArray(entries)) tables[packId] = entries.filter(isScoreEntry);
+  });
+  return tables;
+};
+
+const sanitizeLevelBoards = (value: unknown): Record<string, Record<string, LevelBoards>> => {
+  if (!isRecord(value)) return {};
+  const packs: Record<string, Record<string, LevelBoards>> = {};
+  Object.entries(value).forEach(([packId, levels]) => {
+    if (!isRecord(levels)) return;
+    packs[packId] = {};
+    Object.entries(levels).forEach(([levelId, boards]) => {
+      const tables = sanitizeScoreTables(boards);
+      packs[packId][levelId] = { time: tables.time ?? [], area: tables.area ?? [] };
+    });
+  });
+  return packs;
+};
+
+const sanitizeSettings = (value: unknown): GameSettings => {
+  const defaults = createDefaultSave().settings;
+  const settings = isRecord(value) ? value : {};
+  return {
+    quality: QUALITIES.includes(settings.quality as EffectsQuality) ? settings.quality as EffectsQuality : defaults.quality,
+    ghostEnabled: typeof settings.ghostEnabled === 'boolean' ? settings.ghostEnabled : defaults.ghostEnabled,
+    keyBindings: sanitizeBindings(settings.keyBindings),
+    volume: typeof settings.volume === 'number' && Number.isFinite(settings.volume)
+      ? Math.min(1, Math.max(0, settings.volume))
+      : defaults.volume,
+    reducedEffects: typeof settings.reducedEffects === 'boolean' ? settings.reducedEffects : defaults.reducedEffects,
+    touchLayout: TOUCH_LAYOUTS.includes(settings.touchLayout as TouchLayout) ? settings.touchLayout as TouchLayout : defaults.touchLayout,
+    keepMoving: typeof settings.keepMoving === 'boolean' ? settings.keepMoving : defaults.keepMoving
+  };
+};
+
+const toCount = (n: unknown) => typeof n === 'number' && Number.isFinite(n) && n >= 0 ? n : 0;
+
+const sanitizeLevelStats = (value: unknown): LevelStats => {
+  const level = isRecord(value) ? value : {};
+  const defaults = createLevelStats();
+  (Object.keys(defaults) as (keyof LevelStats)[]).forEach(key => { defaults[key] = toCount(level[key]); });
+  if (typeof level.bestTime === 'number' && Number.isFinite(level.bestTime) && level.bestTime > 0) defaults.bestTime = level.bestTime;
+  return defaults;
+};
+
+// Counters added later (tiles, deaths, histogram, levels) start at zero on older saves
+const sanitizeStats = (value: unknown): PlayerStats => {
+  const stats = isRecord(value) ? value : {};
+  const deathsBy = isRecord(stats.deathsBy) ? stats.deathsBy : {};
+  const captureSizes = Array.isArray(stats.captureSizes) ? stats.captureSizes : [];
+  const levels: PlayerStats['levels'] = {};
+  if (isRecord(stats.levels)) {
+    Object.entries(stats.levels).forEach(([packId, pack]) => {
+      if (!isRecord(pack)) return;
+      levels[packId] = {};
+      Object.entries(pack).forEach(([levelId, level]) => { levels[packId][levelId] = sanitizeLevelStats(level); });
+    });
+  }
+  return {
+    levelsPlayed: toCount(stats.levelsPlayed),
+    levelsCompleted: toCount(stats.levelsCompleted),
+    timePlayed: toCount(stats.timePlayed),
+    tilesRevealed: toCount(stats.tilesRevealed),
+    livesLost: toCount(stats.livesLost),
+    continuesUsed: toCount(stats.continuesUsed),
+    deathsBy: { BOSS: toCount(deathsBy.BOSS), MINION: toCount(deathsBy.MINION) },
+    captureSizes: createPlayerStats().captureSizes.map((_, i) => toCount(captureSizes[i])),
+    levels
+  };
+};
+
+const sanitizeAchievements = (value: unknown): Record<string, AchievementRecord> => {
+  if (!isRecord(value)) return {};
+  const records: Record<string, AchievementRecord> = {};
+  Object.entries(value).forEach(([id, record]) => {
+    if (!isRecord(record) || typeof record.progress !== 'number' || !Number.isFinite(record.progress)) return;
+    records[id] = typeof record.unlockedAt === 'string'
+      ? { progress: Math.max(0, record.progress), unlockedAt: record.unlockedAt }
+      : { progress: Math.max(0, record.progress) };
+  });
+  return records;
+};
+
+const sanitizeProfile = (value: unknown): PlayerProfile | null => {
+  if (!isRecord(value) || typeof value.id !== 'string' || !value.id) return null;
+  const fallback = createProfile(typeof value.name === 'string' ? value.name : DEFAULT_PROFILE_NAME);
+  return {
+    id: value.id,
+    name: fallback.name,
+    language: isLanguage(value.language) ? value.language : fallback.language,
+    unlocks: sanitizeUnlocks(value.unlocks),
+    bests: sanitizeScoreTables(value.bests),
+    continueHistory: Array.isArray(value.continueHistory)
+      ? value.continueHistory.filter((n): n is number => Number.isInteger(n) && n >= 0).slice(-MAX_CONTINUE_HISTORY)
+      : [],
+    stats: sanitizeStats(value.stats),
+    achievements: sanitizeAchievements(value.achievements)
+  };
+};
+
+/**
+ * Validates a (migrated) document. Unknown fields are dropped, damaged
+ * sections are replaced by their defaults; a broken profile only loses itself.
+ */
+export const sanitizeSaveData = (data: unknown): SaveData => {
+  const doc = isRecord(data) ? data : {};
+  const defaults = createDefaultSave();
+
+  const seen = new Set<string>();
+  const profiles = (Array.isArray(doc.profiles) ? doc.profiles : [])
+    .map(sanitizeProfile)
+    .filter((p): p is PlayerProfile => p !== null && !seen.has(p.id) && !!seen.add(p.id));
+  if (profiles.length === 0) profiles.push(...defaults.profiles);
+
+  const activeProfileId = profiles.some(p => p.id === doc.activeProfileId)
+    ? doc.activeProfileId as string
+    : profiles[0].id;
+
+  return {
+    schemaVersion: SAVE_SCHEMA_VERSION,
+    activeProfileId,
+    profiles,
+    scores: isRecord(doc.scores) ? { ...defaults.scores, ...sanitizeScoreTables(doc.scores) } : defaults.scores,
+    levelBoards: sanitizeLevelBoards(doc.levelBoards),
+    settings: sanitizeSettings(doc.settings)
+  };
+};
+
+// --- Storage ---
+
+const readDocument = (key: string): unknown | null => {
+  const raw = localStorage.getItem(key);
+  if (raw === null) return null;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    reportSaveProblem(`"${key}" is corrupted`);
+    return null;
+  }
+};
+
+const hasLegacyData = () =>
+  localStorage.getItem(LEGACY_UNLOCKS_KEY) !== null ||
+  localStorage.getItem(LEGACY_SCORES_KEY) !== null ||
+  localStorage.getItem(LEGACY_VERSION_KEY) !== null;
+
+/**
+ * Loads the save document, falling back to the backup copy and then to the
+ * pre-document keys. Never throws.
+ */
+export const loadSaveData = (): SaveData => {
+  try {
+    const stored = readDocument(SAVE_KEY) ?? readDocument(BACKUP_KEY);
+    if (stored !== null) {
+      const data = sanitizeSaveData(migrate(stored));
+      localStorage.setItem(BACKUP_KEY, JSON.stringify(data));
+      return data;
+    }
+    if (hasLegacyData()) {
+      const data = sanitizeSaveData(migrate(null));
+      writeSaveData(data);
+      return data;
+    }
+  } catch (err) {
+    reportSaveProblem('could not be loaded, starting fresh', err);
+  }
+  return createDefaultSave();
+};
+
+export const writeSaveData = (data: SaveData) => {
+  try {
+    localStorage.setItem(SAVE_KEY, JSON.stringify(data));
+  } catch (err) {
+    // Storage full or blocked: keep playing, progress stays in memory
+    reportSaveProblem('could not be written', err);
+  }
+};
+
+/**
+ * Wipes every profile, the score table and settings (including the pre-document keys).
+ */
+export const clearSaveData = () => {
+  [SAVE_KEY, BACKUP_KEY, LEGACY_UNLOCKS_KEY, LEGACY_SCORES_KEY, LEGACY_QUALITY_KEY, LEGACY_GHOST_KEY, LEGACY_VERSION_KEY]
+    .forEach(key => localStorage.removeItem(key));
+  Object.keys(localStorage)
+    .filter(key => key.startsWith(`${LEGACY_UNLOCKS_KEY}:`) || key.startsWith(`${LEGACY_SCORES_KEY}:`))
+    .forEach(key => localStorage.removeItem(key));
+};
+
+// --- Profile transfer (export / import between devices) ---
+
+const PROFILE_FORMAT = 'siilveer-profile';
+const PROFILE_VERSION = 1;
+
+// FNV-1a: catches truncated or hand-edited files, not meant as tamper-proofing
+const checksum = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+export const serializeProfile = (data: SaveData): string => {
+  const payload = JSON.stringify(data);
+  return JSON.stringify({
+    format: PROFILE_FORMAT,
+    version: PROFILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    checksum: checksum(payload),
+    data
+  });
+};
+
+/**
+ * Parses and verifies an exported profile. Throws with a readable message on bad input.
+ */
+export const parseProfile = (text: string): SaveData => {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error('Profile file is not valid JSON');
+  }
+  if (!isRecord(file) || file.format !== PROFILE_FORMAT) throw new Error('This is not a Siilveer Paniic profile');
+  if (file.version !== PROFILE_VERSION) throw new Error(`Unsupported profile version: ${file.version}`);
+  // Schema 0 only exists as loose localStorage keys, never inside a file
+  if (!isRecord(file.data) || typeof file.data.schemaVersion !== 'number' || file.data.schemaVersion < 1) {
+    throw new Error('Profile data is missing');
+  }
+  if (file.checksum !== checksum(JSON.stringify(file.data))) {
+    throw new Error('Profile checksum does not match, the file is damaged or was edited');
+  }
+  return sanitizeSaveData(migrate(file.data));
+};
+
+const mergeBoard = (current: ScoreEntry[], incoming: ScoreEntry[], kind: LeaderboardKind): ScoreEntry[] => {
+  const order = BOARD_ORDER[kind];
+  const best = new Map<string, ScoreEntry>();
+  [...current, ...incoming].forEach(entry => {
+    const key = `${entry.playerName}|${entry.level}|${entry.date}`;
+    const existing = best.get(key);
+    if (!existing || order(entry, existing) < 0) best.set(key, entry);
+  });
+  return [...best.values()].sort(order).slice(0, MAX_SCORES);
+};
+
+const mergeScoreTables = (
+  current: Record<string, ScoreEntry[]>, incoming: Record<string, ScoreEntry[]>
+): Record<string, ScoreEntry[]> => {
+  const tables: Record<string, ScoreEntry[]> = { ...current };
+  Object.entries(incoming).forEach(([packId, entries]) => {
+    tables[packId] = mergeBoard(tables[packId] ?? [], entries, 'SCORE');
+  });
+  return tables;
+};
+
+const mergeLevelBoards = (
+  current: SaveData['levelBoards'], incoming: SaveData['levelBoards']
+): SaveData['levelBoards'] => {
+  const packs: SaveData['levelBoards'] = { ...current };
+  Object.entries(incoming).forEach(([packId, levels]) => {
+    const merged = { ...(packs[packId] ?? {}) };
+    Object.entries(levels).forEach(([levelId, boards]) => {
+      const existing = merged[levelId] ?? createLevelBoards();
+      merged[levelId] = {
+        time: mergeBoard(existing.time, boards.time, 'TIME'),
+        area: mergeBoard(existing.area, boards.area, 'AREA')
+      };
+    });
+    packs[packId] = merged;
+  });
+  return packs;
+};
+
+// Nothing has been played on this device yet: an import moves in rather than merges
+const isFreshSave = (data: SaveData) => data.profiles.every(p => p.stats.levelsPlayed === 0);
+
+const mergeProfiles = (current: PlayerProfile, incoming: PlayerProfile, takeLanguage: boolean): PlayerProfile => {
+  const unlocks: Record<string, number[]> = { ...current.unlocks };
+  Object.entries(incoming.unlocks).forEach(([packId, ids]) => {
+    unlocks[packId] = Array.from(new Set([...(unlocks[packId] ?? []), ...ids])).sort((a, b) => a - b);
+  });
+  return {
+    ...current,
+    language: takeLanguage ? incoming.language : current.language,
+    unlocks,
+    bests: mergeScoreTables(current.bests, incoming.bests),
+    continueHistory: incoming.continueHistory.length > current.continueHistory.length
+      ? incoming.continueHistory
+      : current.continueHistory,
+    stats: mergePlayerStats(current.stats, incoming.stats),
+    achievements: mergeAchievements(current.achievements, incoming.achievements)
+  };
+};
+
+/**
+ * Combines an imported file with the data on this device. Profiles are matched
+ * by name: unlocks and achievements are joined, boards keep the best result
+ * per entry and stats keep the higher counters. Unknown profiles are added and the
+ * active profile stays the same. This device keeps its settings and the languages
+ * of its profiles, unless nothing has been played on it yet.
+ */
+export const mergeSaveData = (current: SaveData, incoming: SaveData): SaveData => {
+  const fresh = isFreshSave(current);
+  const profiles = [...current.profiles];
+  incoming.profiles.forEach(imported => {
+    const index = profiles.findIndex(p => p.name.toLowerCase() === imported.name.toLowerCase());
+    if (index >= 0) {
+      profiles[index] = mergeProfiles(profiles[index], imported, fresh);
+    } else {
+      // Keep ids unique in case the file came from this very device
+      profiles.push(profiles.some(p => p.id === imported.id) ? { ...imported, id: createProfileId() } : imported);
+    }
+  });
+
+  return {
+    schemaVersion: SAVE_SCHEMA_VERSION,
+    activeProfileId: current.activeProfileId,
+    profiles,
+    scores: mergeScoreTables(current.scores, incoming.scores),
+    levelBoards: mergeLevelBoards(current.levelBoards, incoming.levelBoards),
+    settings: fresh ? incoming.settings : current.settings
+  };
+};
+
+export const downloadProfile = (data: SaveData) => {
+  const blob = new Blob([serializeProfile(data)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `siilveer-profile-${new Date().toISOString().slice(0, 10)}.json`;
+  a.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,172 @@
+import { BoardRef, LevelConfig, RunProof, ScoreEntry, SimulationStatus } from '../types';
+import { CONTINUE_PENALTY, CORE_PACK_ID, SIM_TICK_MS } from '../constants';
+import { createGameSimulation } from './gameSimulation';
+import { getReplayInput } from './replay';
+import { attemptToReplay, RUN_PROOF_VERSION } from './runProof';
+
+/**
+ * Headless score verification.
+ *
+ * Re-simulates every attempt of a run proof, chaining the carried score the
+ * way the game does (full score after a clear, minus CONTINUE_PENALTY after a
+ * continue), and checks the submitted entry against the outcome. No DOM
+ * access, so it runs in the browser and in Node (scripts/verify-score.mjs).
+ */
+export interface VerificationResult {
+  ok: boolean;
+  errors: string[];
+}
+
+export interface SimulatedAttempt {
+  levelId: number;
+  status: SimulationStatus; // PLAYING = abandoned (only the skipped tutorial)
+  score: number;
+  time: number; // Seconds
+  area: number;
+  livesLost: number;
+  maxCombo: number;
+}
+
+export interface SimulatedRun {
+  score: number;
+  levelId: number; // Last level reached
+  time: number; // Seconds, abandoned attempts excluded
+  continuesUsed: number;
+  livesLost: number;
+  maxCombo: number;
+  attempts: SimulatedAttempt[];
+}
+
+// Keep forged proofs from tying up the verifier
+const MAX_ATTEMPTS = 200;
+const MAX_ATTEMPT_TICKS = (30 * 60 * 1000) / SIM_TICK_MS; // 30 minutes per level
+const MAX_RUN_TICKS = (2 * 60 * 60 * 1000) / SIM_TICK_MS; // 2 hours for the whole run, continues included
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+const simulateAttempt = (level: LevelConfig, proof: RunProof, index: number, initialScore: number): SimulatedAttempt => {
+  const attempt = proof.attempts[index];
+  if (!Number.isInteger(attempt.ticks) || attempt.ticks < 1 || attempt.ticks > MAX_ATTEMPT_TICKS) {
+    throw new Error(`Attempt ${index + 1} has an invalid length`);
+  }
+  const replay = attemptToReplay(proof, attempt, initialScore);
+  const sim = createGameSimulation(level, { seed: attempt.seed, initialScore });
+  let livesLost = 0;
+  let maxCombo = 0;
+  while (sim.getState().tick < attempt.ticks && sim.getState().status === 'PLAYING') {
+    sim.step(getReplayInput(replay, sim.getState().tick + 1)).forEach(event => {
+      if (event.type === 'DAMAGE' && event.lifeLost) livesLost++; // Tutorial hits cost no life
+      if (event.type === 'CAPTURE') maxCombo = Math.max(maxCombo, event.combo);
+    });
+  }
+  const state = sim.getState();
+  if (state.tick !== attempt.ticks) throw new Error(`Attempt ${index + 1} ends at tick ${state.tick}, not ${attempt.ticks}`);
+  return {
+    levelId: attempt.levelId,
+    status: state.status,
+    score: state.stats.score,
+    time: state.stats.timeElapsed,
+    area: state.stats.areaRevealed,
+    livesLost,
+    maxCombo
+  };
+};
+
+/**
+ * Re-simulates the whole run. Throws with a readable message when the proof
+ * does not describe a run the game could have produced.
+ */
+export const simulateRun = (proof: RunProof, levels: LevelConfig[]): SimulatedRun => {
+  if (proof.version !== RUN_PROOF_VERSION) throw new Error(`Unsupported run proof version: ${proof.version}`);
+  if (!Array.isArray(proof.attempts) || proof.attempts.length === 0) throw new Error('Run proof has no attempts');
+  if (proof.attempts.length > MAX_ATTEMPTS) throw new Error('Run proof has too many attempts');
+  if (proof.attempts.reduce((sum, attempt) => sum + attempt.ticks, 0) > MAX_RUN_TICKS) throw new Error('Run proof is too long');
+
+  const isCore = (proof.packId ?? CORE_PACK_ID) === CORE_PACK_ID;
+  const attempts: SimulatedAttempt[] = [];
+  let continuesUsed = 0;
+  let levelIndex = -1;
+
+  proof.attempts.forEach((attempt, i) => {
+    const index = levels.findIndex(l => l.id === attempt.levelId);
+    if (index < 0) throw new Error(`Attempt ${i + 1} plays unknown level ${attempt.levelId}`);
+
+    let initialScore = 0;
+    const prev = attempts[i - 1];
+    if (prev) {
+      if (prev.status === 'GAME_OVER') {
+        // Continue: same level, score minus the penalty
+        if (index !== levelIndex) throw new Error(`Attempt ${i + 1} does not retry the level that was lost`);
+        initialScore = Math.max(0, prev.score - Math.floor(prev.score * CONTINUE_PENALTY));
+        continuesUsed++;
+      } else {
+        // Clear, or the skipped tutorial: next level, full score
+        if (prev.status === 'PLAYING' && !(isCore && levels[levelIndex].id === 0)) {
+          throw new Error(`Attempt ${i} was abandoned`);
+        }
+        if (index !== levelIndex + 1) throw new Error(`Attempt ${i + 1} does not play the next level`);
+        initialScore = prev.score;
+      }
+    }
+    levelIndex = index;
+    attempts.push(simulateAttempt(levels[index], proof, i, initialScore));
+  });
+
+  const last = attempts[attempts.length - 1];
+  if (last.status === 'PLAYING') throw new Error('The run ends with an unfinished level');
+
+  return {
+    score: last.score,
+    levelId: last.levelId,
+    time: round2(attempts.filter(a => a.status !== 'PLAYING').reduce((sum, a) => sum + a.time, 0)),
+    continuesUsed,
+    livesLost: attempts.reduce((sum, a) => sum + a.livesLost, 0),
+    maxCombo: Math.max(...attempts.map(a => a.maxCombo)),
+    attempts
+  };
+};
+
+/**
+ * Checks an entry against an already simulated run (several boards can share one run).
+ */
+export const verifyEntryAgainstRun = (entry: ScoreEntry, board: BoardRef, run: SimulatedRun): VerificationResult => {
+  const errors: string[] = [];
+  const check = (ok: boolean, message: string) => { if (!ok) errors.push(message); };
+  const near = (a: number | undefined, b: number, epsilon: number) => a !== undefined && Math.abs(a - b) < epsilon;
+
+  check(entry.score === run.score, `Score ${entry.score} does not match the simulated ${run.score}`);
+  if (entry.continuesUsed !== undefined) check(entry.continuesUsed === run.continuesUsed, 'Continues used do not match');
+  if (entry.livesLost !== undefined) check(entry.livesLost === run.livesLost, 'Lives lost do not match');
+  if (entry.maxCombo !== undefined) check(entry.maxCombo === run.maxCombo, 'Max combo does not match');
+
+  if (board.kind === 'SCORE') {
+    check(entry.level === run.levelId, `Level ${entry.level} does not match the simulated ${run.levelId}`);
+    check(near(entry.time, run.time, 0.011), 'Run time does not match');
+  } else {
+    check(entry.level === board.levelId, 'Entry is for another level than its board');
+    const played = run.attempts.filter(a => a.levelId === entry.level && a.status !== 'PLAYING');
+    const matches = board.kind === 'TIME'
+      ? played.some(a => a.status === 'LEVEL_COMPLETE' && near(entry.time, round2(a.time), 0.011))
+      : played.some(a => near(entry.area, round1(a.area), 0.051) && near(entry.time, round2(a.time), 0.011));
+    check(matches, `No attempt on level ${entry.level} matches the ${board.kind === 'TIME' ? 'time' : 'area'}`);
+  }
+
+  return { ok: errors.length === 0, errors };
+};
+
+/**
+ * Checks a submitted entry against its re-simulated proof. `levels` are the
+ * levels of the board's pack.
+ */
+export const verifyScoreEntry = (entry: ScoreEntry, board: BoardRef, levels: LevelConfig[]): VerificationResult => {
+  if (!entry.proof) return { ok: false, errors: ['Entry has no run proof'] };
+  if ((entry.proof.packId ?? CORE_PACK_ID) !== board.packId) {
+    return { ok: false, errors: ['Run proof is for another pack'] };
+  }
+  try {
+    return verifyEntryAgainstRun(entry, board, simulateRun(entry.proof, levels));
+  } catch (err) {
+    return { ok: false, errors: [(err as Error).message] };
+  }
+};
@@ -0,0 +1,80 @@
+import { Language, SilverMood, SilverTrigger } from '../types';
+import { getLocale, renderTemplate, TemplateValues } from './i18n';
+
+/**
+ * Silver's in-game reactions: a mood for the HUD avatar and a line for her
+ * speech bubble, chosen by what just happened.
+ *
+ * Each trigger has a priority and a cooldown. A reaction on screen is only
+ * replaced by one of the same or higher priority, and a trigger still cooling
+ * down changes her face without saying anything, so a run of captures or hits
+ * does not bury the player in text.
+ */
+export const MOOD_MS = 1500;
+export const BUBBLE_MS = 3000;
+export const BIG_CAPTURE_AREA = 10; // Percentage gained by one cut that counts as a big capture
+export const IDLE_REACTION_MS = 8000; // Standing still this long makes Silver nag
+export const ALMOST_THERE_MARGIN = 10; // Points of area short of the level's target
+
+interface TriggerRule {
+  mood: SilverMood;
+  priority: number;
+  cooldownMs: number; // Between two lines of the same trigger
+}
+
+const RULES: Record<SilverTrigger, TriggerRule> = {
+  CAPTURE: { mood: 'EXCITED', priority: 1, cooldownMs: 15000 },
+  IDLE: { mood: 'NEUTRAL', priority: 1, cooldownMs: 15000 },
+  ITEM: { mood: 'EXCITED', priority: 2, cooldownMs: 8000 },
+  NEAR_MISS: { mood: 'EXCITED', priority: 2, cooldownMs: 8000 },
+  DAMAGE: { mood: 'SAD', priority: 3, cooldownMs: 6000 },
+  BIG_CAPTURE: { mood: 'EXCITED', priority: 4, cooldownMs: 5000 },
+  HALFWAY: { mood: 'EXCITED', priority: 4, cooldownMs: 0 },
+  LOW_LIVES: { mood: 'SAD', priority: 5, cooldownMs: 20000 },
+  ALMOST_THERE: { mood: 'EXCITED', priority: 6, cooldownMs: 0 }
+};
+
+export interface SilverReaction {
+  trigger: SilverTrigger;
+  mood: SilverMood;
+  line?: string; // Missing while the trigger is cooling down
+}
+
+export interface SilverReactions {
+  react: (trigger: SilverTrigger, language: Language, values?: TemplateValues) => SilverReaction | null;
+  reset: () => void; // New level: cooldowns and the reaction on screen are forgotten
+}
+
+export const createSilverReactions = (
+  { random = Math.random, now = Date.now }: { random?: () => number; now?: () => number } = {}
+): SilverReactions => {
+  const lastLine: Partial<Record<SilverTrigger, number>> = {};
+  let current: { priority: number; until: number } | null = null;
+
+  return {
+    react: (trigger, language, values = {}) => {
+      const rule = RULES[trigger];
+      const time = now();
+      if (current && time < current.until && rule.priority < current.priority) return null;
+
+      const last = lastLine[trigger];
+      const lines = getLocale(language).silverLines[trigger];
+      if ((last !== undefined && time - last < rule.cooldownMs) || lines.length === 0) {
+        // The bubble on screen (if any) stays up, so keep its protection too
+        current = current && time < current.until
+          ? { priority: Math.max(current.priority, rule.priority), until: Math.max(current.until, time + MOOD_MS) }
+          : { priority: rule.priority, until: time + MOOD_MS };
+        return { trigger, mood: rule.mood };
+      }
+
+      lastLine[trigger] = time;
+      current = { priority: rule.priority, until: time + BUBBLE_MS };
+      const line = lines[Math.floor(random() * lines.length)];
+      return { trigger, mood: rule.mood, line: renderTemplate(line, values, language) };
+    },
+    reset: () => {
+      Object.keys(lastLine).forEach(key => delete lastLine[key as SilverTrigger]);
+      current = null;
+    }
+  };
+};
@@ -0,0 +1,120 @@
+import { BoardRef, ScoreEntry, SyncState } from '../types';
+import { LeaderboardProvider, LeaderboardRequestError } from './leaderboardProvider';
+
+/**
+ * Offline queue for remote leaderboard submissions.
+ *
+ * Entries are persisted before they are sent, so a run finished without a
+ * connection (or right before closing the tab) is submitted on the next
+ * chance. Failed sends are retried with an increasing delay; entries the
+ * server rejects (HTTP 4xx) are dropped instead of retried forever.
+ */
+const QUEUE_KEY = 'SIILVEER_PANIIC_SUBMISSIONS';
+const MAX_QUEUED = 50;
+const RETRY_BASE_MS = 2000;
+const RETRY_MAX_MS = 60000;
+
+interface QueuedSubmission {
+  board: BoardRef;
+  entry: ScoreEntry;
+  attempts: number;
+}
+
+export interface SubmissionQueue {
+  enqueue: (board: BoardRef, entry: ScoreEntry) => void;
+  flush: () => Promise<void>;
+  getState: () => SyncState;
+  dispose: () => void;
+}
+
+const loadQueue = (): QueuedSubmission[] => {
+  try {
+    const data = JSON.parse(localStorage.getItem(QUEUE_KEY) ?? '[]');
+    return Array.isArray(data) ? data.filter(item => item?.board && item?.entry) : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveQueue = (queue: QueuedSubmission[]) => {
+  try {
+    localStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+  } catch (err) {
+    console.warn('Submission queue: could not be saved', err);
+  }
+};
+
+const isRejected = (err: unknown) => {
+  const status = (err as LeaderboardRequestError).status;
+  return status !== undefined && status >= 400 && status < 500;
+};
+
+export const createSubmissionQueue = (
+  provider: LeaderboardProvider,
+  onChange: (state: SyncState) => void
+): SubmissionQueue => {
+  let queue = loadQueue();
+  let state: SyncState = { status: queue.length > 0 ? 'OFFLINE' : 'SYNCED', pending: queue.length };
+  let flushing = false;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const setState = (next: Omit<SyncState, 'pending'>) => {
+    state = { ...next, pending: queue.length };
+    onChange(state);
+  };
+
+  const scheduleRetry = (attempts: number) => {
+    if (retryTimer) clearTimeout(retryTimer);
+    const delay = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** (attempts - 1));
+    retryTimer = setTimeout(() => { retryTimer = null; flush(); }, delay);
+  };
+
+  const flush = async () => {
+    if (flushing || queue.length === 0) return;
+    flushing = true;
+    setState({ status: 'SYNCING' });
+    try {
+      while (queue.length > 0) {
+        // Entries may be enqueued while a submit is in flight, so never reuse a stale copy of the queue
+        const next = queue[0];
+        try {
+          await provider.submit(next.board, next.entry);
+          queue = queue.filter(item => item !== next);
+        } catch (err) {
+          if (isRejected(err)) {
+            console.warn('Submission queue: entry rejected by the server', err);
+            queue = queue.filter(item => item !== next);
+          } else {
+            queue = queue.map(item => item === next ? { ...next, attempts: next.attempts + 1 } : item);
+            saveQueue(queue);
+            setState({ status: 'OFFLINE', lastError: (err as Error).message });
+            scheduleRetry(next.attempts + 1);
+            return;
+          }
+        }
+        saveQueue(queue);
+      }
+      setState({ status: 'SYNCED' });
+    } finally {
+      flushing = false;
+    }
+  };
+
+  const handleOnline = () => { flush(); };
+  window.addEventListener('online', handleOnline);
+
+  return {
+    enqueue: (board, entry) => {
+      queue = [...queue, { board, entry, attempts: 0 }].slice(-MAX_QUEUED);
+      saveQueue(queue);
+      setState({ status: state.status === 'SYNCED' ? 'SYNCING' : state.status, lastError: state.lastError });
+      flush();
+    },
+    flush,
+    getState: () => state,
+    dispose: () => {
+      window.removeEventListener('online', handleOnline);
+      if (retryTimer) clearTimeout(retryTimer);
+    }
+  };
+};
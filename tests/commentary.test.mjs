@@ -0,0 +1,85 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { loadModules } from './loadModules.mjs';
+
+let loaded;
+let createStaticCommentary, withFallback, createMockCommentary, findCommentaryTopics;
+
+before(async () => {
+  loaded = await loadModules(['/services/commentaryProvider.ts', '/services/commentaryTemplates.ts']);
+  [{ createStaticCommentary, withFallback, createMockCommentary }, { findCommentaryTopics }] = loaded.modules;
+});
+
+after(() => loaded.close());
+
+// A run where nothing stands out: only the generic lines apply
+const request = ({ status = 'WIN', stats = {}, telemetry = {}, ...rest } = {}) => ({
+  status,
+  stats: { areaRevealed: status === 'WIN' ? 80 : 30, timeElapsed: 60, score: 1000, ...stats },
+  levelName: 'Test',
+  language: 'EN',
+  telemetry: { largestCapture: 5, comboPeak: 1, nearMisses: 0, livesLost: 1, ...telemetry },
+  continuesUsed: 0,
+  ...rest
+});
+
+// random() = 0 always picks a topic's first line
+const firstLine = () => 0;
+
+const TOPIC_CASES = [
+  ['WIN', 'NEW_BEST', request({ bestTime: 70 }), 'Test in 60s, 10s under your best! 🚀'],
+  ['WIN', 'OFF_PACE', request({ bestTime: 40 }), 'Cleared... 20s slower than your best. Nap break? 🐢'],
+  ['WIN', 'FLAWLESS', request({ telemetry: { livesLost: 0 } }), "Not a scratch. Are you sure you're not a bot? 🤖"],
+  ['WIN', 'BIG_CUT', request({ telemetry: { largestCapture: 25.7 } }), 'One cut took 25% of the screen. Greedy! 🔪'],
+  ['WIN', 'COMBO', request({ telemetry: { comboPeak: 5 } }), "x5 combo! Now that's rhythm. 🔥"],
+  ['WIN', 'NEAR_MISSES', request({ telemetry: { nearMisses: 3 } }), "3 near misses and you're still standing. 😅"],
+  ['WIN', 'CONTINUES', request({ continuesUsed: 1 }), 'You made it... with 1 continue. Still counts. 🪙'],
+  ['GAME_OVER', 'SO_CLOSE', request({ status: 'GAME_OVER', stats: { areaRevealed: 64.9 } }), '64% revealed and you drop it now? Ouch. 💔'],
+  ['GAME_OVER', 'QUICK_DEATH', request({ status: 'GAME_OVER', stats: { timeElapsed: 12.34 } }), 'Gone in 12.3 seconds. A record, of sorts. 💀'],
+  ['GAME_OVER', 'NEAR_MISSES', request({ status: 'GAME_OVER', telemetry: { nearMisses: 4 } }), "You dodged 4 times... then you didn't. 😈"],
+  ['GAME_OVER', 'BIG_CUT', request({ status: 'GAME_OVER', telemetry: { largestCapture: 30 } }), 'A 30% cut, then greed. Classic. 🔪'],
+  ['GAME_OVER', 'COMBO', request({ status: 'GAME_OVER', telemetry: { comboPeak: 4 } }), "A x4 combo won't save you. 🎲"],
+  ['GAME_OVER', 'CONTINUES', request({ status: 'GAME_OVER', continuesUsed: 2 }), '2 continues already. Running out of coins? 🪙']
+];
+
+TOPIC_CASES.forEach(([status, topic, req, line]) => {
+  test(`static commentary on ${topic} after ${status === 'WIN' ? 'a clear' : 'a game over'}`, async () => {
+    assert.deepEqual(findCommentaryTopics(req), [topic]);
+    assert.equal(await createStaticCommentary(0, firstLine).getCommentary(req), line);
+  });
+});
+
+test('static commentary falls back to the generic lines when nothing stands out or there is no telemetry', async () => {
+  const provider = createStaticCommentary(0, firstLine);
+  const generic = 'Incredible! Your reflexes are from another planet. 🚀';
+  assert.deepEqual(findCommentaryTopics(request()), []);
+  assert.equal(await provider.getCommentary(request()), generic);
+  assert.equal(await provider.getCommentary({ ...request({ telemetry: { livesLost: 0 } }), telemetry: undefined }), generic);
+});
+
+test('the fallback answers when the primary provider fails', async (t) => {
+  t.mock.method(console, 'warn', () => {});
+  const primary = createMockCommentary(['PRIMARY'], { fail: true });
+  const fallback = createMockCommentary(['FALLBACK']);
+  const req = request();
+  assert.equal(await withFallback(primary, fallback).getCommentary(req), 'FALLBACK');
+  assert.deepEqual(primary.requests, [req]);
+  assert.deepEqual(fallback.requests, [req]);
+  assert.equal(console.warn.mock.callCount(), 1);
+});
+
+test('the fallback is left alone while the primary provider works', async () => {
+  const primary = createMockCommentary(['ONE', 'TWO']);
+  const fallback = createMockCommentary(['FALLBACK']);
+  const provider = withFallback(primary, fallback);
+  assert.equal(provider.name, 'mock');
+  assert.equal(await provider.getCommentary(request()), 'ONE');
+  assert.equal(await provider.getCommentary(request()), 'TWO');
+  assert.equal(fallback.requests.length, 0);
+});
+
+test('a slow primary provider still answers through withFallback', async () => {
+  const primary = createMockCommentary(req => `${req.levelName} ${req.status}`, { delayMs: 5 });
+  const provider = withFallback(primary, createMockCommentary(['FALLBACK']));
+  assert.equal(await provider.getCommentary(request({ status: 'GAME_OVER' })), 'Test GAME_OVER');
+});
@@ -0,0 +1,56 @@
+// Small levels and input helpers shared by the tests.
+
+export const UP = { x: 0, y: -1 };
+export const DOWN = { x: 0, y: 1 };
+export const LEFT = { x: -1, y: 0 };
+export const RIGHT = { x: 1, y: 0 };
+export const IDLE = { x: 0, y: 0 };
+
+// No items, so only the enemies and the input decide what happens
+export const testLevel = (overrides = {}) => ({
+  id: 1,
+  name: 'Test',
+  imageUrl: '',
+  difficulty: 1,
+  bossSpeed: 0.1,
+  minRevealPercent: 80,
+  enemyCount: 1,
+  minionCount: 0,
+  itemSpawnIntervalMs: 0,
+  ...overrides
+});
+
+const MAX_STEP_TICKS = 100; // A blocked move gives up after this
+
+/**
+ * Drives a simulation the way GameCanvas does, one tick per call, recording
+ * the input when a replay recorder is given. Keeps every event in `events`.
+ */
+export const createDriver = (sim, recorder) => {
+  const events = [];
+  const step = (input) => {
+    recorder?.record(sim.getState().tick + 1, input);
+    const tickEvents = sim.step(input);
+    events.push(...tickEvents);
+    return tickEvents;
+  };
+  return {
+    events,
+    step,
+    // Holds each direction until the player has taken one step in it
+    walk: (...directions) => {
+      directions.forEach(direction => {
+        const { x, y } = sim.getState().player;
+        for (let i = 0; i < MAX_STEP_TICKS && sim.getState().status === 'PLAYING'; i++) {
+          step(direction);
+          const player = sim.getState().player;
+          if (player.x !== x || player.y !== y) break;
+        }
+      });
+    },
+    // Idles until `done` holds or `maxTicks` pass
+    waitUntil: (done, maxTicks = 5000) => {
+      for (let i = 0; i < maxTicks && !done() && sim.getState().status === 'PLAYING'; i++) step(IDLE);
+    }
+  };
+};
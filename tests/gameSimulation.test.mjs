@@ -0,0 +1,118 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { loadModules } from './loadModules.mjs';
+import { createDriver, testLevel, DOWN, LEFT, RIGHT, UP } from './fixtures.mjs';
+
+let loaded;
+let createGameSimulation;
+
+before(async () => {
+  loaded = await loadModules(['/services/gameSimulation.ts']);
+  [{ createGameSimulation }] = loaded.modules;
+});
+
+after(() => loaded.close());
+
+const eventsOf = (events, type) => events.filter(event => event.type === type);
+
+const LAP = [RIGHT, RIGHT, DOWN, DOWN, DOWN, LEFT, LEFT, UP];
+
+test('the same seed and inputs give the same run', () => {
+  const level = testLevel({ enemyCount: 2, bossSpeed: 0.15 });
+  const play = () => {
+    const sim = createGameSimulation(level, { seed: 1234 });
+    const driver = createDriver(sim);
+    for (let lap = 0; lap < 20 && sim.getState().status === 'PLAYING'; lap++) driver.walk(...LAP);
+    return { state: sim.snapshot(), events: driver.events };
+  };
+  const first = play();
+  const second = play();
+  assert.deepEqual(second.state, first.state);
+  assert.deepEqual(second.events, first.events);
+  assert.ok(first.state.tick > 0);
+});
+
+test('another seed gives another run', () => {
+  const level = testLevel({ enemyCount: 2, bossSpeed: 0.15 });
+  const enemiesAfter = (seed) => {
+    const sim = createGameSimulation(level, { seed });
+    createDriver(sim).waitUntil(() => false, 100);
+    return sim.getState().enemies;
+  };
+  assert.notDeepEqual(enemiesAfter(1), enemiesAfter(2));
+});
+
+test('a snapshot resumes exactly where it was taken', () => {
+  const level = testLevel({ enemyCount: 2, bossSpeed: 0.15 });
+  const sim = createGameSimulation(level, { seed: 7 });
+  const driver = createDriver(sim);
+  driver.walk(...LAP);
+  const resumed = createGameSimulation(level, { seed: 7, initialState: sim.snapshot() });
+  driver.walk(...LAP);
+  createDriver(resumed).walk(...LAP);
+  assert.deepEqual(resumed.snapshot(), sim.snapshot());
+});
+
+test('closing a cut captures it and scores its tiles', () => {
+  const sim = createGameSimulation(testLevel(), { seed: 1 });
+  const driver = createDriver(sim);
+  driver.walk(RIGHT, DOWN);
+  assert.equal(sim.getState().grid[1][1], 2, 'the cut leaves a trail');
+  assert.equal(sim.getState().player.isDrawing, true);
+
+  driver.walk(LEFT);
+  const [capture] = eventsOf(driver.events, 'CAPTURE');
+  assert.equal(capture.tiles, 1);
+  assert.equal(capture.combo, 1);
+  assert.equal(capture.points, 10);
+  assert.equal(sim.getState().stats.score, 10);
+  assert.equal(sim.getState().grid[1][1], 0);
+  assert.equal(sim.getState().player.isDrawing, false);
+  assert.equal(sim.getState().status, 'PLAYING');
+});
+
+test('captures chained inside the combo window multiply their points', () => {
+  const sim = createGameSimulation(testLevel(), { seed: 1 });
+  const driver = createDriver(sim);
+  driver.walk(RIGHT, DOWN, LEFT, DOWN, RIGHT, LEFT);
+  const captures = eventsOf(driver.events, 'CAPTURE');
+  assert.deepEqual(captures.map(capture => [capture.combo, capture.points]), [[1, 10], [2, 20]]);
+  assert.equal(sim.getState().stats.score, 30);
+});
+
+test('the player cannot walk back over the trail', () => {
+  const sim = createGameSimulation(testLevel(), { seed: 1 });
+  const driver = createDriver(sim);
+  driver.walk(RIGHT, DOWN, DOWN, UP);
+  assert.deepEqual({ x: sim.getState().player.x, y: sim.getState().player.y }, { x: 1, y: 2 });
+});
+
+test('a capture that no boss can reach reveals everything and clears the level', () => {
+  const sim = createGameSimulation(testLevel({ enemyCount: 0 }), { seed: 1 });
+  const driver = createDriver(sim);
+  driver.walk(RIGHT, DOWN, LEFT);
+  assert.equal(sim.getState().status, 'LEVEL_COMPLETE');
+  assert.equal(Math.round(sim.getState().stats.areaRevealed), 100);
+  assert.equal(eventsOf(driver.events, 'LEVEL_COMPLETE').length, 1);
+});
+
+test('every hit costs a life until the game is over', () => {
+  const sim = createGameSimulation(testLevel({ enemyCount: 0, minionCount: 1 }), { seed: 1 });
+  const driver = createDriver(sim);
+  driver.waitUntil(() => false, 20000);
+  const damage = eventsOf(driver.events, 'DAMAGE');
+  assert.deepEqual(damage.map(event => event.lives), [2, 1, 0]);
+  assert.ok(damage.every(event => event.lifeLost && event.source === 'MINION'));
+  assert.equal(sim.getState().status, 'GAME_OVER');
+  assert.equal(eventsOf(driver.events, 'GAME_OVER').length, 1);
+});
+
+test('hits in the tutorial cost no life', () => {
+  const sim = createGameSimulation(testLevel({ id: 0, enemyCount: 0, minionCount: 1 }), { seed: 1 });
+  const driver = createDriver(sim);
+  driver.waitUntil(() => false, 20000);
+  const damage = eventsOf(driver.events, 'DAMAGE');
+  assert.ok(damage.length > 3);
+  assert.ok(damage.every(event => !event.lifeLost && event.lives === 3));
+  assert.equal(sim.getState().status, 'PLAYING');
+});
@@ -0,0 +1,24 @@
+// Loads the game's TypeScript modules in Node through Vite's SSR module
+// loader, like scripts/loadVerifier.mjs, so tests run the code the game runs.
+
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { createServer } from 'vite';
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+/**
+ * Resolves to { modules, close() }, `modules` in the order of `paths`
+ * (root-relative, e.g. '/services/gameSimulation.ts').
+ */
+export const loadModules = async (paths) => {
+  const vite = await createServer({
+    root: ROOT,
+    configFile: false,
+    logLevel: 'error',
+    appType: 'custom',
+    server: { middlewareMode: true, hmr: false }
+  });
+  const modules = await Promise.all(paths.map(p => vite.ssrLoadModule(p)));
+  return { modules, close: () => vite.close() };
+};
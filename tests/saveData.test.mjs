@@ -0,0 +1,192 @@
+import { test, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { loadModules } from './loadModules.mjs';
+
+// Just enough of the Web Storage API for services/saveData.ts
+const createStorage = () => {
+  const items = new Map();
+  return {
+    get length() { return items.size; },
+    key: (index) => [...items.keys()][index] ?? null,
+    getItem: (key) => items.has(key) ? items.get(key) : null,
+    setItem: (key, value) => { items.set(key, String(value)); },
+    removeItem: (key) => { items.delete(key); },
+    clear: () => items.clear()
+  };
+};
+
+let loaded;
+let loadSaveData, createDefaultSave, mergeSaveData, SAVE_SCHEMA_VERSION;
+
+before(async () => {
+  globalThis.localStorage = createStorage();
+  loaded = await loadModules(['/services/saveData.ts']);
+  [{ loadSaveData, createDefaultSave, mergeSaveData, SAVE_SCHEMA_VERSION }] = loaded.modules;
+});
+
+after(() => {
+  delete globalThis.localStorage;
+  return loaded.close();
+});
+
+beforeEach(() => localStorage.clear());
+
+const SAVE_KEY = 'SIILVEER_PANIIC_SAVE';
+const BACKUP_KEY = 'SIILVEER_PANIIC_SAVE_BACKUP';
+
+const ENTRY = { playerName: 'ANA', score: 4200, level: 3, date: '2025-03-01T10:00:00.000Z' };
+
+const store = (key, value) => localStorage.setItem(key, JSON.stringify(value));
+const stored = (key) => JSON.parse(localStorage.getItem(key));
+
+test('the loose keys from before the save document (schema 0) migrate into it', () => {
+  store('SIILVEER_PANIIC_UNLOCKS', [0, 1, 2]);
+  store('SIILVEER_PANIIC_UNLOCKS:neon', [1]);
+  store('SIILVEER_PANIIC_SCORES', [ENTRY]);
+  localStorage.setItem('SIILVEER_PANIIC_QUALITY', 'LOW');
+  localStorage.setItem('SIILVEER_PANIIC_GHOST', '0');
+
+  const data = loadSaveData();
+  assert.equal(data.schemaVersion, SAVE_SCHEMA_VERSION);
+  assert.equal(data.profiles.length, 1);
+  const [profile] = data.profiles;
+  assert.equal(data.activeProfileId, profile.id);
+  assert.deepEqual(profile.unlocks, { core: [0, 1, 2], neon: [1] });
+  assert.deepEqual(profile.achievements, {});
+  assert.deepEqual(data.scores.core, [ENTRY]);
+  assert.deepEqual(data.levelBoards, {});
+  assert.equal(data.settings.quality, 'LOW');
+  assert.equal(data.settings.ghostEnabled, false);
+  assert.deepEqual(stored(SAVE_KEY), data, 'the migrated document is saved');
+});
+
+test('a schema 1 document becomes the first profile and keeps its progress', () => {
+  store(SAVE_KEY, {
+    schemaVersion: 1,
+    unlocks: { core: [0, 3] },
+    scores: { core: [ENTRY] },
+    settings: { quality: 'MEDIUM', ghostEnabled: true, language: 'ES' },
+    stats: { levelsPlayed: 5, levelsCompleted: 2 }
+  });
+
+  const data = loadSaveData();
+  const [profile] = data.profiles;
+  assert.equal(data.profiles.length, 1);
+  assert.equal(profile.language, 'ES');
+  assert.deepEqual(profile.unlocks, { core: [0, 3] });
+  assert.equal(profile.stats.levelsPlayed, 5);
+  assert.equal(profile.stats.levelsCompleted, 2);
+  assert.deepEqual(profile.achievements, {});
+  assert.deepEqual(data.scores.core, [ENTRY]);
+  assert.deepEqual(data.levelBoards, {});
+  assert.equal(data.settings.quality, 'MEDIUM');
+});
+
+test('schema 2 and 3 documents gain level boards and achievements without losing profiles', () => {
+  const defaults = createDefaultSave();
+  const { achievements, ...profile } = defaults.profiles[0];
+  const v2 = { ...defaults, schemaVersion: 2, profiles: [{ ...profile, unlocks: { core: [0, 1] } }] };
+  delete v2.levelBoards;
+  store(SAVE_KEY, v2);
+  const fromV2 = loadSaveData();
+  assert.deepEqual(fromV2.levelBoards, {});
+  assert.deepEqual(fromV2.profiles[0].unlocks, { core: [0, 1] });
+  assert.deepEqual(fromV2.profiles[0].achievements, {});
+
+  const levelBoards = { core: { 2: { time: [{ ...ENTRY, level: 2, time: 31.5 }], area: [] } } };
+  store(SAVE_KEY, { ...defaults, schemaVersion: 3, levelBoards, profiles: [profile] });
+  const fromV3 = loadSaveData();
+  assert.deepEqual(fromV3.levelBoards, levelBoards);
+  assert.equal(fromV3.profiles[0].id, profile.id);
+  assert.deepEqual(fromV3.profiles[0].achievements, {});
+});
+
+test('a clean load refreshes the backup copy', () => {
+  const data = createDefaultSave();
+  store(SAVE_KEY, data);
+  assert.deepEqual(loadSaveData(), data);
+  assert.deepEqual(stored(BACKUP_KEY), data);
+});
+
+test('a corrupted save document is recovered from the backup copy', (t) => {
+  t.mock.method(console, 'warn', () => {});
+  const backup = createDefaultSave();
+  backup.profiles[0].unlocks = { core: [0, 1, 2, 3] };
+  store(BACKUP_KEY, backup);
+  localStorage.setItem(SAVE_KEY, '{"schemaVersion": 4, "profi');
+
+  const data = loadSaveData();
+  assert.equal(data.activeProfileId, backup.activeProfileId);
+  assert.deepEqual(data.profiles[0].unlocks, { core: [0, 1, 2, 3] });
+  assert.equal(console.warn.mock.callCount(), 1);
+});
+
+test('without a readable document or backup the game starts fresh', (t) => {
+  t.mock.method(console, 'warn', () => {});
+  localStorage.setItem(SAVE_KEY, 'not json');
+  localStorage.setItem(BACKUP_KEY, 'not json either');
+
+  const data = loadSaveData();
+  assert.equal(data.profiles.length, 1);
+  assert.deepEqual(data.profiles[0].unlocks, { core: [0] });
+  assert.equal(console.warn.mock.callCount(), 2);
+});
+
+// A save with one profile; `played` levels mark the device as used
+const saveWith = ({ name = 'ANA', language = 'EN', played = 0, ...profile } = {}) => {
+  const data = createDefaultSave();
+  data.profiles[0] = { ...data.profiles[0], name, language, ...profile };
+  data.profiles[0].stats = { ...data.profiles[0].stats, levelsPlayed: played };
+  return data;
+};
+
+test('an import keeps the settings and profile language of a device that has been played on', () => {
+  const current = saveWith({ played: 3, unlocks: { core: [0, 1] } });
+  current.settings = { ...current.settings, volume: 0.5 };
+  const incoming = saveWith({ name: 'ana', language: 'FR', played: 10, unlocks: { core: [0, 2], neon: [1] } });
+  incoming.settings = { ...incoming.settings, quality: 'LOW' };
+
+  const merged = mergeSaveData(current, incoming);
+  assert.equal(merged.profiles.length, 1, 'profiles match by name, whatever the case');
+  const [profile] = merged.profiles;
+  assert.equal(profile.id, current.profiles[0].id);
+  assert.equal(profile.language, 'EN');
+  assert.deepEqual(profile.unlocks, { core: [0, 1, 2], neon: [1] });
+  assert.equal(profile.stats.levelsPlayed, 10);
+  assert.deepEqual(merged.settings, current.settings);
+  assert.equal(merged.activeProfileId, current.activeProfileId);
+});
+
+test('an import into a device nobody has played on takes the settings and language of the file', () => {
+  const current = saveWith();
+  const incoming = saveWith({ language: 'FR', played: 10 });
+  incoming.settings = { ...incoming.settings, quality: 'LOW', keepMoving: true };
+
+  const merged = mergeSaveData(current, incoming);
+  assert.equal(merged.profiles[0].language, 'FR');
+  assert.deepEqual(merged.settings, incoming.settings);
+});
+
+test('imported profiles with a new name are added, with a new id if theirs is taken', () => {
+  const current = saveWith({ played: 1 });
+  const incoming = saveWith({ name: 'BEA', id: current.profiles[0].id });
+
+  const merged = mergeSaveData(current, incoming);
+  assert.deepEqual(merged.profiles.map(p => p.name), ['ANA', 'BEA']);
+  assert.notEqual(merged.profiles[1].id, merged.profiles[0].id);
+  assert.equal(merged.activeProfileId, current.activeProfileId);
+});
+
+test('merged boards keep the best result per player, level and date', () => {
+  const other = { ...ENTRY, date: '2025-03-02T10:00:00.000Z', score: 900 };
+  const current = saveWith({ played: 1 });
+  current.scores = { core: [ENTRY, other] };
+  current.levelBoards = { core: { 3: { time: [{ ...ENTRY, time: 40 }], area: [] } } };
+  const incoming = saveWith();
+  incoming.scores = { core: [{ ...ENTRY, score: 5000 }, other, { ...ENTRY, playerName: 'BEA' }] };
+  incoming.levelBoards = { core: { 3: { time: [{ ...ENTRY, time: 35 }], area: [] } } };
+
+  const merged = mergeSaveData(current, incoming);
+  assert.deepEqual(merged.scores.core, [{ ...ENTRY, score: 5000 }, { ...ENTRY, playerName: 'BEA' }, other]);
+  assert.deepEqual(merged.levelBoards.core[3].time, [{ ...ENTRY, time: 35 }]);
+});
@@ -0,0 +1,103 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { loadModules } from './loadModules.mjs';
+import { createDriver, testLevel, DOWN, LEFT, RIGHT } from './fixtures.mjs';
+
+let loaded;
+let createGameSimulation, createReplayRecorder, createRunProof, verifyScoreEntry;
+
+before(async () => {
+  loaded = await loadModules([
+    '/services/gameSimulation.ts',
+    '/services/replay.ts',
+    '/services/runProof.ts',
+    '/services/scoreVerifier.ts'
+  ]);
+  [{ createGameSimulation }, { createReplayRecorder }, { createRunProof }, { verifyScoreEntry }] = loaded.modules;
+});
+
+after(() => loaded.close());
+
+const SCORE_BOARD = { packId: 'core', kind: 'SCORE' };
+
+// A minion that hunts the player, no boss: the first capture clears the level
+const LEVELS = [testLevel({ enemyCount: 0, minionCount: 1 })];
+const TUTORIAL = testLevel({ id: 0, enemyCount: 0, minionCount: 1 });
+
+/**
+ * Plays one level attempt the way a player would and returns the score entry
+ * the game would submit for it, proof included.
+ */
+const playRun = ({ level = LEVELS[0], takeHit = false } = {}) => {
+  const sim = createGameSimulation(level, { seed: 42 });
+  const recorder = createReplayRecorder(level, 42, 0);
+  const driver = createDriver(sim, recorder);
+  if (takeHit) driver.waitUntil(() => driver.events.some(event => event.type === 'DAMAGE'));
+  driver.walk(RIGHT, DOWN, LEFT);
+  const state = sim.getState();
+  assert.equal(state.status, 'LEVEL_COMPLETE');
+  const livesLost = 3 - state.player.lives; // No items, so no extra lives
+  return {
+    playerName: 'AAA',
+    score: state.stats.score,
+    level: level.id,
+    date: '2026-01-01T00:00:00.000Z',
+    continuesUsed: 0,
+    livesLost,
+    maxCombo: 1,
+    time: Math.round(state.stats.timeElapsed * 100) / 100,
+    proof: createRunProof(undefined, [recorder.finish(state)])
+  };
+};
+
+test('accepts an entry that matches its run', () => {
+  const result = verifyScoreEntry(playRun(), SCORE_BOARD, LEVELS);
+  assert.deepEqual(result, { ok: true, errors: [] });
+});
+
+test('accepts a run with a hit that cost a life', () => {
+  const entry = playRun({ takeHit: true });
+  assert.equal(entry.livesLost, 1);
+  assert.deepEqual(verifyScoreEntry(entry, SCORE_BOARD, LEVELS), { ok: true, errors: [] });
+});
+
+test('accepts a tutorial run with a hit, which costs no life', () => {
+  const entry = playRun({ level: TUTORIAL, takeHit: true });
+  assert.equal(entry.livesLost, 0);
+  assert.deepEqual(verifyScoreEntry(entry, SCORE_BOARD, [TUTORIAL, ...LEVELS]), { ok: true, errors: [] });
+});
+
+test('rejects a score the run did not make', () => {
+  const entry = playRun();
+  const result = verifyScoreEntry({ ...entry, score: entry.score + 100 }, SCORE_BOARD, LEVELS);
+  assert.equal(result.ok, false);
+  assert.match(result.errors[0], /Score/);
+});
+
+test('rejects hidden lives lost', () => {
+  const entry = playRun({ takeHit: true });
+  const result = verifyScoreEntry({ ...entry, livesLost: 0 }, SCORE_BOARD, LEVELS);
+  assert.equal(result.ok, false);
+  assert.deepEqual(result.errors, ['Lives lost do not match']);
+});
+
+test('rejects inputs that were tampered with', () => {
+  const entry = playRun();
+  const [attempt] = entry.proof.attempts;
+  const proof = { ...entry.proof, attempts: [{ ...attempt, inputs: attempt.inputs.replace(/L$/, 'N') }] };
+  assert.equal(verifyScoreEntry({ ...entry, proof }, SCORE_BOARD, LEVELS).ok, false);
+});
+
+test('rejects a proof longer than any real run before simulating it', () => {
+  const entry = playRun();
+  const [attempt] = entry.proof.attempts;
+  // Five 30 minute attempts: each fits the level limit, together they are over the run limit
+  const proof = { ...entry.proof, attempts: Array(5).fill({ ...attempt, ticks: 90000 }) };
+  assert.deepEqual(verifyScoreEntry({ ...entry, proof }, SCORE_BOARD, LEVELS), { ok: false, errors: ['Run proof is too long'] });
+});
+
+test('rejects entries without a proof or for another pack', () => {
+  const entry = playRun();
+  assert.deepEqual(verifyScoreEntry({ ...entry, proof: undefined }, SCORE_BOARD, LEVELS), { ok: false, errors: ['Entry has no run proof'] });
+  assert.equal(verifyScoreEntry(entry, { ...SCORE_BOARD, packId: 'other' }, LEVELS).ok, false);
+});
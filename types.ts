@@ -3,15 +3,23 @@ export enum GameStatus {
   MENU = 'MENU',
   PLAYING = 'PLAYING',
   PAUSED = 'PAUSED',
+  REPLAY = 'REPLAY', // Watching a recorded run
+  EDITOR = 'EDITOR', // Level editor (and its play-test)
   CONTINUE_SCREEN = 'CONTINUE_SCREEN', // New status for Continue countdown
   GAME_OVER = 'GAME_OVER',
   LEVEL_COMPLETE = 'LEVEL_COMPLETE',
   VIEW_IMAGE = 'VIEW_IMAGE', // New status to view image fullscreen
   LEADERBOARD = 'LEADERBOARD',
+  SETTINGS = 'SETTINGS',
+  PROFILES = 'PROFILES', // Pick, create or delete local profiles
+  ACHIEVEMENTS = 'ACHIEVEMENTS', // Gallery of earned and locked achievements
+  STATS = 'STATS', // Lifetime statistics of the active profile
   NEW_HIGHSCORE = 'NEW_HIGHSCORE'
 }
 
-export type Language = 'ES' | 'EN' | 'FR';
+export type Language = string; // Locale code, one per file in locales/ (see services/i18n.ts)
+
+export type EffectsQuality = 'LOW' | 'MEDIUM' | 'HIGH';
 
 export interface LevelConfig {
   id: number;
@@ -21,6 +29,21 @@ export interface LevelConfig {
   bossSpeed: number;
   minRevealPercent: number;
   enemyCount: number; // New: Number of enemies
+  minionCount?: number; // Border patrollers hunting the player
+  packId?: string; // Level pack this level belongs to (core when missing)
+  itemSpawnIntervalMs?: number; // 0 disables items
+  itemWeights?: Partial<Record<ItemType, number>>; // Overrides ITEM_WEIGHTS
+  musicTrack?: number; // Jukebox track index
+  mask?: string[]; // Starting grid, one string per row: '0' revealed, '1' covered, 'X' obstacle
+  bossSpawns?: Point[]; // Bosses cycle through these instead of starting at the center
+  minionSpawns?: Point[]; // Must be on revealed tiles
+}
+
+export interface LevelPack {
+  id: string;
+  name: string;
+  author?: string;
+  levels: LevelConfig[];
 }
 
 export interface ScoreEntry {
@@ -28,6 +51,182 @@ export interface ScoreEntry {
   score: number;
   level: number;
   date: string;
+  // Run details (missing on entries saved before they were tracked)
+  continuesUsed?: number;
+  livesLost?: number;
+  maxCombo?: number;
+  time?: number; // Seconds: the whole run on score boards, the level on per-level boards
+  area?: number; // Percentage revealed on the level
+  proof?: RunProof; // Only on remote submissions, see services/runProof.ts
+}
+
+// One level attempt of a run, enough to re-simulate it (initial score is derived)
+export interface RunProofAttempt {
+  levelId: number;
+  seed: number;
+  ticks: number;
+  inputs: string; // Encoded direction changes
+}
+
+export interface RunProof {
+  version: number;
+  packId?: string; // Missing for core levels
+  attempts: RunProofAttempt[];
+}
+
+export type LeaderboardKind = 'SCORE' | 'TIME' | 'AREA';
+
+// Per-level boards: fastest clears and widest reveals
+export interface LevelBoards {
+  time: ScoreEntry[];
+  area: ScoreEntry[];
+}
+
+// One level attempt of the current run
+export interface RunLevelResult {
+  levelId: number;
+  time: number; // Seconds
+  area: number;
+  cleared: boolean;
+}
+
+// What happened during the current run, for the leaderboards
+export interface RunDetails {
+  levels: RunLevelResult[];
+  livesLost: number;
+  maxCombo: number;
+}
+
+// What happened during the current level attempt, for Silver's commentary
+export interface LevelTelemetry {
+  largestCapture: number; // Percentage revealed by the biggest single cut
+  comboPeak: number;
+  nearMisses: number; // Enemies that came within NEAR_MISS_RANGE and left without a hit
+  livesLost: number;
+}
+
+// Everything Silver knows when commenting on a level result
+export interface CommentaryRequest {
+  status: 'WIN' | 'GAME_OVER';
+  stats: GameStats;
+  levelName: string;
+  language: Language;
+  // Run facts for context-aware lines; without them only the generic lines are used
+  telemetry?: LevelTelemetry;
+  continuesUsed?: number; // In the run so far
+  bestTime?: number; // Personal best clear of this level before this attempt, seconds
+}
+
+// Situations Silver has specific lines for (see services/commentaryTemplates.ts)
+export type CommentaryTopic =
+  | 'NEW_BEST' | 'OFF_PACE' | 'FLAWLESS' | 'BIG_CUT' | 'COMBO' | 'NEAR_MISSES'
+  | 'CONTINUES' | 'SO_CLOSE' | 'QUICK_DEATH';
+
+export type SilverMood = 'NEUTRAL' | 'EXCITED' | 'SAD' | 'DEFEATED';
+
+// In-game events Silver reacts to, see services/silverReactions.ts
+export type SilverTrigger =
+  | 'CAPTURE' | 'BIG_CAPTURE' | 'ITEM' | 'NEAR_MISS' | 'DAMAGE' | 'LOW_LIVES'
+  | 'IDLE' | 'HALFWAY' | 'ALMOST_THERE';
+
+// A board the finished run made it onto, waiting for the player's initials
+export interface BoardRecord {
+  kind: LeaderboardKind;
+  entry: ScoreEntry;
+}
+
+// Identifies one board: the pack's score board, or a level's time / area board
+export interface BoardRef {
+  packId: string;
+  kind: LeaderboardKind;
+  levelId?: number; // Required for TIME and AREA
+}
+
+export interface RankedEntry extends ScoreEntry {
+  rank: number; // 1-based position on the board
+}
+
+// LOCAL: no remote configured; OFFLINE: submissions waiting for the network
+export type SyncStatus = 'LOCAL' | 'SYNCED' | 'SYNCING' | 'OFFLINE';
+
+export interface SyncState {
+  status: SyncStatus;
+  pending: number; // Queued submissions
+  lastError?: string;
+}
+
+// Keyboard actions that can be rebound in the settings screen
+export type ControlAction = 'UP' | 'DOWN' | 'LEFT' | 'RIGHT' | 'PAUSE';
+
+// Lower-cased KeyboardEvent.key values per action, see services/controls.ts
+export type KeyBindings = Record<ControlAction, string[]>;
+
+// Which side of the screen the touch joystick sits on
+export type TouchLayout = 'LEFT' | 'RIGHT';
+
+// Gamepad buttons the game listens to (standard mapping), see services/gamepad.ts
+export type PadButton = 'A' | 'B' | 'START';
+
+export type RumbleKind = 'DAMAGE' | 'CAPTURE';
+
+// Device-wide settings, shared by every profile
+export interface GameSettings {
+  quality: EffectsQuality;
+  ghostEnabled: boolean;
+  keyBindings: KeyBindings;
+  volume: number; // 0..1, master volume of music and sound effects
+  reducedEffects: boolean; // No damage screen flash
+  touchLayout: TouchLayout;
+  keepMoving: boolean; // The player keeps going after the key is released (see services/inputManager.ts)
+}
+
+// Lifetime aggregates of one level (see services/playerStats.ts)
+export interface LevelStats {
+  attempts: number;
+  clears: number; // Skipped levels excluded
+  gameOvers: number;
+  livesLost: number;
+  clearTime: number; // Seconds, summed over clears
+  bestTime?: number; // Seconds, fastest clear
+}
+
+export interface PlayerStats {
+  levelsPlayed: number;
+  levelsCompleted: number;
+  timePlayed: number; // Seconds
+  tilesRevealed: number;
+  livesLost: number;
+  continuesUsed: number;
+  deathsBy: Record<Enemy['type'], number>; // Lives lost, per enemy type
+  captureSizes: number[]; // Histogram of single captures, buckets in CAPTURE_SIZE_BUCKETS
+  levels: Record<string, Record<string, LevelStats>>; // Per pack, then level id
+}
+
+// Progress towards one achievement (see services/achievements.ts)
+export interface AchievementRecord {
+  progress: number;
+  unlockedAt?: string; // ISO date, set once the target is reached
+}
+
+export interface PlayerProfile {
+  id: string;
+  name: string;
+  language: Language;
+  unlocks: Record<string, number[]>; // Unlocked level ids, per pack
+  bests: Record<string, ScoreEntry[]>; // Personal high scores, per pack
+  continueHistory: number[]; // Continues used in each finished run, most recent last
+  stats: PlayerStats;
+  achievements: Record<string, AchievementRecord>; // By achievement id
+}
+
+// Everything stored on this device, persisted as one versioned document
+export interface SaveData {
+  schemaVersion: number;
+  activeProfileId: string;
+  profiles: PlayerProfile[];
+  scores: Record<string, ScoreEntry[]>; // Device-wide high score table, per pack
+  levelBoards: Record<string, Record<string, LevelBoards>>; // Device-wide, per pack then level id
+  settings: GameSettings;
 }
 
 export interface Point {
@@ -53,12 +252,23 @@ export interface Enemy {
   changeDirTimer: number; // For random movement behavior
 }
 
+export type ItemType = 'SCORE' | 'LIFE' | 'FREEZE' | 'SLOW' | 'SHIELD' | 'CUT_THROUGH';
+
 export interface Item {
   x: number;
   y: number;
   life: number; // Remaining life in ms
   maxLife: number;
-  type: 'SCORE';
+  type: ItemType;
+}
+
+// Active power-ups, as simulation timestamps / flags
+export interface PowerUpState {
+  freezeUntil: number;
+  slowUntil: number;
+  shieldUntil: number;
+  cutThroughArmed: boolean; // The next trail will be immune
+  trailImmune: boolean; // The current trail is immune
 }
 
 export interface Particle {
@@ -93,4 +303,58 @@ export interface GameStats {
   areaRevealed: number; // Percentage 0-100
   timeElapsed: number;
   score: number;
-}
\ No newline at end of file
+}
+
+// 0 = revealed / safe ground, 1 = covered, 2 = player trail, 3 = obstacle (indestructible)
+export type TileType = 0 | 1 | 2 | 3;
+
+export interface ComboState {
+  count: number;
+  lastActionTime: number; // Simulation ms of the last capture
+  lastMoveTime: number; // Simulation ms of the last movement input
+}
+
+export type SimulationStatus = 'PLAYING' | 'LEVEL_COMPLETE' | 'GAME_OVER';
+
+// Serializable snapshot of a running level (see services/gameSimulation.ts)
+export interface SimulationState {
+  levelId: number;
+  seed: number;
+  rngState: number;
+  tick: number;
+  time: number; // Simulated ms since the level started
+  status: SimulationStatus;
+  grid: TileType[][];
+  player: Player;
+  enemies: Enemy[];
+  items: Item[];
+  itemSpawnTimer: number;
+  powerUps: PowerUpState;
+  trail: Point[];
+  combo: ComboState;
+  stats: GameStats;
+}
+
+export type SimulationEvent =
+  | { type: 'CAPTURE'; tiles: number; points: number; combo: number; area: number; x: number; y: number } // area: percentage gained
+  | { type: 'COMBO_BROKEN'; reason: 'IDLE' | 'DAMAGE' | 'TIMEOUT'; x: number; y: number }
+  | { type: 'DAMAGE'; lives: number; lifeLost: boolean; source: Enemy['type']; x: number; y: number } // lifeLost: false in the tutorial
+  | { type: 'ITEM'; item: ItemType; x: number; y: number }
+  | { type: 'LEVEL_COMPLETE' }
+  | { type: 'GAME_OVER' };
+
+// [tick, dx, dy]: the direction held from this simulation tick onwards
+export type ReplayInput = [number, number, number];
+
+export interface Replay {
+  version: number;
+  packId?: string; // Missing for core levels
+  levelId: number;
+  seed: number;
+  initialScore: number;
+  inputs: ReplayInput[];
+  totalTicks: number;
+  result: SimulationStatus; // PLAYING means the run was abandoned
+  stats: GameStats; // Final stats, for display before loading
+  recordedAt: string;
+}
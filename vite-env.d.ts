@@ -0,0 +1,10 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_LEADERBOARD_URL?: string; // Remote leaderboard server, scores stay local when unset
+  readonly GEMINI_API_KEY?: string; // AI commentary, the built-in lines are used when unset
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
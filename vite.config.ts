@@ -13,6 +13,9 @@ export default defineConfig({
 
   plugins: [react()],
 
+  // GEMINI_API_KEY (.env.local) turns on the AI commentary
+  envPrefix: ['VITE_', 'GEMINI_'],
+
   resolve: {
     alias: {
       '@': path.resolve(__dirname, '.'),